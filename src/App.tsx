@@ -5,6 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { SettingsProvider } from "./contexts/SettingsContext";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { DirectMessagesProvider } from "./contexts/DirectMessagesContext";
+import { PresenceProvider } from "./contexts/PresenceContext";
+import { NotificationsProvider } from "./contexts/NotificationsContext";
+import type { Permission } from "./lib/permissions";
 import { MainLayout } from "./layouts/MainLayout";
 import { Embedder } from "./pages/Embedder";
 import { Proxy } from "./pages/Proxy";
@@ -51,8 +55,8 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
-const AdminRoute = ({ children }: { children: React.ReactNode }) => {
-  const { isAdmin, isLoading } = useAuth();
+const PermissionRoute = ({ permission, children }: { permission: Permission; children: React.ReactNode }) => {
+  const { can, isLoading } = useAuth();
   
   if (isLoading) {
     return (
@@ -62,25 +66,7 @@ const AdminRoute = ({ children }: { children: React.ReactNode }) => {
     );
   }
   
-  if (!isAdmin) {
-    return <Navigate to="/" replace />;
-  }
-  
-  return <>{children}</>;
-};
-
-const OwnerRoute = ({ children }: { children: React.ReactNode }) => {
-  const { isOwner, isLoading } = useAuth();
-  
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <div className="animate-pulse text-primary font-mono">Loading...</div>
-      </div>
-    );
-  }
-  
-  if (!isOwner) {
+  if (!can(permission)) {
     return <Navigate to="/" replace />;
   }
   
@@ -117,7 +103,13 @@ const App = () => (
               <Route path="/login" element={<LoginRoute />} />
               <Route element={
                 <ProtectedRoute>
-                  <MainLayout />
+                  <PresenceProvider>
+                    <NotificationsProvider>
+                      <DirectMessagesProvider>
+                        <MainLayout />
+                      </DirectMessagesProvider>
+                    </NotificationsProvider>
+                  </PresenceProvider>
                 </ProtectedRoute>
               }>
                 <Route path="/" element={<Embedder />} />
@@ -129,19 +121,19 @@ const App = () => (
                 <Route path="/apps" element={<Apps />} />
                 <Route path="/settings" element={<Settings />} />
                 <Route path="/admin" element={
-                  <AdminRoute>
+                  <PermissionRoute permission="admin.access">
                     <Admin />
-                  </AdminRoute>
+                  </PermissionRoute>
                 } />
                 <Route path="/agent" element={
-                  <OwnerRoute>
+                  <PermissionRoute permission="agent.use">
                     <Agent />
-                  </OwnerRoute>
+                  </PermissionRoute>
                 } />
                 <Route path="/waiting-list" element={
-                  <OwnerRoute>
+                  <PermissionRoute permission="waiting_list.manage">
                     <WaitingList />
-                  </OwnerRoute>
+                  </PermissionRoute>
                 } />
               </Route>
               <Route path="*" element={<NotFound />} />
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Pencil, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getAccessRequestToken } from '@/lib/session';
+import { useToast } from '@/hooks/use-toast';
+
+interface AccessRequest {
+  id: string;
+  display_name: string | null;
+  message: string | null;
+  status: string;
+  created_at: string;
+}
+
+// The applicant's own waiting list entry, editable until it is reviewed
+export const AccessRequestCard = () => {
+  const [request, setRequest] = useState<AccessRequest | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const { toast } = useToast();
+
+  const invokeRequest = useCallback(async (action: string, params: Record<string, unknown> = {}) => {
+    const response = await supabase.functions.invoke('access-request', {
+      body: { action, request_token: getAccessRequestToken(), ...params }
+    });
+
+    if (response.error) {
+      throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+    }
+    return response.data;
+  }, []);
+
+  useEffect(() => {
+    // Requests made before details were collected, or on another browser, have no token here
+    if (!getAccessRequestToken()) return;
+
+    invokeRequest('get')
+      .then((data) => setRequest(data.request))
+      .catch((error) => console.error('Fetch access request error:', error));
+  }, [invokeRequest]);
+
+  const startEditing = () => {
+    if (!request) return;
+    setName(request.display_name || '');
+    setMessage(request.message || '');
+    setIsEditing(true);
+  };
+
+  const saveRequest = async () => {
+    setIsSaving(true);
+    try {
+      const data = await invokeRequest('update', { display_name: name, message });
+      setRequest(data.request);
+      setIsEditing(false);
+      toast({ title: "Request updated" });
+    } catch (error) {
+      toast({
+        title: "Failed to update request",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!request) return null;
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-3 text-left">
+      {isEditing ? (
+        <>
+          <Input
+            placeholder="Your name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={40}
+            className="font-mono"
+          />
+          <Textarea
+            placeholder="Why do you need access? (optional)"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={500}
+            className="font-mono min-h-24"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={saveRequest} disabled={isSaving || !name.trim()} className="gap-2">
+              <Save className="h-4 w-4" />
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground font-mono">Requested as</p>
+              <p className="font-medium truncate">{request.display_name || 'No name given'}</p>
+            </div>
+            {request.status === 'pending' && (
+              <Button variant="ghost" size="sm" onClick={startEditing} className="gap-2">
+                <Pencil className="h-4 w-4" />
+                Edit
+              </Button>
+            )}
+          </div>
+          {request.message && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{request.message}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,383 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { KeyRound, Ticket, Plus, Copy, Trash2, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { RoleSummary } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+interface Account {
+  id: string;
+  username: string;
+  role: string;
+  is_disabled: boolean;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+interface InviteUse {
+  id: string;
+  kind: 'register' | 'login';
+  device_id: string | null;
+  ip_address: string | null;
+  created_at: string;
+  account: { username: string } | null;
+}
+
+interface Invite {
+  id: string;
+  code: string;
+  role: string;
+  max_uses: number;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  uses: InviteUse[];
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString();
+};
+
+interface AccountsPanelProps {
+  // Roles the caller may hand out through invites
+  roles: RoleSummary[];
+}
+
+// Management of per-user accounts and the invites that create them
+export const AccountsPanel = ({ roles }: AccountsPanelProps) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteRole, setInviteRole] = useState('user');
+  const [inviteHours, setInviteHours] = useState('168');
+  const [inviteUses, setInviteUses] = useState('1');
+  const [expandedInvite, setExpandedInvite] = useState<string | null>(null);
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
+  const { session: currentSession } = useAuth();
+  const { toast } = useToast();
+
+  const invokeAccountAction = useCallback(async (action: string, params: Record<string, unknown> = {}) => {
+    const response = await supabase.functions.invoke('manage-account', {
+      body: { action, session_token: getSessionToken(), ...params }
+    });
+
+    if (response.error) {
+      throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+    }
+    return response.data;
+  }, []);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const [accountsData, invitesData] = await Promise.all([
+        invokeAccountAction('list_accounts'),
+        invokeAccountAction('list_invites'),
+      ]);
+      setAccounts(accountsData.accounts || []);
+      setInvites(invitesData.invites || []);
+    } catch (error) {
+      toast({
+        title: "Error fetching accounts",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  }, [invokeAccountAction, toast]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const createInvite = async () => {
+    setIsCreatingInvite(true);
+    try {
+      const data = await invokeAccountAction('create_invite', {
+        role: inviteRole,
+        expires_in_hours: Number(inviteHours),
+        max_uses: Number(inviteUses)
+      });
+      await navigator.clipboard?.writeText(data.invite.code).catch(() => undefined);
+      toast({
+        title: "Invite created",
+        description: `Code ${data.invite.code} copied to clipboard`
+      });
+      fetchAccounts();
+    } catch (error) {
+      toast({
+        title: "Failed to create invite",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    try {
+      await invokeAccountAction('revoke_invite', { invite_id: inviteId });
+      toast({ title: "Invite revoked" });
+      fetchAccounts();
+    } catch (error) {
+      toast({
+        title: "Failed to revoke invite",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const copyInvite = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Copied", description: code });
+    } catch {
+      toast({ title: "Copy failed", description: code, variant: "destructive" });
+    }
+  };
+
+  const setAccountDisabled = async (accountId: string, disabled: boolean) => {
+    try {
+      await invokeAccountAction('set_account_disabled', { target_account_id: accountId, disabled });
+      toast({ title: disabled ? "Account disabled" : "Account enabled" });
+      fetchAccounts();
+    } catch (error) {
+      toast({
+        title: "Failed to update account",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isInviteActive = (invite: Invite) =>
+    !invite.revoked_at &&
+    invite.use_count < invite.max_uses &&
+    new Date(invite.expires_at).getTime() > Date.now();
+
+  const getInviteStatus = (invite: Invite) => {
+    if (invite.revoked_at) return 'Revoked';
+    if (invite.use_count >= invite.max_uses) return 'Used up';
+    if (new Date(invite.expires_at).getTime() <= Date.now()) return 'Expired';
+    return 'Active';
+  };
+
+  return (
+    <>
+      {/* Invites */}
+      <section className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Ticket className="h-5 w-5 text-purple-500" />
+          <h2 className="font-mono font-bold">Invites ({invites.length})</h2>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 border border-border rounded-lg p-4">
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={inviteRole} onValueChange={setInviteRole}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-hours">Expires in (hours)</Label>
+            <Input
+              id="invite-hours"
+              type="number"
+              min={1}
+              max={720}
+              value={inviteHours}
+              onChange={(e) => setInviteHours(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-uses">Max uses</Label>
+            <Input
+              id="invite-uses"
+              type="number"
+              min={1}
+              max={100}
+              value={inviteUses}
+              onChange={(e) => setInviteUses(e.target.value)}
+              className="w-24"
+            />
+          </div>
+          <Button onClick={createInvite} disabled={isCreatingInvite || !Number(inviteHours) || !Number(inviteUses)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {isCreatingInvite ? 'Creating...' : 'Create Invite'}
+          </Button>
+        </div>
+
+        <div className="border border-border rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-secondary">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Code</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Uses</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Expires</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-mono text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {invites.map((invite) => (
+                <Fragment key={invite.id}>
+                  <tr className="hover:bg-secondary/50 transition-colors">
+                    <td className="px-4 py-3 font-mono text-sm">{invite.code}</td>
+                    <td className="px-4 py-3 text-sm">{invite.role}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">{invite.use_count}/{invite.max_uses}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">{formatDate(invite.expires_at)}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">{getInviteStatus(invite)}</td>
+                    <td className="px-4 py-3 text-right space-x-2">
+                      {invite.uses.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExpandedInvite(expandedInvite === invite.id ? null : invite.id)}
+                          title="Usage history"
+                          className="h-8 w-8"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isInviteActive(invite) && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => copyInvite(invite.code)}
+                            title="Copy code"
+                            className="h-8 w-8"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => revokeInvite(invite.id)}
+                            title="Revoke invite"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedInvite === invite.id && (
+                    <tr className="bg-secondary/30">
+                      <td colSpan={6} className="px-4 py-3">
+                        <ul className="space-y-1 text-sm">
+                          {invite.uses.map((use) => (
+                            <li key={use.id} className="flex flex-wrap gap-x-3 text-muted-foreground">
+                              <span className="text-foreground">{use.account?.username ?? 'deleted account'}</span>
+                              <span>{use.kind === 'register' ? 'created an account' : 'signed in'}</span>
+                              {use.device_id && <span className="font-mono">device {use.device_id.slice(0, 8)}</span>}
+                              {use.ip_address && <span className="font-mono">{use.ip_address}</span>}
+                              <span>{formatDate(use.created_at)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+              {invites.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                    No invites
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Accounts */}
+      <section className="space-y-4">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-purple-500" />
+          <h2 className="font-mono font-bold">Accounts ({accounts.length})</h2>
+        </div>
+
+        <div className="border border-border rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-secondary">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Username</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Last Login</th>
+                <th className="px-4 py-3 text-right text-xs font-mono text-muted-foreground">Enabled</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {accounts.map((account) => (
+                <tr key={account.id} className="hover:bg-secondary/50 transition-colors">
+                  <td className="px-4 py-3 font-medium">
+                    {account.username}
+                    {account.username === currentSession?.account_username && (
+                      <span className="ml-2 text-xs text-primary">(You)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={cn(
+                      "px-2 py-1 rounded-full text-xs font-mono",
+                      account.role === 'owner'
+                        ? "bg-purple-500/20 text-purple-500"
+                        : account.role === 'admin'
+                          ? "bg-primary/20 text-primary"
+                          : "bg-secondary text-muted-foreground"
+                    )}>
+                      {account.role}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {account.last_login_at ? formatDate(account.last_login_at) : 'Never'}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Switch
+                      checked={!account.is_disabled}
+                      onCheckedChange={(checked) => setAccountDisabled(account.id, !checked)}
+                      disabled={account.role === 'owner'}
+                    />
+                  </td>
+                </tr>
+              ))}
+              {accounts.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-8 text-center text-muted-foreground">
+                    No accounts
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </>
+  );
+};
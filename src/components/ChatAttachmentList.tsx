@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { FileText, Download } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { formatFileSize, type ChatAttachment } from '@/lib/chat-attachments';
+
+interface ChatAttachmentListProps {
+  attachments: ChatAttachment[];
+}
+
+// Image thumbnails that open in a lightbox, and download links for files
+export const ChatAttachmentList = ({ attachments }: ChatAttachmentListProps) => {
+  const [viewing, setViewing] = useState<ChatAttachment | null>(null);
+  const images = attachments.filter(a => a.kind === 'image' && a.url);
+  const files = attachments.filter(a => a.kind === 'file' && a.url);
+
+  return (
+    <div className="mt-1 space-y-1">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setViewing(image)}
+              className="block overflow-hidden rounded border border-primary/20 hover:border-primary/50 transition-colors"
+              title={image.file_name}
+            >
+              <img
+                src={image.thumbnail_url ?? image.url!}
+                alt={image.file_name}
+                loading="lazy"
+                width={image.width ?? undefined}
+                height={image.height ?? undefined}
+                className="max-h-40 max-w-[12rem] w-auto h-auto object-contain bg-black/40"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={file.url!}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex w-fit max-w-full items-center gap-2 rounded border border-primary/20 px-2 py-1 text-xs hover:border-primary/50 transition-colors"
+        >
+          <FileText className="h-4 w-4 shrink-0 text-primary/70" />
+          <span className="truncate">{file.file_name}</span>
+          <span className="shrink-0 text-muted-foreground">{formatFileSize(file.size_bytes)}</span>
+          <Download className="h-3 w-3 shrink-0 text-muted-foreground" />
+        </a>
+      ))}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-[90vw] w-auto p-2 bg-black/95 border-primary/30">
+          <DialogTitle className="sr-only">{viewing?.file_name}</DialogTitle>
+          {viewing?.url && (
+            <div className="space-y-2">
+              <img
+                src={viewing.url}
+                alt={viewing.file_name}
+                className="max-h-[80vh] max-w-full mx-auto object-contain"
+              />
+              <div className="flex items-center justify-between gap-4 px-1 text-xs font-mono text-muted-foreground">
+                <span className="truncate">{viewing.file_name}</span>
+                <a
+                  href={viewing.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="shrink-0 text-primary hover:underline"
+                >
+                  Open original
+                </a>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
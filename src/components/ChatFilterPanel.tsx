@@ -0,0 +1,332 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Filter, Plus, Trash2, FlaskConical, Flag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FILTER_ACTION_LABELS,
+  FILTER_MATCH_TYPE_LABELS,
+  invokeChatFilter,
+  type FilterAction,
+  type FilterMatchType,
+  type FilterRule,
+  type FilterTestResult,
+  type FlaggedMessage,
+} from '@/lib/chat-filter';
+
+const OUTCOME_LABELS: Record<FilterTestResult['outcome'], string> = {
+  allowed: 'Allowed',
+  masked: 'Posted with masking',
+  flagged: 'Posted and flagged',
+  rejected: 'Rejected',
+  muted: 'Rejected and sender muted',
+};
+
+// Word filter rules, a tester for them, and messages flagged for review
+export const ChatFilterPanel = () => {
+  const [rules, setRules] = useState<FilterRule[]>([]);
+  const [flags, setFlags] = useState<FlaggedMessage[]>([]);
+  const [pattern, setPattern] = useState('');
+  const [matchType, setMatchType] = useState<FilterMatchType>('exact');
+  const [ruleAction, setRuleAction] = useState<FilterAction>('reject');
+  const [muteMinutes, setMuteMinutes] = useState('10');
+  const [isCreating, setIsCreating] = useState(false);
+  const [savingRule, setSavingRule] = useState<string | null>(null);
+  const [sample, setSample] = useState('');
+  const [testResult, setTestResult] = useState<FilterTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const [ruleData, flagData] = await Promise.all([
+        invokeChatFilter('list_rules'),
+        invokeChatFilter('list_flags'),
+      ]);
+      setRules(ruleData.rules || []);
+      setFlags(flagData.flags || []);
+    } catch (error) {
+      toast({
+        title: "Error fetching word filter",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const createRule = async () => {
+    setIsCreating(true);
+    try {
+      await invokeChatFilter('create_rule', {
+        pattern: pattern.trim(),
+        match_type: matchType,
+        rule_action: ruleAction,
+        ...(ruleAction === 'mute' ? { mute_minutes: Number(muteMinutes) } : {})
+      });
+      toast({ title: "Rule added", description: pattern.trim() });
+      setPattern('');
+      setTestResult(null);
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Failed to add rule",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const updateRule = async (rule: FilterRule, changes: Record<string, unknown>) => {
+    setSavingRule(rule.id);
+    try {
+      await invokeChatFilter('update_rule', { rule_id: rule.id, ...changes });
+      setTestResult(null);
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Failed to update rule",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setSavingRule(null);
+    }
+  };
+
+  const deleteRule = async (rule: FilterRule) => {
+    if (!confirm(`Delete the rule "${rule.pattern}"?`)) return;
+
+    try {
+      await invokeChatFilter('delete_rule', { rule_id: rule.id });
+      setTestResult(null);
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Failed to delete rule",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const testSample = async () => {
+    setIsTesting(true);
+    try {
+      setTestResult(await invokeChatFilter('test_message', { message: sample }));
+    } catch (error) {
+      toast({
+        title: "Test failed",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const matchedRuleIds = new Set(testResult?.hits.map(hit => hit.rule_id) ?? []);
+  const ruleById = new Map(rules.map(rule => [rule.id, rule]));
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Filter className="h-5 w-5 text-purple-500" />
+        <h2 className="font-mono font-bold">Word Filter ({rules.length})</h2>
+      </div>
+
+      <div className="border border-border rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="filter-pattern">Pattern</Label>
+            <Input
+              id="filter-pattern"
+              placeholder={matchType === 'regex' ? 'fr[e3]{2}\\s*stuff' : matchType === 'wildcard' ? 'spam*' : 'word'}
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              maxLength={200}
+              className="w-56 font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Match</Label>
+            <Select value={matchType} onValueChange={(value) => setMatchType(value as FilterMatchType)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FILTER_MATCH_TYPE_LABELS) as FilterMatchType[]).map((value) => (
+                  <SelectItem key={value} value={value}>{FILTER_MATCH_TYPE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={ruleAction} onValueChange={(value) => setRuleAction(value as FilterAction)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FILTER_ACTION_LABELS) as FilterAction[]).map((value) => (
+                  <SelectItem key={value} value={value}>{FILTER_ACTION_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {ruleAction === 'mute' && (
+            <div className="space-y-2">
+              <Label htmlFor="filter-mute-minutes">Mute (minutes)</Label>
+              <Input
+                id="filter-mute-minutes"
+                type="number"
+                min={1}
+                value={muteMinutes}
+                onChange={(e) => setMuteMinutes(e.target.value)}
+                className="w-28"
+              />
+            </div>
+          )}
+          <Button onClick={createRule} disabled={isCreating || !pattern.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {isCreating ? 'Adding...' : 'Add Rule'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Rules are checked before a message is posted or edited. Matching ignores case.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">No rules yet.</p>
+        )}
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className={`border rounded-lg px-4 py-2 flex flex-wrap items-center gap-3 ${
+              matchedRuleIds.has(rule.id) ? 'border-amber-500/60 bg-amber-500/5' : 'border-border'
+            }`}
+          >
+            <Switch
+              checked={rule.is_enabled}
+              onCheckedChange={(checked) => updateRule(rule, { is_enabled: checked })}
+              disabled={savingRule === rule.id}
+              title={rule.is_enabled ? 'Disable rule' : 'Enable rule'}
+            />
+            <code className={`font-mono text-sm break-all ${rule.is_enabled ? '' : 'text-muted-foreground line-through'}`}>
+              {rule.pattern}
+            </code>
+            <Badge variant="outline" className="text-xs">{FILTER_MATCH_TYPE_LABELS[rule.match_type]}</Badge>
+            <Select
+              value={rule.action}
+              onValueChange={(value) => updateRule(rule, { rule_action: value })}
+              disabled={savingRule === rule.id}
+            >
+              <SelectTrigger className="h-8 w-44 ml-auto">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FILTER_ACTION_LABELS) as FilterAction[]).map((value) => (
+                  <SelectItem key={value} value={value}>{FILTER_ACTION_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {rule.action === 'mute' && (
+              <span className="text-xs text-muted-foreground">{rule.mute_minutes} min</span>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteRule(rule)}
+              title="Delete rule"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="border border-border rounded-lg p-4 space-y-3">
+        <Label htmlFor="filter-sample" className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          Test a message
+        </Label>
+        <Textarea
+          id="filter-sample"
+          placeholder="Type a message to see what the enabled rules would do"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          maxLength={500}
+          rows={2}
+        />
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={testSample} disabled={isTesting || !sample.trim()}>
+            {isTesting ? 'Testing...' : 'Test'}
+          </Button>
+          {testResult && (
+            <Badge variant={testResult.outcome === 'rejected' || testResult.outcome === 'muted' ? 'destructive' : 'secondary'}>
+              {OUTCOME_LABELS[testResult.outcome]}
+            </Badge>
+          )}
+        </div>
+        {testResult && (
+          <div className="space-y-1 text-sm">
+            {testResult.message !== null && (
+              <p className="font-mono break-words">
+                <span className="text-muted-foreground">Posted as:</span> {testResult.message}
+              </p>
+            )}
+            {testResult.hits.map((hit) => (
+              <p key={hit.rule_id} className="text-xs text-muted-foreground">
+                <code className="font-mono">{ruleById.get(hit.rule_id)?.pattern ?? 'rule'}</code>
+                {' '}({FILTER_ACTION_LABELS[hit.action]}) matched: {hit.matches.join(', ')}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-mono text-sm font-bold flex items-center gap-2">
+          <Flag className="h-4 w-4 text-amber-500" />
+          Flagged messages ({flags.length})
+        </h3>
+        {flags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been flagged.</p>
+        ) : (
+          <div className="border border-border rounded-lg divide-y divide-border max-h-80 overflow-y-auto">
+            {flags.map((flag) => (
+              <div key={flag.id} className="px-4 py-2 text-sm space-y-1">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>{flag.username || 'Unknown user'} · matched {flag.matched}</span>
+                  <span>{new Date(flag.created_at).toLocaleString()}</span>
+                </div>
+                <p className={`break-words ${flag.message?.deleted_at ? 'text-muted-foreground line-through' : ''}`}>
+                  {flag.message?.message ?? 'Message no longer exists'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
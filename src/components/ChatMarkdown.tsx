@@ -0,0 +1,96 @@
+import { useState, type ReactNode } from 'react';
+import { parseChatMarkdown, type ChatInline } from '@/lib/chat-markdown';
+import { cn } from '@/lib/utils';
+
+interface ChatMarkdownProps {
+  text: string;
+  renderMention?: (name: string) => ReactNode;
+}
+
+const defaultMention = (name: string) => <span className="font-semibold text-primary">@{name}</span>;
+
+// Links leave the site, so they always ask first
+const openLink = (event: React.MouseEvent<HTMLAnchorElement>, url: string) => {
+  event.preventDefault();
+  if (confirm(`Open this link in a new tab?\n\n${url}`)) {
+    window.open(url, '_blank', 'noopener,noreferrer');
+  }
+};
+
+const Spoiler = ({ children }: { children: ReactNode }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      onClick={() => setRevealed(true)}
+      onKeyDown={(e) => e.key === 'Enter' && setRevealed(true)}
+      title={revealed ? undefined : 'Show spoiler'}
+      className={cn(
+        "rounded px-0.5 transition-colors",
+        revealed ? "bg-primary/10" : "bg-muted-foreground text-transparent cursor-pointer select-none"
+      )}
+    >
+      {children}
+    </span>
+  );
+};
+
+// Renders a chat message's markdown subset as React elements; never as HTML
+export const ChatMarkdown = ({ text, renderMention = defaultMention }: ChatMarkdownProps) => {
+  const renderInline = (nodes: ChatInline[]): ReactNode[] =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <span key={index}>{node.text}</span>;
+        case 'bold':
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case 'italic':
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case 'spoiler':
+          return <Spoiler key={index}>{renderInline(node.children)}</Spoiler>;
+        case 'code':
+          return (
+            <code key={index} className="rounded bg-primary/10 px-1 py-0.5 font-mono text-[0.9em]">
+              {node.text}
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.url}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              onClick={(e) => openLink(e, node.url)}
+              className="text-primary underline underline-offset-2 break-all hover:text-primary/80"
+            >
+              {node.url}
+            </a>
+          );
+        case 'mention':
+          return <span key={index}>{renderMention(node.name)}</span>;
+        case 'break':
+          return <br key={index} />;
+      }
+    });
+
+  return (
+    <>
+      {parseChatMarkdown(text).map((block, index) =>
+        block.type === 'code_block' ? (
+          <pre
+            key={index}
+            className="my-1 max-h-64 overflow-auto rounded border border-primary/20 bg-primary/5 p-2 font-mono text-xs whitespace-pre"
+            title={block.language ?? undefined}
+          >
+            <code>{block.code}</code>
+          </pre>
+        ) : (
+          <span key={index}>{renderInline(block.children)}</span>
+        )
+      )}
+    </>
+  );
+};
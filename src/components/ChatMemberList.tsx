@@ -0,0 +1,56 @@
+import type { ReactNode } from 'react';
+import { formatLastSeen, type PresenceMember } from '@/lib/presence';
+import { cn } from '@/lib/utils';
+
+interface ChatMemberListProps {
+  members: PresenceMember[];
+  currentSessionId: string | undefined;
+  renderRoleBadge: (role: string) => ReactNode;
+  onSelect: (sessionId: string) => void;
+}
+
+// Who is connected right now, followed by everyone seen in the last day
+export const ChatMemberList = ({ members, currentSessionId, renderRoleBadge, onSelect }: ChatMemberListProps) => {
+  const online = members.filter(m => m.is_online);
+  const recent = members.filter(m => !m.is_online);
+
+  const renderMember = (member: PresenceMember) => {
+    const isSelf = member.session_id === currentSessionId;
+
+    return (
+      <button
+        key={member.session_id}
+        type="button"
+        onClick={() => onSelect(member.session_id)}
+        disabled={isSelf}
+        title={member.is_online ? 'Online now' : `Last seen ${formatLastSeen(member.last_seen_at)}`}
+        className={cn(
+          "w-full flex items-center gap-2 px-2 py-1.5 rounded text-left font-mono text-sm transition-colors",
+          isSelf ? "text-primary cursor-default" : "text-primary/70 hover:bg-primary/10 hover:text-primary",
+          !member.is_online && "opacity-60"
+        )}
+      >
+        <span className={cn("h-2 w-2 rounded-full shrink-0", member.is_online ? "bg-green-500" : "bg-primary/30")} />
+        <span className="truncate">{member.username || 'Anonymous'}</span>
+        {renderRoleBadge(member.role)}
+        {!member.is_online && (
+          <span className="ml-auto text-[10px] text-primary/50 shrink-0">{formatLastSeen(member.last_seen_at)}</span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-1 p-2">
+      <span className="px-2 py-1 text-xs font-mono uppercase text-primary/50">Online — {online.length}</span>
+      {online.map(renderMember)}
+
+      {recent.length > 0 && (
+        <>
+          <span className="px-2 pt-3 pb-1 text-xs font-mono uppercase text-primary/50">Recently seen</span>
+          {recent.map(renderMember)}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { MessagesSquare, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchChatPolicy, type ChatPolicy } from '@/lib/chat-messages';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+import { useToast } from '@/hooks/use-toast';
+
+type PolicyForm = Record<keyof ChatPolicy, string>;
+
+const POLICY_FIELDS: { key: keyof ChatPolicy; label: string; help: string }[] = [
+  { key: 'edit_window_minutes', label: 'Edit window (minutes)', help: 'How long people can edit a message after sending it.' },
+  { key: 'burst_limit', label: 'Burst limit (per 10s)', help: 'Most messages one person can send in 10 seconds.' },
+  { key: 'per_minute_limit', label: 'Messages per minute', help: 'Most messages one person can send in a minute.' },
+  { key: 'duplicate_window_seconds', label: 'Duplicate window (seconds)', help: 'How long the same message can\'t be repeated in a room.' },
+];
+
+// Site-wide chat rules
+export const ChatPolicyPanel = () => {
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchChatPolicy().then((policy) => setForm({
+      edit_window_minutes: String(policy.edit_window_minutes),
+      burst_limit: String(policy.burst_limit),
+      per_minute_limit: String(policy.per_minute_limit),
+      duplicate_window_seconds: String(policy.duplicate_window_seconds),
+    }));
+  }, []);
+
+  const savePolicy = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    try {
+      const response = await supabase.functions.invoke('admin-operations', {
+        body: {
+          action: 'set_chat_policy',
+          session_token: getSessionToken(),
+          edit_window_minutes: Number(form.edit_window_minutes),
+          burst_limit: Number(form.burst_limit),
+          per_minute_limit: Number(form.per_minute_limit),
+          duplicate_window_seconds: Number(form.duplicate_window_seconds)
+        }
+      });
+
+      if (response.error) {
+        throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+      }
+      toast({ title: "Chat settings updated" });
+    } catch (error) {
+      toast({
+        title: "Failed to update chat settings",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <MessagesSquare className="h-5 w-5 text-purple-500" />
+        <h2 className="font-mono font-bold">Chat Settings</h2>
+      </div>
+
+      <div className="border border-border rounded-lg p-4 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {POLICY_FIELDS.map(({ key, label, help }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`chat-policy-${key}`}>{label}</Label>
+              <Input
+                id={`chat-policy-${key}`}
+                type="number"
+                min={0}
+                value={form?.[key] ?? ''}
+                onChange={(e) => setForm(prev => prev && { ...prev, [key]: e.target.value })}
+                disabled={!form}
+                className="w-40"
+              />
+              <p className="text-xs text-muted-foreground">{help}</p>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            Use 0 to turn a setting off. Slow mode is set per room from the chat page.
+          </p>
+          <Button
+            onClick={savePolicy}
+            disabled={isSaving || !form || Object.values(form).some(value => value === '')}
+            className="gap-2 shrink-0"
+          >
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Hash, Shield, Lock, Archive, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  invokeChatRooms,
+  ROOM_VISIBILITY_LABELS,
+  type ChatRoom,
+  type ChatRoomVisibility,
+} from '@/lib/chat-rooms';
+import { cn } from '@/lib/utils';
+
+interface ChatRoomListProps {
+  rooms: ChatRoom[];
+  activeRoomId: string | null;
+  onSelect: (roomId: string) => void;
+  canManage: boolean;
+}
+
+const RoomIcon = ({ room }: { room: ChatRoom }) => {
+  if (room.archived_at) return <Archive className="h-3.5 w-3.5 shrink-0" />;
+  if (room.visibility === 'staff') return <Shield className="h-3.5 w-3.5 shrink-0" />;
+  if (room.visibility === 'invite') return <Lock className="h-3.5 w-3.5 shrink-0" />;
+  return <Hash className="h-3.5 w-3.5 shrink-0" />;
+};
+
+// Rooms the current user can read, with room creation for room managers
+export const ChatRoomList = ({ rooms, activeRoomId, onSelect, canManage }: ChatRoomListProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<ChatRoomVisibility>('public');
+  const { toast } = useToast();
+
+  const openRooms = rooms.filter(r => !r.archived_at);
+  const archivedRooms = rooms.filter(r => r.archived_at);
+
+  const createRoom = async () => {
+    setIsCreating(true);
+    try {
+      const data = await invokeChatRooms('create_room', { name: name.trim(), visibility });
+      setName('');
+      setShowCreate(false);
+      onSelect(data.room.id);
+    } catch (error) {
+      toast({
+        title: "Failed to create room",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const renderRoom = (room: ChatRoom) => (
+    <button
+      key={room.id}
+      type="button"
+      onClick={() => onSelect(room.id)}
+      title={room.description || room.name}
+      className={cn(
+        "w-full flex items-center gap-2 px-2 py-1.5 rounded text-left font-mono text-sm transition-colors",
+        room.id === activeRoomId
+          ? "bg-primary/20 text-primary"
+          : "text-primary/60 hover:bg-primary/10 hover:text-primary"
+      )}
+    >
+      <RoomIcon room={room} />
+      <span className="truncate">{room.name}</span>
+      {room.is_locked && !room.archived_at && <Lock className="h-3 w-3 ml-auto shrink-0 opacity-60" />}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-1 p-2">
+      <div className="flex items-center justify-between px-2 py-1">
+        <span className="text-xs font-mono uppercase text-primary/50">Rooms</span>
+        {canManage && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5 text-primary/60 hover:text-primary"
+            onClick={() => setShowCreate(!showCreate)}
+            title="Create room"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      {showCreate && (
+        <div className="space-y-2 p-2 border border-primary/30 rounded">
+          <Input
+            placeholder="Room name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={40}
+            className="h-8 font-mono text-sm bg-transparent border-primary/30"
+          />
+          <Select value={visibility} onValueChange={(value) => setVisibility(value as ChatRoomVisibility)}>
+            <SelectTrigger className="h-8 font-mono text-sm bg-transparent border-primary/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROOM_VISIBILITY_LABELS) as ChatRoomVisibility[]).map((value) => (
+                <SelectItem key={value} value={value}>{ROOM_VISIBILITY_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={createRoom}
+            disabled={isCreating || !name.trim()}
+            className="w-full bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
+          >
+            {isCreating ? 'Creating...' : 'Create'}
+          </Button>
+        </div>
+      )}
+
+      {openRooms.map(renderRoom)}
+
+      {archivedRooms.length > 0 && (
+        <>
+          <span className="px-2 pt-3 pb-1 text-xs font-mono uppercase text-primary/50">Archived</span>
+          {archivedRooms.map(renderRoom)}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Settings, Archive, ArchiveRestore, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { invokeChatRooms, formatSlowMode, SLOW_MODE_OPTIONS, type ChatRoom } from '@/lib/chat-rooms';
+
+interface RoomMember {
+  session_id: string;
+  username: string | null;
+  created_at: string;
+}
+
+// Room manager controls for the open room: lock, slow mode, archive and invite-only membership
+export const ChatRoomSettings = ({ room }: { room: ChatRoom }) => {
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [newMember, setNewMember] = useState('');
+  const { toast } = useToast();
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const data = await invokeChatRooms('list_members', { room_id: room.id });
+      setMembers(data.members || []);
+    } catch (error) {
+      console.error('Fetch room members error:', error);
+    }
+  }, [room.id]);
+
+  useEffect(() => {
+    if (open && room.visibility === 'invite') fetchMembers();
+  }, [open, room.visibility, fetchMembers]);
+
+  const run = async (action: string, params: Record<string, unknown>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await invokeChatRooms(action, { room_id: room.id, ...params });
+      return true;
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addMember = async () => {
+    if (await run('add_member', { username: newMember.trim() }, 'Failed to add member')) {
+      setNewMember('');
+      fetchMembers();
+    }
+  };
+
+  const removeMember = async (sessionId: string) => {
+    if (await run('remove_member', { target_session_id: sessionId }, 'Failed to remove member')) {
+      fetchMembers();
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7 text-primary/60 hover:text-primary" title="Room settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="room-locked">Locked (read-only)</Label>
+          <Switch
+            id="room-locked"
+            checked={room.is_locked}
+            onCheckedChange={(checked) => run('update_room', { is_locked: checked }, 'Failed to update room')}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Slow mode</Label>
+          <Select
+            value={String(room.slow_mode_seconds)}
+            onValueChange={(value) => run('update_room', { slow_mode_seconds: Number(value) }, 'Failed to update room')}
+            disabled={isSaving}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder={formatSlowMode(room.slow_mode_seconds)} />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOW_MODE_OPTIONS.map(({ seconds, label }) => (
+                <SelectItem key={seconds} value={String(seconds)}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Time each person waits between messages. Room managers are exempt.</p>
+        </div>
+
+        {!room.is_default && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full gap-2"
+            onClick={() => run('update_room', { archived: !room.archived_at }, 'Failed to update room')}
+            disabled={isSaving}
+          >
+            {room.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            {room.archived_at ? 'Restore Room' : 'Archive Room'}
+          </Button>
+        )}
+
+        {room.visibility === 'invite' && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            <Label>Members ({members.length})</Label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Username"
+                value={newMember}
+                onChange={(e) => setNewMember(e.target.value)}
+                className="h-8"
+              />
+              <Button size="icon" className="h-8 w-8 shrink-0" onClick={addMember} disabled={isSaving || !newMember.trim()} title="Add member">
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {members.map((member) => (
+                <li key={member.session_id} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{member.username || 'Unnamed user'}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeMember(member.session_id)}
+                    disabled={isSaving}
+                    title="Remove member"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
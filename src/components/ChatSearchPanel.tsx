@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { Search, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DELETED_FILTER_LABELS,
+  downloadFile,
+  invokeChatSearch,
+  toCsv,
+  type ChatSearchFilters,
+  type ChatSearchResult,
+  type DeletedFilter,
+} from '@/lib/chat-search';
+
+const EMPTY_FILTERS: ChatSearchFilters = { query: '', username: '', from: '', to: '', deleted: 'all' };
+
+// Date inputs give local days; the range covers the whole of both days
+const toRequest = (filters: ChatSearchFilters) => ({
+  query: filters.query.trim(),
+  username: filters.username.trim(),
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : '',
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : '',
+  deleted: filters.deleted,
+});
+
+// Full-text search over every chat message, with CSV and JSON export of the matches
+export const ChatSearchPanel = () => {
+  const [filters, setFilters] = useState<ChatSearchFilters>(EMPTY_FILTERS);
+  // The filters behind the results on screen, so paging and export match what is shown
+  const [searched, setSearched] = useState<ChatSearchFilters | null>(null);
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const setFilter = <K extends keyof ChatSearchFilters>(key: K, value: ChatSearchFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  const search = async (before: string | null = null) => {
+    const active = before ? searched : filters;
+    if (!active) return;
+
+    setIsSearching(true);
+    try {
+      const data = await invokeChatSearch('search', { ...toRequest(active), ...(before ? { before } : {}) });
+      setResults(current => before ? [...current, ...(data.messages || [])] : (data.messages || []));
+      setCursor(data.next_cursor ?? null);
+      setSearched(active);
+    } catch (error) {
+      toast({
+        title: "Search failed",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const exportResults = async (format: 'csv' | 'json') => {
+    if (!searched) return;
+
+    setIsExporting(true);
+    try {
+      const data = await invokeChatSearch('export', toRequest(searched));
+      const rows: ChatSearchResult[] = data.messages || [];
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      if (format === 'csv') {
+        downloadFile(`chat-export-${stamp}.csv`, toCsv(rows), 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(
+          `chat-export-${stamp}.json`,
+          JSON.stringify({ exported_at: new Date().toISOString(), filters: toRequest(searched), messages: rows }, null, 2),
+          'application/json'
+        );
+      }
+
+      toast({
+        title: "Export ready",
+        description: data.truncated
+          ? `Only the newest ${rows.length} matches were exported. Narrow the filters to get the rest.`
+          : `${rows.length} messages exported`
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Search className="h-5 w-5 text-primary" />
+        <h2 className="font-mono font-bold">Chat Search</h2>
+      </div>
+
+      <form
+        className="border border-border rounded-lg p-4 flex flex-wrap items-end gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          search();
+        }}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="search-query">Words</Label>
+          <Input
+            id="search-query"
+            placeholder='hello "exact phrase" -skip'
+            value={filters.query}
+            onChange={(e) => setFilter('query', e.target.value)}
+            maxLength={200}
+            className="w-56"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-username">User</Label>
+          <Input
+            id="search-username"
+            placeholder="Username"
+            value={filters.username}
+            onChange={(e) => setFilter('username', e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-from">From</Label>
+          <Input
+            id="search-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter('from', e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-to">To</Label>
+          <Input
+            id="search-to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter('to', e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select value={filters.deleted} onValueChange={(value) => setFilter('deleted', value as DeletedFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DELETED_FILTER_LABELS) as DeletedFilter[]).map((value) => (
+                <SelectItem key={value} value={value}>{DELETED_FILTER_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={isSearching} className="gap-2">
+          <Search className="h-4 w-4" />
+          {isSearching ? 'Searching...' : 'Search'}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setSearched(null);
+            setResults([]);
+            setCursor(null);
+          }}
+        >
+          Clear
+        </Button>
+      </form>
+
+      {searched && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {results.length}{cursor ? '+' : ''} matches
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto gap-2"
+              onClick={() => exportResults('csv')}
+              disabled={isExporting || results.length === 0}
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => exportResults('json')}
+              disabled={isExporting || results.length === 0}
+            >
+              <Download className="h-4 w-4" />
+              JSON
+            </Button>
+          </div>
+
+          <div className="border border-border rounded-lg divide-y divide-border max-h-96 overflow-y-auto">
+            {results.length === 0 && (
+              <p className="px-4 py-8 text-center text-sm text-muted-foreground">No messages match these filters.</p>
+            )}
+            {results.map((result) => (
+              <div key={result.id} className="px-4 py-2 text-sm space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{result.username || 'Unknown user'}</span>
+                  {result.room_name && <span>in {result.room_name}</span>}
+                  {result.deleted_at && (
+                    <Badge variant="destructive" className="text-xs">
+                      Deleted{result.deleted_by_username ? ` by ${result.deleted_by_username}` : ''}
+                    </Badge>
+                  )}
+                  {result.edited_at && <span>(edited)</span>}
+                  <span className="ml-auto">{new Date(result.created_at).toLocaleString()}</span>
+                </div>
+                <p className={`whitespace-pre-wrap break-words ${result.deleted_at ? 'text-muted-foreground' : ''}`}>
+                  {result.message || <span className="italic">No text</span>}
+                </p>
+              </div>
+            ))}
+            {cursor && (
+              <div className="px-4 py-3 text-center">
+                <Button variant="ghost" size="sm" onClick={() => search(cursor)} disabled={isSearching}>
+                  {isSearching ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { AtSign, Ban, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useDirectMessages } from '@/contexts/DirectMessagesContext';
+import { invokeDirectMessages } from '@/lib/direct-messages';
+import { cn } from '@/lib/utils';
+
+interface DirectMessageListProps {
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+}
+
+// The current user's DM threads, newest first, with a way to start a new one
+export const DirectMessageList = ({ activeThreadId, onSelect }: DirectMessageListProps) => {
+  const [showNew, setShowNew] = useState(false);
+  const [username, setUsername] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+  const { profileId, threads, refresh } = useDirectMessages();
+  const { toast } = useToast();
+
+  if (!profileId) return null;
+
+  const openThread = async () => {
+    setIsOpening(true);
+    try {
+      const data = await invokeDirectMessages('open_thread', { username: username.trim() });
+      setUsername('');
+      setShowNew(false);
+      await refresh();
+      onSelect(data.thread_id);
+    } catch (error) {
+      toast({
+        title: "Cannot start conversation",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 p-2 border-t border-primary/30">
+      <div className="flex items-center justify-between px-2 py-1">
+        <span className="text-xs font-mono uppercase text-primary/50">Direct Messages</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 text-primary/60 hover:text-primary"
+          onClick={() => setShowNew(!showNew)}
+          title="New message"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {showNew && (
+        <form
+          className="flex gap-1 px-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (username.trim()) openThread();
+          }}
+        >
+          <Input
+            placeholder="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="h-8 font-mono text-sm bg-transparent border-primary/30"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={isOpening || !username.trim()}
+            className="h-8 bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
+          >
+            Go
+          </Button>
+        </form>
+      )}
+
+      {threads.map((thread) => (
+        <button
+          key={thread.id}
+          type="button"
+          onClick={() => onSelect(thread.id)}
+          className={cn(
+            "w-full flex items-center gap-2 px-2 py-1.5 rounded text-left font-mono text-sm transition-colors",
+            thread.id === activeThreadId
+              ? "bg-primary/20 text-primary"
+              : "text-primary/60 hover:bg-primary/10 hover:text-primary",
+            thread.unread > 0 && "text-primary font-semibold"
+          )}
+        >
+          {thread.blocked ? <Ban className="h-3.5 w-3.5 shrink-0" /> : <AtSign className="h-3.5 w-3.5 shrink-0" />}
+          <span className="truncate">{thread.other_username || 'Unknown user'}</span>
+          {thread.unread > 0 && (
+            <span className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+              {thread.unread > 99 ? '99+' : thread.unread}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
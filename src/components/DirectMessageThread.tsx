@@ -0,0 +1,184 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Send, Ban, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useDirectMessages } from '@/contexts/DirectMessagesContext';
+import { invokeDirectMessages, type DmMessage } from '@/lib/direct-messages';
+
+// Applies fetched messages on top of what is shown, keeping chronological order
+const mergeMessages = (current: DmMessage[], incoming: DmMessage[]) => {
+  const byId = new Map(current.map(m => [m.id, m]));
+  incoming.forEach(m => byId.set(m.id, m));
+  return Array.from(byId.values()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// One open DM conversation; replaces the room feed on the chat page
+export const DirectMessageThread = ({ threadId }: { threadId: string }) => {
+  const [messages, setMessages] = useState<DmMessage[]>([]);
+  const [newMessage, setNewMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isBlocking, setIsBlocking] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const { profileId, threads, refresh, onInboxEvent } = useDirectMessages();
+  const { toast } = useToast();
+
+  const thread = threads.find(t => t.id === threadId) ?? null;
+  const otherName = thread?.other_username || 'Unknown user';
+
+  const markRead = useCallback(() => {
+    invokeDirectMessages('mark_read', { thread_id: threadId })
+      .catch((error) => console.error('Mark read error:', error));
+  }, [threadId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setMessages([]);
+    invokeDirectMessages('list_messages', { thread_id: threadId })
+      .then((data) => {
+        if (cancelled) return;
+        setMessages(data.messages || []);
+        markRead();
+      })
+      .catch((error) => console.error('Fetch direct messages error:', error));
+
+    const unsubscribe = onInboxEvent(async ({ thread_id, message_id }) => {
+      if (thread_id !== threadId || !message_id) return;
+      try {
+        const data = await invokeDirectMessages('get_messages', { thread_id: threadId, message_ids: [message_id] });
+        const fetched: DmMessage[] = data.messages || [];
+        if (cancelled) return;
+        setMessages(prev => mergeMessages(prev, fetched));
+        // The thread is open, so anything that just arrived has been seen
+        if (fetched.some(m => m.sender_profile_id !== profileId)) markRead();
+      } catch (error) {
+        console.error('Fetch direct message error:', error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [threadId, profileId, onInboxEvent, markRead]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const sendMessage = async () => {
+    if (!newMessage.trim()) return;
+
+    setIsSending(true);
+    try {
+      const data = await invokeDirectMessages('send_message', { thread_id: threadId, message: newMessage.trim() });
+      setMessages(prev => mergeMessages(prev, [data.message]));
+      setNewMessage('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to send message',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggleBlock = async () => {
+    if (!thread) return;
+    if (!thread.blocked && !confirm(`Block ${otherName}? They won't be able to message you.`)) return;
+
+    setIsBlocking(true);
+    try {
+      const data = await invokeDirectMessages(thread.blocked ? 'unblock' : 'block', {
+        target_profile_id: thread.other_profile_id
+      });
+      await refresh();
+      toast({ title: data.message });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsBlocking(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="px-4 py-2 border-b border-primary/30 flex items-center justify-between font-mono text-sm">
+        <span className="text-primary truncate">@{otherName}</span>
+        {thread && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleBlock}
+            disabled={isBlocking}
+            className="h-7 gap-1 text-muted-foreground hover:text-destructive"
+          >
+            {thread.blocked ? <ShieldOff className="h-3.5 w-3.5" /> : <Ban className="h-3.5 w-3.5" />}
+            {thread.blocked ? 'Unblock' : 'Block'}
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1 p-4 bg-black/50">
+        <div className="space-y-1 font-mono text-sm">
+          {messages.length === 0 && (
+            <p className="text-primary/50 py-1">No messages yet. Say hi to {otherName}.</p>
+          )}
+          {messages.map((msg) => {
+            const isOwn = msg.sender_profile_id === profileId;
+            return (
+              <div key={msg.id} className="py-1 px-2 -mx-2 rounded hover:bg-primary/5">
+                <span className="text-muted-foreground">[{formatTime(msg.created_at)}]</span>{' '}
+                <span className={isOwn ? "font-semibold text-primary" : "font-semibold text-amber-400"}>
+                  {isOwn ? 'You' : otherName}
+                </span>
+                <span className="text-muted-foreground">:</span>{' '}
+                <span className="text-foreground break-words">{msg.message}</span>
+              </div>
+            );
+          })}
+          <div ref={endRef} />
+        </div>
+      </ScrollArea>
+
+      <div className="p-4 border-t border-primary/30 shrink-0 bg-black/50">
+        <div className="flex gap-2 items-center font-mono">
+          <span className="text-primary shrink-0">&gt;_</span>
+          <Input
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                sendMessage();
+              }
+            }}
+            placeholder={thread?.blocked ? 'You blocked this user' : `Message @${otherName}...`}
+            className="flex-1 bg-transparent border-primary/30 text-foreground placeholder:text-muted-foreground font-mono focus-visible:ring-primary/50"
+            maxLength={500}
+            disabled={thread?.blocked}
+          />
+          <Button
+            onClick={sendMessage}
+            disabled={isSending || !newMessage.trim() || thread?.blocked}
+            size="icon"
+            className="bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+};
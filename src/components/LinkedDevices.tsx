@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Smartphone, Link2, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface LinkedDevice {
+  id: string;
+  label: string | null;
+  device_hint: string;
+  is_current: boolean;
+  last_active_at: string;
+  created_at: string;
+}
+
+interface PairingCode {
+  code: string;
+  expires_at: string;
+}
+
+// Devices linked to the current identity, with pairing and per-device sign out
+export const LinkedDevices = () => {
+  const [devices, setDevices] = useState<LinkedDevice[]>([]);
+  const [pairing, setPairing] = useState<PairingCode | null>(null);
+  const [pairingSecondsLeft, setPairingSecondsLeft] = useState(0);
+  const [isCreatingCode, setIsCreatingCode] = useState(false);
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const invokeDevices = useCallback(async (action: string, params: Record<string, unknown> = {}) => {
+    const response = await supabase.functions.invoke('manage-devices', {
+      body: { action, session_token: getSessionToken(), ...params }
+    });
+
+    if (response.error) {
+      throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+    }
+    return response.data;
+  }, []);
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const data = await invokeDevices('list_devices');
+      setDevices(data.devices || []);
+    } catch (error) {
+      console.error('Fetch devices error:', error);
+    }
+  }, [invokeDevices]);
+
+  useEffect(() => {
+    fetchDevices();
+  }, [fetchDevices]);
+
+  // Count down the pairing code and refresh the list once it is used or expires
+  useEffect(() => {
+    if (!pairing) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((new Date(pairing.expires_at).getTime() - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setPairing(null);
+        fetchDevices();
+      } else {
+        setPairingSecondsLeft(remaining);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    const poll = setInterval(fetchDevices, 5000);
+    return () => {
+      clearInterval(interval);
+      clearInterval(poll);
+    };
+  }, [pairing, fetchDevices]);
+
+  const createPairingCode = async () => {
+    setIsCreatingCode(true);
+    try {
+      const data = await invokeDevices('create_pairing_code');
+      setPairing({ code: data.code, expires_at: data.expires_at });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create pairing code',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsCreatingCode(false);
+    }
+  };
+
+  const signOutDevice = async (device: LinkedDevice) => {
+    try {
+      await invokeDevices('remove_device', { target_link_id: device.id });
+
+      if (device.is_current) {
+        await logout();
+        navigate('/login');
+        return;
+      }
+
+      toast({ title: 'Device signed out', description: device.label || device.device_hint });
+      fetchDevices();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out device',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const formatPairingTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Smartphone className="h-5 w-5 text-primary" />
+        <h2 className="font-mono font-bold">Linked Devices</h2>
+      </div>
+
+      <div className="rounded-lg border border-border divide-y divide-border">
+        {devices.map((device) => (
+          <div
+            key={device.id}
+            className={cn("flex items-center justify-between p-4", device.is_current && "bg-primary/5")}
+          >
+            <div>
+              <p className="font-medium">
+                {device.label || 'Unknown device'}
+                {device.is_current && <span className="ml-2 text-xs text-primary">(This device)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground font-mono">
+                {device.device_hint}... · Last active {new Date(device.last_active_at).toLocaleString()}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => signOutDevice(device)}
+              className="gap-2 text-destructive hover:text-destructive"
+            >
+              <LogOut className="h-4 w-4" />
+              Sign out
+            </Button>
+          </div>
+        ))}
+        {devices.length === 0 && (
+          <p className="p-4 text-sm text-muted-foreground text-center">No linked devices</p>
+        )}
+      </div>
+
+      {pairing ? (
+        <div className="p-4 rounded-lg border border-primary/30 bg-primary/5 text-center space-y-2">
+          <p className="text-sm text-muted-foreground">
+            On your other device choose "Link this device" on the login screen and enter:
+          </p>
+          <p className="text-3xl font-mono font-bold tracking-widest text-primary">{pairing.code}</p>
+          <p className="text-xs text-muted-foreground">
+            Expires in {formatPairingTime(pairingSecondsLeft)} · works once
+          </p>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={createPairingCode}
+          disabled={isCreatingCode}
+          className="w-full gap-2"
+        >
+          <Link2 className="h-4 w-4" />
+          {isCreatingCode ? 'Generating...' : 'Link Another Device'}
+        </Button>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Flag, RefreshCw, Check, Trash2, VolumeX, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { MUTE_DURATIONS } from '@/lib/chat-mutes';
+import {
+  REPORT_REASON_LABELS,
+  invokeChatReports,
+  type ReportGroup,
+  type ReportResolution,
+} from '@/lib/chat-reports';
+
+interface ModerationQueuePanelProps {
+  canDelete: boolean;
+  canBan: boolean;
+}
+
+const RESOLUTION_LABELS: Record<ReportResolution, string> = {
+  dismiss: 'Reports dismissed',
+  delete: 'Message deleted',
+  mute: 'User muted',
+  ban: 'User banned',
+};
+
+// Open chat reports, one card per reported message, with the actions a moderator can take
+export const ModerationQueuePanel = ({ canDelete, canBan }: ModerationQueuePanelProps) => {
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [muteMinutes, setMuteMinutes] = useState(String(MUTE_DURATIONS[1].minutes));
+  const { toast } = useToast();
+
+  const fetchReports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await invokeChatReports('list_reports');
+      setGroups(data.groups || []);
+    } catch (error) {
+      toast({
+        title: "Error fetching reports",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const groupKey = (group: ReportGroup) => group.message_id ?? group.report_ids[0];
+
+  const resolve = async (group: ReportGroup, resolution: ReportResolution) => {
+    const name = group.reported_username || 'this user';
+    if (resolution === 'ban' && !confirm(`Ban ${name} and every device linked to them?`)) return;
+
+    setResolving(groupKey(group));
+    try {
+      await invokeChatReports('resolve', {
+        ...(group.message_id ? { message_id: group.message_id } : { report_id: group.report_ids[0] }),
+        resolution,
+        ...(resolution === 'mute' ? { duration_minutes: Number(muteMinutes) } : {})
+      });
+      toast({ title: RESOLUTION_LABELS[resolution], description: `${group.reports.length} report(s) closed` });
+      fetchReports();
+    } catch (error) {
+      toast({
+        title: "Failed to resolve reports",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Flag className="h-5 w-5 text-amber-500" />
+        <h2 className="font-mono font-bold">Reported Messages ({groups.length})</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={fetchReports}
+          disabled={isLoading}
+          title="Refresh"
+          className="h-8 w-8 ml-auto"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No open reports.</p>
+      ) : (
+        <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+          {groups.map((group) => {
+            const key = groupKey(group);
+            const edited = group.current_message !== null && group.current_message !== group.message_snapshot;
+
+            return (
+              <div key={key} className="border border-border rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-mono text-sm text-foreground">{group.reported_username || 'Unknown user'}</span>
+                  {group.user_open_reports > group.reports.length && (
+                    <Badge variant="destructive" className="text-xs">
+                      {group.user_open_reports} open reports on this user
+                    </Badge>
+                  )}
+                  {group.room_name && <span>in #{group.room_name}</span>}
+                  <span className="ml-auto">{new Date(group.first_reported_at).toLocaleString()}</span>
+                </div>
+
+                <p className={`text-sm break-words ${group.message_deleted ? 'text-muted-foreground line-through' : ''}`}>
+                  {group.message_snapshot}
+                </p>
+                {group.message_deleted && (
+                  <p className="text-xs text-muted-foreground">This message has already been deleted.</p>
+                )}
+                {edited && (
+                  <p className="text-xs text-muted-foreground break-words">
+                    Edited since the first report: {group.current_message}
+                  </p>
+                )}
+
+                <div className="space-y-1">
+                  {group.reports.map((report) => (
+                    <div key={report.id} className="text-xs flex flex-wrap gap-x-2">
+                      <Badge variant="outline" className="text-xs">{REPORT_REASON_LABELS[report.reason]}</Badge>
+                      <span className="text-muted-foreground">by {report.reporter_username || 'Unknown user'}</span>
+                      {report.details && <span className="break-words">“{report.details}”</span>}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => resolve(group, 'dismiss')}
+                    disabled={resolving === key}
+                  >
+                    <Check className="h-3 w-3" />
+                    Dismiss
+                  </Button>
+                  {canDelete && !group.message_deleted && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => resolve(group, 'delete')}
+                      disabled={resolving === key}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      Delete Message
+                    </Button>
+                  )}
+                  {group.reported_session_id && (
+                    <div className="flex items-center gap-1">
+                      <Select value={muteMinutes} onValueChange={setMuteMinutes}>
+                        <SelectTrigger className="h-8 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MUTE_DURATIONS.map(({ minutes, label }) => (
+                            <SelectItem key={minutes} value={String(minutes)}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => resolve(group, 'mute')}
+                        disabled={resolving === key}
+                      >
+                        <VolumeX className="h-3 w-3" />
+                        Mute
+                      </Button>
+                    </div>
+                  )}
+                  {canBan && group.reported_session_id && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => resolve(group, 'ban')}
+                      disabled={resolving === key}
+                    >
+                      <Ban className="h-3 w-3" />
+                      Ban
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
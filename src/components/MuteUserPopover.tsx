@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { VolumeX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+import { MUTE_DURATIONS } from '@/lib/chat-mutes';
+import { useToast } from '@/hooks/use-toast';
+
+interface MuteUserPopoverProps {
+  sessionId: string;
+  username: string;
+}
+
+// Moderator action on a chat message: pick a reason and a duration to mute its author
+export const MuteUserPopover = ({ sessionId, username }: MuteUserPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isMuting, setIsMuting] = useState(false);
+  const { toast } = useToast();
+
+  const mute = async (minutes: number, label: string) => {
+    setIsMuting(true);
+    try {
+      const response = await supabase.functions.invoke('admin-operations', {
+        body: {
+          action: 'mute_session',
+          session_token: getSessionToken(),
+          target_session_id: sessionId,
+          duration_minutes: minutes,
+          reason: reason.trim()
+        }
+      });
+
+      if (response.error) {
+        throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+      }
+      toast({ title: "User muted", description: `${username} is muted for ${label}` });
+      setReason('');
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Failed to mute user",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsMuting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 text-muted-foreground hover:text-destructive"
+          title="Mute in chat"
+        >
+          <VolumeX className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-2">
+        <p className="text-sm font-medium truncate">Mute {username}</p>
+        <Input
+          placeholder="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={200}
+          className="h-8"
+        />
+        <div className="grid grid-cols-2 gap-1">
+          {MUTE_DURATIONS.map(({ minutes, label }) => (
+            <Button
+              key={minutes}
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => mute(minutes, label)}
+              disabled={isMuting || !reason.trim()}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
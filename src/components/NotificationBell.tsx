@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, AtSign, Megaphone, Users, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useNotifications } from '@/contexts/NotificationsContext';
+import { formatLastSeen } from '@/lib/presence';
+import type { AppNotification, NotificationType } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  mention: AtSign,
+  announcement: Megaphone,
+  waiting_list: Users,
+};
+
+// Sidebar bell with the unread count, opening the latest notifications
+export const NotificationBell = () => {
+  const { notifications, unreadCount, hasOlder, loadOlder, markRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const navigate = useNavigate();
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const showOlder = async () => {
+    setIsLoadingOlder(true);
+    await loadOlder();
+    setIsLoadingOlder(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8 hover:bg-secondary"
+          title={unreadCount > 0 ? `${unreadCount} unread notification${unreadCount === 1 ? '' : 's'}` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-mono flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+          <span className="font-mono text-sm font-bold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => markRead()}
+            disabled={unreadCount === 0}
+          >
+            <CheckCheck className="h-3 w-3" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto divide-y divide-border">
+          {notifications.length === 0 && (
+            <p className="px-3 py-8 text-center text-sm text-muted-foreground">You're all caught up.</p>
+          )}
+          {notifications.map((notification) => {
+            const Icon = TYPE_ICONS[notification.type] ?? Bell;
+            return (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  "w-full text-left px-3 py-2 flex gap-2 hover:bg-secondary/50 transition-colors",
+                  !notification.read_at && "bg-primary/5"
+                )}
+              >
+                <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", notification.read_at ? "text-muted-foreground" : "text-primary")} />
+                <span className="min-w-0 flex-1 space-y-0.5">
+                  <span className={cn("block text-sm truncate", !notification.read_at && "font-medium")}>
+                    {notification.title}
+                  </span>
+                  {notification.body && (
+                    <span className="block text-xs text-muted-foreground line-clamp-2 break-words">{notification.body}</span>
+                  )}
+                  <span className="block text-[10px] text-muted-foreground font-mono">{formatLastSeen(notification.created_at)}</span>
+                </span>
+                {!notification.read_at && <span className="h-2 w-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+              </button>
+            );
+          })}
+          {hasOlder && (
+            <div className="px-3 py-2 text-center">
+              <Button variant="ghost" size="sm" onClick={showOlder} disabled={isLoadingOlder}>
+                {isLoadingOlder ? 'Loading...' : 'Show older'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
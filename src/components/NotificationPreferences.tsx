@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { Bell } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { NOTIFICATION_TYPE_LABELS, invokeNotifications, type NotificationType } from '@/lib/notifications';
+
+// Per-type switches; turning a type off stops new notifications of it from being written
+export const NotificationPreferences = () => {
+  const [optOuts, setOptOuts] = useState<NotificationType[]>([]);
+  const [savingType, setSavingType] = useState<NotificationType | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    invokeNotifications('get_preferences')
+      .then(data => setOptOuts(data.opt_outs || []))
+      .catch(error => console.error('Fetch notification preferences error:', error));
+  }, []);
+
+  const setEnabled = async (type: NotificationType, enabled: boolean) => {
+    setSavingType(type);
+    try {
+      await invokeNotifications('set_preference', { type, enabled });
+      setOptOuts(current => enabled ? current.filter(t => t !== type) : [...current, type]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save preference',
+        variant: 'destructive'
+      });
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Bell className="h-5 w-5 text-primary" />
+        <h2 className="font-mono font-bold">Notifications</h2>
+      </div>
+      <div className="p-4 rounded-lg border border-border bg-card space-y-4">
+        {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map((type) => (
+          <div key={type} className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor={`notify-${type}`}>{NOTIFICATION_TYPE_LABELS[type].label}</Label>
+              <p className="text-xs text-muted-foreground">{NOTIFICATION_TYPE_LABELS[type].description}</p>
+            </div>
+            <Switch
+              id={`notify-${type}`}
+              checked={!optOuts.includes(type)}
+              onCheckedChange={(checked) => setEnabled(type, checked)}
+              disabled={savingType === type}
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Flag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASON_LABELS,
+  invokeChatReports,
+  type ReportReason,
+} from '@/lib/chat-reports';
+
+interface ReportMessageDialogProps {
+  messageId: string;
+  username: string;
+}
+
+// Lets anyone flag someone else's chat message for the moderation queue
+export const ReportMessageDialog = ({ messageId, username }: ReportMessageDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
+
+  const submit = async () => {
+    if (!reason) return;
+
+    setIsSending(true);
+    try {
+      const data = await invokeChatReports('report_message', {
+        message_id: messageId,
+        reason,
+        details: details.trim() || null
+      });
+      toast({ title: "Report sent", description: data.message });
+      setReason('');
+      setDetails('');
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Failed to send report",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 text-muted-foreground hover:text-amber-500"
+          title="Report"
+        >
+          <Flag className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Report message from {username}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((value) => (
+                  <SelectItem key={value} value={value}>{REPORT_REASON_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              placeholder="Anything a moderator should know"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submit} disabled={isSending || !reason}>
+              {isSending ? 'Sending...' : 'Send Report'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
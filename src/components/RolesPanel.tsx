@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { PERMISSION_LABELS, PERMISSIONS, type Permission } from '@/lib/permissions';
+import { getSessionToken } from '@/lib/session';
+import { useToast } from '@/hooks/use-toast';
+
+interface Role {
+  name: string;
+  label: string;
+  rank: number;
+  is_system: boolean;
+  permissions: Permission[];
+  editable: boolean;
+}
+
+interface RolesPanelProps {
+  // Called after any change so the parent can refresh its role list
+  onChange?: () => void;
+}
+
+// Custom roles and the permissions granted to each role
+export const RolesPanel = ({ onChange }: RolesPanelProps) => {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [availablePermissions, setAvailablePermissions] = useState<Permission[]>([]);
+  const [maxRank, setMaxRank] = useState(0);
+  const [newName, setNewName] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [newRank, setNewRank] = useState('10');
+  const [newPermissions, setNewPermissions] = useState<Permission[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const invokeRoleAction = useCallback(async (action: string, params: Record<string, unknown> = {}) => {
+    const response = await supabase.functions.invoke('manage-roles', {
+      body: { action, session_token: getSessionToken(), ...params }
+    });
+
+    if (response.error) {
+      throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+    }
+    return response.data;
+  }, []);
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      const data = await invokeRoleAction('list_roles');
+      setRoles(data.roles || []);
+      setAvailablePermissions(data.available_permissions || []);
+      setMaxRank(data.max_rank || 0);
+    } catch (error) {
+      toast({
+        title: "Error fetching roles",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  }, [invokeRoleAction, toast]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const refresh = () => {
+    fetchRoles();
+    onChange?.();
+  };
+
+  const toggle = (list: Permission[], permission: Permission, granted: boolean) =>
+    granted ? [...list, permission] : list.filter(p => p !== permission);
+
+  const createRole = async () => {
+    setIsCreating(true);
+    try {
+      await invokeRoleAction('create_role', {
+        role_name: newName.trim(),
+        label: newLabel.trim(),
+        rank: Number(newRank),
+        permissions: newPermissions
+      });
+      toast({ title: "Role created", description: newLabel.trim() });
+      setNewName('');
+      setNewLabel('');
+      setNewPermissions([]);
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Failed to create role",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const setRolePermission = async (role: Role, permission: Permission, granted: boolean) => {
+    setSavingRole(role.name);
+    try {
+      await invokeRoleAction('update_role', {
+        role_name: role.name,
+        permissions: toggle(role.permissions, permission, granted)
+      });
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Failed to update role",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const deleteRole = async (role: Role) => {
+    if (!confirm(`Delete the ${role.label} role? Its members become users.`)) return;
+
+    try {
+      const data = await invokeRoleAction('delete_role', { role_name: role.name });
+      toast({ title: "Role deleted", description: `${data.reassigned} member(s) moved to User` });
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Failed to delete role",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-purple-500" />
+        <h2 className="font-mono font-bold">Roles ({roles.length})</h2>
+      </div>
+
+      <div className="border border-border rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="role-name">Name</Label>
+            <Input
+              id="role-name"
+              placeholder="moderator"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value.toLowerCase())}
+              className="w-40"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="role-label">Label</Label>
+            <Input
+              id="role-label"
+              placeholder="Moderator"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="role-rank">Rank (1-{maxRank})</Label>
+            <Input
+              id="role-rank"
+              type="number"
+              min={1}
+              max={maxRank}
+              value={newRank}
+              onChange={(e) => setNewRank(e.target.value)}
+              className="w-28"
+            />
+          </div>
+          <Button onClick={createRole} disabled={isCreating || !newName.trim() || !newLabel.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {isCreating ? 'Creating...' : 'Create Role'}
+          </Button>
+        </div>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {availablePermissions.map((permission) => (
+            <label key={permission} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={newPermissions.includes(permission)}
+                onCheckedChange={(checked) => setNewPermissions(list => toggle(list, permission, checked === true))}
+              />
+              {PERMISSION_LABELS[permission]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {roles.map((role) => (
+          <div key={role.name} className="border border-border rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <span className="font-medium">{role.label}</span>
+                <span className="ml-2 text-xs font-mono text-muted-foreground">
+                  {role.name} · rank {role.rank}{role.is_system && ' · built-in'}
+                </span>
+              </div>
+              {role.editable && !role.is_system && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteRole(role)}
+                  title="Delete role"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {PERMISSIONS.map((permission) => (
+                <label key={permission} className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Checkbox
+                    checked={role.permissions.includes(permission)}
+                    onCheckedChange={(checked) => setRolePermission(role, permission, checked === true)}
+                    disabled={!role.editable || !availablePermissions.includes(permission) || savingRole === role.name}
+                  />
+                  {PERMISSION_LABELS[permission]}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Timer, Save, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+import { useToast } from '@/hooks/use-toast';
+import type { RoleSummary } from '@/lib/permissions';
+
+interface SessionPolicy {
+  absolute_hours: number;
+  idle_hours: number;
+}
+
+interface SessionPolicyPanelProps {
+  // Roles the caller may sign out in bulk
+  roles: RoleSummary[];
+}
+
+// Session lifetimes and bulk sign out by role
+export const SessionPolicyPanel = ({ roles }: SessionPolicyPanelProps) => {
+  const [absoluteHours, setAbsoluteHours] = useState('');
+  const [idleHours, setIdleHours] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [expireRole, setExpireRole] = useState('user');
+  const [isExpiring, setIsExpiring] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPolicy = useCallback(async () => {
+    const { data } = await supabase
+      .from('site_settings')
+      .select('value')
+      .eq('key', 'session_policy')
+      .maybeSingle();
+
+    if (data?.value && typeof data.value === 'object' && !Array.isArray(data.value)) {
+      const value = data.value as Partial<SessionPolicy>;
+      setAbsoluteHours(String(value.absolute_hours ?? 0));
+      setIdleHours(String(value.idle_hours ?? 0));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  const invokeAdminAction = async (action: string, params: Record<string, unknown>) => {
+    const response = await supabase.functions.invoke('admin-operations', {
+      body: { action, session_token: getSessionToken(), ...params }
+    });
+
+    if (response.error) {
+      throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+    }
+    return response.data;
+  };
+
+  const savePolicy = async () => {
+    setIsSaving(true);
+    try {
+      await invokeAdminAction('set_session_policy', {
+        absolute_hours: Number(absoluteHours),
+        idle_hours: Number(idleHours)
+      });
+      toast({ title: "Session lifetimes updated" });
+    } catch (error) {
+      toast({
+        title: "Failed to update session lifetimes",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const expireRoleSessions = async () => {
+    const role = roles.find(r => r.name === expireRole);
+    if (!role || !confirm(`Sign out everyone with the ${role.label} role on every device?`)) return;
+
+    setIsExpiring(true);
+    try {
+      const data = await invokeAdminAction('expire_role_sessions', { target_role: role.name });
+      toast({ title: "Sessions expired", description: data.message });
+    } catch (error) {
+      toast({
+        title: "Failed to expire sessions",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    } finally {
+      setIsExpiring(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Timer className="h-5 w-5 text-purple-500" />
+        <h2 className="font-mono font-bold">Session Lifetimes</h2>
+      </div>
+
+      <div className="border border-border rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="absolute-hours">Sign out after (hours)</Label>
+            <Input
+              id="absolute-hours"
+              type="number"
+              min={0}
+              value={absoluteHours}
+              onChange={(e) => setAbsoluteHours(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="idle-hours">Sign out when idle for (hours)</Label>
+            <Input
+              id="idle-hours"
+              type="number"
+              min={0}
+              value={idleHours}
+              onChange={(e) => setIdleHours(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <Button onClick={savePolicy} disabled={isSaving || absoluteHours === '' || idleHours === ''} className="gap-2">
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Use 0 to turn a limit off. Changes apply to existing sign-ins within a minute.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3 pt-4 border-t border-border">
+          <div className="space-y-2">
+            <Label>Sign out everyone with role</Label>
+            <Select value={expireRole} onValueChange={setExpireRole}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={expireRoleSessions}
+            disabled={isExpiring}
+            className="gap-2 text-destructive hover:text-destructive"
+          >
+            <LogOut className="h-4 w-4" />
+            {isExpiring ? 'Signing out...' : 'Sign Out'}
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+};
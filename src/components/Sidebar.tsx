@@ -17,7 +17,9 @@ import {
 import { cn } from '@/lib/utils';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useDirectMessages } from '@/contexts/DirectMessagesContext';
 import { Clock } from './Clock';
+import { NotificationBell } from './NotificationBell';
 import { Button } from './ui/button';
 import { useState } from 'react';
 
@@ -34,14 +36,16 @@ const navItems = [
 export const Sidebar = () => {
   const location = useLocation();
   const { settings, triggerPanic } = useSettings();
-  const { isAdmin, isOwner } = useAuth();
+  const { can } = useAuth();
+  const { unreadTotal } = useDirectMessages();
   const [collapsed, setCollapsed] = useState(false);
 
-  const allNavItems = isAdmin 
-    ? isOwner
-      ? [...navItems.slice(0, 2), { path: '/admin', icon: Crown, label: 'Admin' }, { path: '/waiting-list', icon: Users, label: 'Waiting List' }, { path: '/agent', icon: Bot, label: 'Agent' }, ...navItems.slice(2)]
-      : [...navItems.slice(0, 2), { path: '/admin', icon: Crown, label: 'Admin' }, ...navItems.slice(2)]
-    : navItems;
+  const staffNavItems = [
+    ...(can('admin.access') ? [{ path: '/admin', icon: Crown, label: 'Admin' }] : []),
+    ...(can('waiting_list.manage') ? [{ path: '/waiting-list', icon: Users, label: 'Waiting List' }] : []),
+    ...(can('agent.use') ? [{ path: '/agent', icon: Bot, label: 'Agent' }] : []),
+  ];
+  const allNavItems = [...navItems.slice(0, 2), ...staffNavItems, ...navItems.slice(2)];
 
   return (
     <aside 
@@ -59,18 +63,21 @@ export const Sidebar = () => {
               UNSTABLE STEALTH
             </h1>
           )}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setCollapsed(!collapsed)}
-            className="h-8 w-8 hover:bg-secondary"
-          >
-            {collapsed ? (
-              settings.sidebarPosition === 'left' ? <ChevronRight className="h-4 w-4" /> : <ChevronLeft className="h-4 w-4" />
-            ) : (
-              settings.sidebarPosition === 'left' ? <ChevronLeft className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
-            )}
-          </Button>
+          <div className={cn("flex items-center gap-1", collapsed && "flex-col")}>
+            <NotificationBell />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCollapsed(!collapsed)}
+              className="h-8 w-8 hover:bg-secondary"
+            >
+              {collapsed ? (
+                settings.sidebarPosition === 'left' ? <ChevronRight className="h-4 w-4" /> : <ChevronLeft className="h-4 w-4" />
+              ) : (
+                settings.sidebarPosition === 'left' ? <ChevronLeft className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -79,6 +86,8 @@ export const Sidebar = () => {
         {allNavItems.map((item) => {
           const isActive = location.pathname === item.path || 
             (item.path === '/' && location.pathname === '/embedder');
+          // Unread direct messages show on the Chat entry
+          const badge = item.path === '/chat' ? unreadTotal : 0;
           return (
             <Link
               key={item.path}
@@ -89,12 +98,17 @@ export const Sidebar = () => {
                 isActive && "bg-primary/10 neon-glow border border-primary/30"
               )}
             >
-              <item.icon 
-                className={cn(
-                  "h-5 w-5 transition-colors",
-                  isActive ? "text-primary" : "text-muted-foreground group-hover:text-foreground"
-                )} 
-              />
+              <span className="relative">
+                <item.icon 
+                  className={cn(
+                    "h-5 w-5 transition-colors",
+                    isActive ? "text-primary" : "text-muted-foreground group-hover:text-foreground"
+                  )} 
+                />
+                {collapsed && badge > 0 && (
+                  <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-destructive" />
+                )}
+              </span>
               {!collapsed && (
                 <span className={cn(
                   "font-medium transition-colors",
@@ -103,6 +117,14 @@ export const Sidebar = () => {
                   {item.label}
                 </span>
               )}
+              {!collapsed && badge > 0 && (
+                <span
+                  className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-destructive text-destructive-foreground text-xs font-mono flex items-center justify-center"
+                  title={`${badge} unread direct message${badge === 1 ? '' : 's'}`}
+                >
+                  {badge > 99 ? '99+' : badge}
+                </span>
+              )}
             </Link>
           );
         })}
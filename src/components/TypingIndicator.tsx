@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface TypingUser {
   session_id: string;
+  room_id?: string | null;
   is_typing: boolean;
   updated_at: string;
 }
@@ -13,23 +14,42 @@ interface Profile {
   username: string;
 }
 
-export const TypingIndicator = () => {
+interface TypingIndicatorProps {
+  roomId: string;
+}
+
+export const TypingIndicator = ({ roomId }: TypingIndicatorProps) => {
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
   const [profiles, setProfiles] = useState<Record<string, string>>({});
   const { session } = useAuth();
 
+  const fetchTypingUsers = useCallback(async () => {
+    const fiveSecondsAgo = new Date(Date.now() - 5000).toISOString();
+    const { data } = await supabase
+      .from('typing_indicators')
+      .select('*')
+      .eq('is_typing', true)
+      .gte('updated_at', fiveSecondsAgo);
+
+    if (data) {
+      setTypingUsers((data as TypingUser[]).filter(u => u.room_id === roomId));
+    }
+  }, [roomId]);
+
   useEffect(() => {
+    setTypingUsers([]);
     fetchTypingUsers();
     fetchProfiles();
 
     const channel = supabase
-      .channel('typing-changes')
+      .channel(`typing-changes:${roomId}`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'typing_indicators'
+          table: 'typing_indicators',
+          filter: `room_id=eq.${roomId}`
         },
         () => {
           fetchTypingUsers();
@@ -53,20 +73,7 @@ export const TypingIndicator = () => {
       supabase.removeChannel(channel);
       clearInterval(interval);
     };
-  }, []);
-
-  const fetchTypingUsers = async () => {
-    const fiveSecondsAgo = new Date(Date.now() - 5000).toISOString();
-    const { data } = await supabase
-      .from('typing_indicators')
-      .select('*')
-      .eq('is_typing', true)
-      .gte('updated_at', fiveSecondsAgo);
-
-    if (data) {
-      setTypingUsers(data as TypingUser[]);
-    }
-  };
+  }, [roomId, fetchTypingUsers]);
 
   const fetchProfiles = async () => {
     const { data } = await supabase
@@ -1,28 +1,76 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  getDeviceId,
+  getDeviceLabel,
+  getSessionToken,
+  getSessionTokenExpiry,
+  setSessionToken,
+  clearSessionToken,
+  setAccessRequestToken,
+  clearAccessRequestToken,
+} from '@/lib/session';
+import { getInvokeErrorMessage, getInvokeStatus, readInvokeErrorBody } from '@/lib/functions';
+import { PERMISSIONS, type Permission } from '@/lib/permissions';
 
 interface Session {
   id: string;
   device_id: string;
-  role: 'user' | 'admin' | 'owner';
+  // Built-in roles are 'user', 'admin' and 'owner'; owners can add custom ones
+  role: string;
   is_banned: boolean;
   username?: string;
+  account_username?: string;
 }
 
+interface LoginResult {
+  success: boolean;
+  error?: string;
+  needsUsername?: boolean;
+  waiting?: boolean;
+  // This device needs approval; sign in again with AccessRequest details to ask for it
+  requestRequired?: boolean;
+  message?: string;
+  // Seconds until the server accepts another attempt after repeated failures
+  retryAfter?: number;
+}
+
+// Who is asking for access, sent with the sign in that creates a waiting list entry
+export interface AccessRequest {
+  name: string;
+  message: string;
+}
+
+interface LoginOptions {
+  request?: AccessRequest;
+  // Skips the waiting list and may raise the account's role
+  inviteCode?: string;
+}
+
+// 'unreachable' means the server couldn't be asked, not that it said no
+export type SessionSyncResult = 'ok' | 'revoked' | 'unreachable';
+
 interface AuthContextType {
   session: Session | null;
   isLoading: boolean;
   isLoggedIn: boolean;
   isAdmin: boolean;
   isOwner: boolean;
+  permissions: Permission[];
+  can: (permission: Permission) => boolean;
   isBanned: boolean;
   needsUsername: boolean;
   siteDisabled: boolean;
   isWaiting: boolean;
   waitingMessage: string;
-  login: (password: string) => Promise<{ success: boolean; error?: string; needsUsername?: boolean; waiting?: boolean }>;
+  login: (username: string, password: string, options?: LoginOptions) => Promise<LoginResult>;
+  register: (inviteCode: string, username: string, password: string) => Promise<LoginResult>;
+  pairDevice: (pairingCode: string) => Promise<LoginResult>;
   setUsername: (username: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
+  signOutEverywhere: () => Promise<{ success: boolean; error?: string }>;
+  refreshSession: () => Promise<boolean>;
+  syncSession: () => Promise<SessionSyncResult>;
   checkBanStatus: () => Promise<boolean>;
   checkSiteStatus: () => Promise<boolean>;
   checkWaitingStatus: () => Promise<{ waiting: boolean; message?: string }>;
@@ -30,15 +78,13 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Generate a unique device ID
-const getDeviceId = (): string => {
-  let deviceId = localStorage.getItem('deviceId');
-  if (!deviceId) {
-    deviceId = crypto.randomUUID();
-    localStorage.setItem('deviceId', deviceId);
-  }
-  return deviceId;
-};
+// Refresh the session token once it is within a day of expiring
+const TOKEN_REFRESH_WINDOW_MS = 24 * 60 * 60 * 1000;
+const TOKEN_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+// How often an open tab re-reads its role, ban state and site status from the server
+const SESSION_SYNC_INTERVAL_MS = 60 * 1000;
+// Must match AUTH_EVENTS_TOPIC in supabase/functions/_shared/realtime.ts
+const AUTH_EVENTS_CHANNEL = 'auth-events';
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [session, setSession] = useState<Session | null>(null);
@@ -47,6 +93,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [siteDisabled, setSiteDisabled] = useState(false);
   const [isWaiting, setIsWaiting] = useState(false);
   const [waitingMessage, setWaitingMessage] = useState('');
+  const [permissions, setPermissions] = useState<Permission[]>([]);
 
   const checkBanStatus = useCallback(async (): Promise<boolean> => {
     const deviceId = getDeviceId();
@@ -75,26 +122,105 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, []);
 
   const checkWaitingStatus = useCallback(async (): Promise<{ waiting: boolean; message?: string }> => {
-    const deviceId = getDeviceId();
-    
-    const { data: waitingData } = await supabase
-      .from('waiting_list')
-      .select('*')
-      .eq('device_id', deviceId)
-      .maybeSingle();
-    
-    if (waitingData) {
-      if (waitingData.status === 'pending') {
-        return { waiting: true, message: 'Your access request is pending approval' };
+    // The waiting list isn't readable with the anon key; access-request answers for this device only
+    const { data, error } = await supabase.functions.invoke('access-request', {
+      body: { action: 'status', device_id: getDeviceId() }
+    });
+    if (error) return { waiting: false };
+
+    if (data?.status === 'pending') {
+      return { waiting: true, message: 'Your access request is pending approval' };
+    }
+    if (data?.status === 'denied') {
+      return { waiting: true, message: 'Your access request was denied' };
+    }
+
+    return { waiting: false };
+  }, []);
+
+  const clearLocalSession = useCallback(() => {
+    localStorage.removeItem('session_data');
+    clearSessionToken();
+    setSession(null);
+    setNeedsUsername(false);
+    setPermissions([]);
+  }, []);
+
+  // Exchange the current session token for a fresh one.
+  // Returns false when the server no longer accepts the session.
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    const sessionToken = getSessionToken();
+    if (!sessionToken) return false;
+
+    try {
+      const response = await supabase.functions.invoke('refresh-session', {
+        body: { session_token: sessionToken }
+      });
+
+      if (response.error) {
+        const status = getInvokeStatus(response.error);
+        // Only drop the session when the server rejected it, not on network errors
+        return status !== 401 && status !== 403;
       }
-      if (waitingData.status === 'denied') {
-        return { waiting: true, message: 'Your access request was denied' };
+
+      if (response.data?.token) {
+        setSessionToken(response.data.token, response.data.expires_at);
       }
+      return true;
+    } catch (error) {
+      console.error('Session refresh error:', error);
+      return true;
     }
-    
-    return { waiting: false };
   }, []);
 
+  // Reconcile local auth state with the server's view of this session
+  const syncSession = useCallback(async (): Promise<SessionSyncResult> => {
+    const sessionToken = getSessionToken();
+    if (!sessionToken) return 'revoked';
+
+    try {
+      const response = await supabase.functions.invoke('whoami', {
+        body: { session_token: sessionToken }
+      });
+
+      if (response.error) {
+        const status = getInvokeStatus(response.error);
+        if (status !== 401 && status !== 403) return 'unreachable';
+
+        const body = await readInvokeErrorBody(response.error);
+        clearLocalSession();
+        if (body?.code === 'banned') {
+          setSession({ id: '', device_id: getDeviceId(), role: 'user', is_banned: true });
+        }
+        return 'revoked';
+      }
+
+      const data = response.data;
+      const serverSession: Session = {
+        id: data.session.id,
+        device_id: data.session.device_id,
+        role: data.session.role,
+        is_banned: false,
+        username: data.session.username,
+        account_username: data.session.account_username
+      };
+
+      setSession(serverSession);
+      localStorage.setItem('session_data', JSON.stringify(serverSession));
+      setNeedsUsername(!!data.needsUsername);
+      setSiteDisabled(!!data.site_disabled);
+      setPermissions(
+        Array.isArray(data.permissions)
+          ? PERMISSIONS.filter((permission) => data.permissions.includes(permission))
+          : []
+      );
+      return 'ok';
+    } catch (error) {
+      console.error('Session sync error:', error);
+      return 'unreachable';
+    }
+  }, [clearLocalSession]);
+
   // Check for existing session on mount
   useEffect(() => {
     const checkSession = async () => {
@@ -117,34 +243,41 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return;
       }
       
-      // Try to restore session from localStorage (stored after successful login)
+      // Restore the session from the server; localStorage only tells us there was one
       const storedSession = localStorage.getItem('session_data');
-      if (storedSession) {
+      const tokenExpiry = getSessionTokenExpiry();
+      if (!getSessionToken() || !tokenExpiry || tokenExpiry <= Date.now()) {
+        // Sessions without a valid signed token must log in again
+        if (storedSession) clearLocalSession();
+        setIsLoading(false);
+        return;
+      }
+
+      if (tokenExpiry - Date.now() < TOKEN_REFRESH_WINDOW_MS && !(await refreshSession())) {
+        clearLocalSession();
+        setIsLoading(false);
+        return;
+      }
+
+      if ((await syncSession()) === 'unreachable' && storedSession) {
+        // Offline: keep the user signed in, but never grant elevated UI the
+        // server hasn't confirmed. The periodic sync fixes it up once online.
         try {
           const parsed = JSON.parse(storedSession);
-          // Validate the stored session belongs to this device
           if (parsed.device_id === deviceId) {
             setSession({
               id: parsed.id,
               device_id: parsed.device_id,
-              role: parsed.role as 'user' | 'admin' | 'owner',
+              role: 'user',
               is_banned: false,
-              username: parsed.username
+              username: parsed.username,
+              account_username: parsed.account_username
             });
-            
-            if (!parsed.username) {
-              setNeedsUsername(true);
-            }
-            
-            // Check site status for non-owners
-            if (parsed.role !== 'owner') {
-              const isDisabled = await checkSiteStatus();
-              setSiteDisabled(isDisabled);
-            }
+            setNeedsUsername(!parsed.username);
           }
         } catch {
           // Invalid stored session, clear it
-          localStorage.removeItem('session_data');
+          clearLocalSession();
         }
       }
       
@@ -152,20 +285,71 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
     
     checkSession();
-  }, [checkBanStatus, checkSiteStatus, checkWaitingStatus]);
+  }, [checkBanStatus, checkWaitingStatus, clearLocalSession, refreshSession, syncSession]);
 
-  const login = async (password: string): Promise<{ success: boolean; error?: string; needsUsername?: boolean; waiting?: boolean }> => {
-    const deviceId = getDeviceId();
-    
+  // Pick up role changes, bans, deletions and site status while the tab stays open
+  useEffect(() => {
+    if (!session?.id) return;
+
+    const interval = setInterval(syncSession, SESSION_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [session?.id, syncSession]);
+
+  // Admin actions broadcast a poke so open tabs react immediately instead of
+  // waiting for the next interval. Pokes carry no state; whoami stays the source of truth.
+  useEffect(() => {
+    if (!session?.id) return;
+    const sessionId = session.id;
+
+    const channel = supabase
+      .channel(AUTH_EVENTS_CHANNEL)
+      .on('broadcast', { event: 'session_changed' }, ({ payload }) => {
+        const sessionIds: unknown = payload?.session_ids;
+        if (Array.isArray(sessionIds) && sessionIds.includes(sessionId)) {
+          syncSession();
+        }
+      })
+      .on('broadcast', { event: 'site_status' }, () => {
+        syncSession();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [session?.id, syncSession]);
+
+  // Keep long-lived tabs signed in by refreshing the token before it expires
+  useEffect(() => {
+    if (!session?.id) return;
+
+    const interval = setInterval(async () => {
+      const tokenExpiry = getSessionTokenExpiry();
+      if (!tokenExpiry || tokenExpiry - Date.now() >= TOKEN_REFRESH_WINDOW_MS) return;
+
+      if (!(await refreshSession())) {
+        clearLocalSession();
+      }
+    }, TOKEN_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [session?.id, refreshSession, clearLocalSession]);
+
+  // Shared by password login and device pairing, which answer with the same payload
+  const signIn = async (functionName: 'authenticate' | 'pair-device', credentials: Record<string, string>): Promise<LoginResult> => {
     try {
-      // Call server-side authentication (passwords verified server-side)
-      const response = await supabase.functions.invoke('authenticate', {
-        body: { password, device_id: deviceId }
+      const response = await supabase.functions.invoke(functionName, {
+        body: { ...credentials, device_id: getDeviceId(), device_label: getDeviceLabel() }
       });
 
       if (response.error) {
         console.error('Auth function error:', response.error);
-        return { success: false, error: 'Authentication failed. Please try again.' };
+        const body = await readInvokeErrorBody(response.error);
+        return {
+          success: false,
+          error: typeof body?.error === 'string' ? body.error : 'Authentication failed. Please try again.',
+          retryAfter: typeof body?.retry_after === 'number' ? body.retry_after : undefined
+        };
       }
 
       const data = response.data;
@@ -174,8 +358,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return { success: false, error: data.error };
       }
 
+      if (data.request_required) {
+        return { success: true, requestRequired: true, message: data.message };
+      }
+
       // Check if user is in waiting list
       if (data.waiting) {
+        if (data.request_token) setAccessRequestToken(data.request_token);
         setIsWaiting(true);
         setWaitingMessage(data.message || 'Your access request is pending approval');
         return { success: true, waiting: true };
@@ -184,17 +373,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const sessionData = {
         id: data.session.id,
         device_id: data.session.device_id,
-        role: data.session.role as 'user' | 'admin' | 'owner',
+        role: data.session.role,
         is_banned: data.session.is_banned,
-        username: data.session.username
+        username: data.session.username,
+        account_username: data.session.account_username
       };
       
       setSession(sessionData);
       setIsWaiting(false);
       setWaitingMessage('');
+      clearAccessRequestToken();
       
       // SECURITY: Store session data locally since sessions table is blocked from client reads
       localStorage.setItem('session_data', JSON.stringify(sessionData));
+      setSessionToken(data.token, data.expires_at);
+      // Permissions only come from whoami
+      syncSession();
 
       if (data.needsUsername) {
         setNeedsUsername(true);
@@ -208,17 +402,48 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Call server-side authentication (passwords verified server-side)
+  const login = (username: string, password: string, { request, inviteCode }: LoginOptions = {}) =>
+    signIn('authenticate', {
+      username,
+      password,
+      ...(request ? { request_name: request.name, request_message: request.message } : {}),
+      ...(inviteCode?.trim() ? { invite_code: inviteCode.trim() } : {})
+    });
+
+  // Link this device to an existing identity with a code generated on another device
+  const pairDevice = (pairingCode: string) => signIn('pair-device', { pairing_code: pairingCode });
+
+  // Create an account from an owner-issued invite, then sign in with it
+  const register = async (inviteCode: string, username: string, password: string): Promise<LoginResult> => {
+    try {
+      const response = await supabase.functions.invoke('register-account', {
+        body: { invite_code: inviteCode, username, password, device_id: getDeviceId() }
+      });
+
+      if (response.error) {
+        return {
+          success: false,
+          error: await getInvokeErrorMessage(response.error, 'Failed to create account. Please try again.')
+        };
+      }
+
+      return login(username, password);
+    } catch (error) {
+      console.error('Register error:', error);
+      return { success: false, error: 'Failed to create account. Please try again.' };
+    }
+  };
+
   const setUsername = async (username: string): Promise<{ success: boolean; error?: string }> => {
     if (!session) {
       return { success: false, error: 'No active session' };
     }
     
-    const deviceId = getDeviceId();
-    
     try {
       // Use edge function for server-side validation and ownership check
       const response = await supabase.functions.invoke('update-profile', {
-        body: { username, device_id: deviceId }
+        body: { username, session_token: getSessionToken() }
       });
 
       if (response.error) {
@@ -246,32 +471,76 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const logout = async () => {
-    // Clear local session data
+  const clearSignedOutState = () => {
     localStorage.removeItem('session_data');
+    clearSessionToken();
     
     setSession(null);
     setNeedsUsername(false);
+    setPermissions([]);
     setIsWaiting(false);
     setWaitingMessage('');
   };
 
+  const logout = async () => {
+    // Revoke the token server-side; sign out locally even if that fails
+    const sessionToken = getSessionToken();
+    if (sessionToken) {
+      try {
+        await supabase.functions.invoke('logout', {
+          body: { session_token: sessionToken }
+        });
+      } catch (error) {
+        console.error('Logout error:', error);
+      }
+    }
+
+    clearSignedOutState();
+  };
+
+  const signOutEverywhere = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await supabase.functions.invoke('logout', {
+        body: { session_token: getSessionToken(), everywhere: true }
+      });
+
+      if (response.error) {
+        return { success: false, error: await getInvokeErrorMessage(response.error, 'Failed to sign out everywhere') };
+      }
+
+      clearSignedOutState();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to sign out everywhere. Please try again.' };
+    }
+  };
+
+  // Owners hold every permission, even before whoami has answered
+  const can = (permission: Permission) => session?.role === 'owner' || permissions.includes(permission);
+
   return (
     <AuthContext.Provider 
       value={{ 
         session, 
         isLoading, 
         isLoggedIn: !!session && !session.is_banned && !!session.username,
-        isAdmin: session?.role === 'admin' || session?.role === 'owner',
+        isAdmin: can('admin.access'),
         isOwner: session?.role === 'owner',
+        permissions,
+        can,
         isBanned: session?.is_banned ?? false,
         needsUsername,
         siteDisabled,
         isWaiting,
         waitingMessage,
         login,
+        register,
+        pairDevice,
         setUsername,
         logout,
+        signOutEverywhere,
+        refreshSession,
+        syncSession,
         checkBanStatus,
         checkSiteStatus,
         checkWaitingStatus
@@ -0,0 +1,90 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  dmInboxChannel,
+  invokeDirectMessages,
+  type DmInboxEvent,
+  type DmThreadSummary,
+} from '@/lib/direct-messages';
+
+interface DirectMessagesContextType {
+  // The current user's profile; null until they have a username
+  profileId: string | null;
+  threads: DmThreadSummary[];
+  unreadTotal: number;
+  refresh: () => Promise<void>;
+  // Runs the listener for every inbox poke; returns an unsubscribe function
+  onInboxEvent: (listener: (event: DmInboxEvent) => void) => () => void;
+}
+
+const DirectMessagesContext = createContext<DirectMessagesContextType | undefined>(undefined);
+
+// Owns the single inbox subscription shared by the sidebar badge and the chat page
+export const DirectMessagesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<DmThreadSummary[]>([]);
+  const [unreadTotal, setUnreadTotal] = useState(0);
+  const listenersRef = useRef(new Set<(event: DmInboxEvent) => void>());
+  const { session } = useAuth();
+  const sessionId = session?.id;
+  const username = session?.username;
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await invokeDirectMessages('inbox');
+      setProfileId(data.profile_id);
+      setThreads(data.threads || []);
+      setUnreadTotal(data.unread_total || 0);
+    } catch {
+      // Users without a username have no inbox yet
+      setProfileId(null);
+      setThreads([]);
+      setUnreadTotal(0);
+    }
+  }, []);
+
+  // Username changes create the profile that owns the inbox
+  useEffect(() => {
+    if (sessionId) refresh();
+  }, [sessionId, username, refresh]);
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const channel = supabase
+      .channel(dmInboxChannel(profileId))
+      .on('broadcast', { event: 'dm_changed' }, ({ payload }) => {
+        refresh();
+        if (typeof payload?.thread_id === 'string') {
+          listenersRef.current.forEach(listener => listener(payload as DmInboxEvent));
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profileId, refresh]);
+
+  const onInboxEvent = useCallback((listener: (event: DmInboxEvent) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <DirectMessagesContext.Provider value={{ profileId, threads, unreadTotal, refresh, onInboxEvent }}>
+      {children}
+    </DirectMessagesContext.Provider>
+  );
+};
+
+export const useDirectMessages = () => {
+  const context = useContext(DirectMessagesContext);
+  if (!context) {
+    throw new Error('useDirectMessages must be used within a DirectMessagesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,115 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { invokeNotifications, notificationsChannel, type AppNotification } from '@/lib/notifications';
+
+interface NotificationsContextType {
+  // Newest first; older pages are appended by loadOlder
+  notifications: AppNotification[];
+  unreadCount: number;
+  hasOlder: boolean;
+  loadOlder: () => Promise<void>;
+  // Marks the given notifications read, or all of them when called without ids
+  markRead: (ids?: string[]) => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+const PAGE_SIZE = 20;
+
+// Owns the notification subscription shared by the sidebar bell, and toasts new arrivals
+export const NotificationsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  // Ids already shown, so a refresh only toasts what is new; null until the first load
+  const seenIdsRef = useRef<Set<string> | null>(null);
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const sessionId = session?.id;
+
+  const refresh = useCallback(async (announce: boolean) => {
+    try {
+      const data = await invokeNotifications('list', { limit: PAGE_SIZE });
+      const latest: AppNotification[] = data.notifications || [];
+
+      if (announce && seenIdsRef.current) {
+        const seen = seenIdsRef.current;
+        latest
+          .filter(notification => !seen.has(notification.id) && !notification.read_at)
+          .reverse()
+          .forEach(notification => toast({ title: notification.title, description: notification.body ?? undefined }));
+      }
+
+      seenIdsRef.current = new Set([...(seenIdsRef.current ?? []), ...latest.map(notification => notification.id)]);
+      setNotifications(latest);
+      setOlderCursor(data.next_cursor ?? null);
+      setUnreadCount(data.unread_count || 0);
+    } catch (error) {
+      console.error('Fetch notifications error:', error);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    seenIdsRef.current = null;
+    refresh(false);
+
+    const channel = supabase
+      .channel(notificationsChannel(sessionId))
+      .on('broadcast', { event: 'notification_created' }, () => {
+        refresh(true);
+      })
+      .on('broadcast', { event: 'notifications_read' }, () => {
+        refresh(false);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, refresh]);
+
+  const loadOlder = useCallback(async () => {
+    if (!olderCursor) return;
+
+    try {
+      const data = await invokeNotifications('list', { limit: PAGE_SIZE, before: olderCursor });
+      setNotifications(current => [...current, ...(data.notifications || [])]);
+      setOlderCursor(data.next_cursor ?? null);
+    } catch (error) {
+      console.error('Fetch older notifications error:', error);
+    }
+  }, [olderCursor]);
+
+  const markRead = useCallback(async (ids?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(notification =>
+      !notification.read_at && (!ids || ids.includes(notification.id)) ? { ...notification, read_at: readAt } : notification
+    ));
+
+    try {
+      const data = await invokeNotifications('mark_read', ids ? { notification_ids: ids } : {});
+      setUnreadCount(data.unread_count || 0);
+    } catch (error) {
+      console.error('Mark notifications read error:', error);
+      refresh(false);
+    }
+  }, [refresh]);
+
+  return (
+    <NotificationsContext.Provider value={{ notifications, unreadCount, hasOlder: !!olderCursor, loadOlder, markRead }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,101 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  PRESENCE_CHANNEL,
+  invokePresence,
+  markTabClosed,
+  markTabOpen,
+  type PresenceMember,
+} from '@/lib/presence';
+
+interface PresenceContextType {
+  // Online members first, then those seen in the last day
+  members: PresenceMember[];
+  onlineCount: number;
+  isOnline: (sessionId: string) => boolean;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+// Pokes arrive in bursts when several people connect at once
+const REFRESH_DEBOUNCE_MS = 2000;
+
+// Heartbeats for this tab and keeps the shared member list current for the chat and admin pages
+export const PresenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+  const refreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { session } = useAuth();
+  const sessionId = session?.id;
+
+  const run = useCallback(async (action: 'heartbeat' | 'list') => {
+    try {
+      const data = await invokePresence(action);
+      setMembers(data.members || []);
+    } catch {
+      // Presence is best effort; the next beat tries again
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const tabId = crypto.randomUUID();
+    const beat = () => {
+      markTabOpen(tabId);
+      run('heartbeat');
+    };
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+    // Closing the device's last tab drops it right away instead of after the online window
+    const leave = () => {
+      if (markTabClosed(tabId)) return;
+      invokePresence('leave').catch(() => {});
+    };
+    window.addEventListener('pagehide', leave);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [sessionId, run]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(PRESENCE_CHANNEL)
+      .on('broadcast', { event: 'presence_changed' }, () => {
+        if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current);
+        refreshTimeoutRef.current = setTimeout(() => run('list'), REFRESH_DEBOUNCE_MS);
+      })
+      .subscribe();
+
+    return () => {
+      if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, run]);
+
+  const isOnline = useCallback(
+    (id: string) => members.some(m => m.session_id === id && m.is_online),
+    [members]
+  );
+
+  return (
+    <PresenceContext.Provider value={{ members, onlineCount: members.filter(m => m.is_online).length, isOnline }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+};
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
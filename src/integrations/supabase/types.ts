@@ -14,34 +14,867 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_invite_uses: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          device_id: string | null
+          id: string
+          invite_id: string
+          ip_address: string | null
+          kind: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          device_id?: string | null
+          id?: string
+          invite_id: string
+          ip_address?: string | null
+          kind: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          device_id?: string | null
+          id?: string
+          invite_id?: string
+          ip_address?: string | null
+          kind?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_invite_uses_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_invite_uses_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "account_invites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          max_uses: number
+          revoked_at: string | null
+          role: string
+          use_count: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          max_uses?: number
+          revoked_at?: string | null
+          role?: string
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          max_uses?: number
+          revoked_at?: string | null
+          role?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_invites_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      accounts: {
+        Row: {
+          created_at: string
+          id: string
+          is_disabled: boolean
+          last_login_at: string | null
+          password_hash: string
+          role: string
+          updated_at: string
+          username: string
+          username_key: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_disabled?: boolean
+          last_login_at?: string | null
+          password_hash: string
+          role?: string
+          updated_at?: string
+          username: string
+          username_key?: never
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_disabled?: boolean
+          last_login_at?: string | null
+          password_hash?: string
+          role?: string
+          updated_at?: string
+          username?: string
+          username_key?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
       ai_usage: {
         Row: {
           created_at: string
           id: string
-          request_count: number
+          request_count: number
+          session_id: string
+          updated_at: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          request_count?: number
+          session_id: string
+          updated_at?: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          request_count?: number
+          session_id?: string
+          updated_at?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      announcements: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          message: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          message: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          message?: string
+        }
+        Relationships: []
+      }
+      apps: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          image_url: string | null
+          source_code: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          image_url?: string | null
+          source_code: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          image_url?: string | null
+          source_code?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "apps_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auth_attempts: {
+        Row: {
+          created_at: string
+          failed_count: number
+          id: string
+          last_failed_at: string
+          locked_until: string | null
+          source: string
+          source_type: string
+        }
+        Insert: {
+          created_at?: string
+          failed_count?: number
+          id?: string
+          last_failed_at?: string
+          locked_until?: string | null
+          source: string
+          source_type: string
+        }
+        Update: {
+          created_at?: string
+          failed_count?: number
+          id?: string
+          last_failed_at?: string
+          locked_until?: string | null
+          source?: string
+          source_type?: string
+        }
+        Relationships: []
+      }
+      banned_devices: {
+        Row: {
+          banned_at: string
+          banned_by: string | null
+          device_id: string
+          id: string
+          ip_address: string | null
+          reason: string | null
+        }
+        Insert: {
+          banned_at?: string
+          banned_by?: string | null
+          device_id: string
+          id?: string
+          ip_address?: string | null
+          reason?: string | null
+        }
+        Update: {
+          banned_at?: string
+          banned_by?: string | null
+          device_id?: string
+          id?: string
+          ip_address?: string | null
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "banned_devices_banned_by_fkey"
+            columns: ["banned_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          height: number | null
+          id: string
+          kind: string
+          message_id: string | null
+          session_id: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path: string | null
+          width: number | null
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          height?: number | null
+          id?: string
+          kind: string
+          message_id?: string | null
+          session_id: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path?: string | null
+          width?: number | null
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          height?: number | null
+          id?: string
+          kind?: string
+          message_id?: string | null
+          session_id?: string
+          size_bytes?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_attachments_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_filter_rules: {
+        Row: {
+          action: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_enabled: boolean
+          match_type: string
+          mute_minutes: number | null
+          pattern: string
+          updated_at: string
+        }
+        Insert: {
+          action?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_enabled?: boolean
+          match_type?: string
+          mute_minutes?: number | null
+          pattern: string
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_enabled?: boolean
+          match_type?: string
+          mute_minutes?: number | null
+          pattern?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_filter_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_message_flags: {
+        Row: {
+          created_at: string
+          id: string
+          matched: string
+          message_id: string
+          rule_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          matched: string
+          message_id: string
+          rule_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          matched?: string
+          message_id?: string
+          rule_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_message_flags_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_message_flags_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "chat_filter_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_message_revisions: {
+        Row: {
+          created_at: string
+          edited_by: string | null
+          id: string
+          message: string
+          message_id: string
+        }
+        Insert: {
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          message: string
+          message_id: string
+        }
+        Update: {
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          message?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_message_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          edited_at: string | null
+          hidden_for_session_ids: string[] | null
+          id: string
+          message: string
+          reply_to_id: string | null
+          room_id: string
+          search_vector: unknown | null
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
+          hidden_for_session_ids?: string[] | null
+          id?: string
+          message: string
+          reply_to_id?: string | null
+          room_id: string
+          search_vector?: never
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
+          hidden_for_session_ids?: string[] | null
+          id?: string
+          message?: string
+          reply_to_id?: string | null
+          room_id?: string
+          search_vector?: never
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_messages_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_mutes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          reason: string
+          revoked_at: string | null
+          revoked_by: string | null
+          rule_id: string | null
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          reason: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          rule_id?: string | null
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          reason?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          rule_id?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_mutes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_mutes_revoked_by_fkey"
+            columns: ["revoked_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_mutes_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "chat_filter_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_mutes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          message_id: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          message_id: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          message_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reactions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          message_id: string | null
+          message_snapshot: string
+          reason: string
+          reported_session_id: string | null
+          reporter_session_id: string | null
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          room_id: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string | null
+          message_snapshot: string
+          reason: string
+          reported_session_id?: string | null
+          reporter_session_id?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          room_id?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string | null
+          message_snapshot?: string
+          reason?: string
+          reported_session_id?: string | null
+          reporter_session_id?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          room_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reports_reported_session_id_fkey"
+            columns: ["reported_session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reports_reporter_session_id_fkey"
+            columns: ["reporter_session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reports_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_room_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          room_id: string
+          session_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          room_id: string
+          session_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          room_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_room_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_room_members_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_room_members_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_rooms: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_default: boolean
+          is_locked: boolean
+          name: string
+          slow_mode_seconds: number
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          is_locked?: boolean
+          name: string
+          slow_mode_seconds?: number
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          is_locked?: boolean
+          name?: string
+          slow_mode_seconds?: number
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_rooms_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_pairing_codes: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          id: string
           session_id: string
-          updated_at: string
-          week_start: string
         }
         Insert: {
+          code: string
           created_at?: string
+          expires_at: string
           id?: string
-          request_count?: number
           session_id: string
-          updated_at?: string
-          week_start: string
         }
         Update: {
+          code?: string
           created_at?: string
+          expires_at?: string
           id?: string
-          request_count?: number
           session_id?: string
-          updated_at?: string
-          week_start?: string
         }
         Relationships: [
           {
-            foreignKeyName: "ai_usage_session_id_fkey"
+            foreignKeyName: "device_pairing_codes_session_id_fkey"
             columns: ["session_id"]
             isOneToOne: false
             referencedRelation: "sessions"
@@ -49,144 +882,149 @@ export type Database = {
           },
         ]
       }
-      announcements: {
+      dm_blocks: {
         Row: {
+          blocked_profile_id: string
+          blocker_profile_id: string
           created_at: string
-          created_by: string
-          expires_at: string | null
-          id: string
-          is_active: boolean
-          message: string
         }
         Insert: {
+          blocked_profile_id: string
+          blocker_profile_id: string
           created_at?: string
-          created_by: string
-          expires_at?: string | null
-          id?: string
-          is_active?: boolean
-          message: string
         }
         Update: {
+          blocked_profile_id?: string
+          blocker_profile_id?: string
           created_at?: string
-          created_by?: string
-          expires_at?: string | null
-          id?: string
-          is_active?: boolean
-          message?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "dm_blocks_blocked_profile_id_fkey"
+            columns: ["blocked_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dm_blocks_blocker_profile_id_fkey"
+            columns: ["blocker_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      apps: {
+      dm_messages: {
         Row: {
           created_at: string
-          created_by: string | null
           id: string
-          image_url: string | null
-          source_code: string
-          title: string
-          updated_at: string
+          message: string
+          sender_profile_id: string
+          thread_id: string
         }
         Insert: {
           created_at?: string
-          created_by?: string | null
           id?: string
-          image_url?: string | null
-          source_code: string
-          title: string
-          updated_at?: string
+          message: string
+          sender_profile_id: string
+          thread_id: string
         }
         Update: {
           created_at?: string
-          created_by?: string | null
           id?: string
-          image_url?: string | null
-          source_code?: string
-          title?: string
-          updated_at?: string
+          message?: string
+          sender_profile_id?: string
+          thread_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "apps_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "dm_messages_sender_profile_id_fkey"
+            columns: ["sender_profile_id"]
             isOneToOne: false
-            referencedRelation: "sessions"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dm_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "dm_threads"
             referencedColumns: ["id"]
           },
         ]
       }
-      banned_devices: {
+      dm_threads: {
         Row: {
-          banned_at: string
-          banned_by: string | null
-          device_id: string
+          created_at: string
           id: string
-          ip_address: string | null
-          reason: string | null
+          last_message_at: string | null
+          profile_a: string
+          profile_a_read_at: string | null
+          profile_b: string
+          profile_b_read_at: string | null
         }
         Insert: {
-          banned_at?: string
-          banned_by?: string | null
-          device_id: string
+          created_at?: string
           id?: string
-          ip_address?: string | null
-          reason?: string | null
+          last_message_at?: string | null
+          profile_a: string
+          profile_a_read_at?: string | null
+          profile_b: string
+          profile_b_read_at?: string | null
         }
         Update: {
-          banned_at?: string
-          banned_by?: string | null
-          device_id?: string
+          created_at?: string
           id?: string
-          ip_address?: string | null
-          reason?: string | null
+          last_message_at?: string | null
+          profile_a?: string
+          profile_a_read_at?: string | null
+          profile_b?: string
+          profile_b_read_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "banned_devices_banned_by_fkey"
-            columns: ["banned_by"]
+            foreignKeyName: "dm_threads_profile_a_fkey"
+            columns: ["profile_a"]
             isOneToOne: false
-            referencedRelation: "sessions"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dm_threads_profile_b_fkey"
+            columns: ["profile_b"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      chat_messages: {
+      game_plays: {
         Row: {
-          created_at: string
-          deleted_at: string | null
-          deleted_by: string | null
-          hidden_for_session_ids: string[] | null
-          id: string
-          message: string
+          game_id: string
+          played_on: string
           session_id: string
         }
         Insert: {
-          created_at?: string
-          deleted_at?: string | null
-          deleted_by?: string | null
-          hidden_for_session_ids?: string[] | null
-          id?: string
-          message: string
+          game_id: string
+          played_on?: string
           session_id: string
         }
         Update: {
-          created_at?: string
-          deleted_at?: string | null
-          deleted_by?: string | null
-          hidden_for_session_ids?: string[] | null
-          id?: string
-          message?: string
+          game_id?: string
+          played_on?: string
           session_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "chat_messages_deleted_by_fkey"
-            columns: ["deleted_by"]
+            foreignKeyName: "game_plays_game_id_fkey"
+            columns: ["game_id"]
             isOneToOne: false
-            referencedRelation: "sessions"
+            referencedRelation: "games"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "chat_messages_session_id_fkey"
+            foreignKeyName: "game_plays_session_id_fkey"
             columns: ["session_id"]
             isOneToOne: false
             referencedRelation: "sessions"
@@ -196,29 +1034,38 @@ export type Database = {
       }
       games: {
         Row: {
+          category: string | null
           created_at: string
           created_by: string | null
           id: string
           image_url: string | null
+          play_count: number
           source_code: string
+          tags: string[]
           title: string
           updated_at: string
         }
         Insert: {
+          category?: string | null
           created_at?: string
           created_by?: string | null
           id?: string
           image_url?: string | null
+          play_count?: number
           source_code: string
+          tags?: string[]
           title: string
           updated_at?: string
         }
         Update: {
+          category?: string | null
           created_at?: string
           created_by?: string | null
           id?: string
           image_url?: string | null
+          play_count?: number
           source_code?: string
+          tags?: string[]
           title?: string
           updated_at?: string
         }
@@ -232,6 +1079,73 @@ export type Database = {
           },
         ]
       }
+      notification_opt_outs: {
+        Row: {
+          created_at: string
+          session_id: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          session_id: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          session_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_opt_outs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          session_id: string
+          title: string
+          type: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          session_id: string
+          title: string
+          type: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          session_id?: string
+          title?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -261,35 +1175,156 @@ export type Database = {
           },
         ]
       }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          created_at: string
+          is_system: boolean
+          label: string
+          name: string
+          rank: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          is_system?: boolean
+          label: string
+          name: string
+          rank: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          is_system?: boolean
+          label?: string
+          name?: string
+          rank?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      session_devices: {
+        Row: {
+          created_at: string
+          device_id: string
+          id: string
+          ip_address: string | null
+          label: string | null
+          last_active_at: string
+          online_until: string | null
+          session_id: string
+          signed_in_at: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          id?: string
+          ip_address?: string | null
+          label?: string | null
+          last_active_at?: string
+          online_until?: string | null
+          session_id: string
+          signed_in_at?: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          id?: string
+          ip_address?: string | null
+          label?: string | null
+          last_active_at?: string
+          online_until?: string | null
+          session_id?: string
+          signed_in_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_devices_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
+          account_id: string | null
           created_at: string
           device_id: string
           id: string
           ip_address: string | null
           is_banned: boolean
           last_active_at: string
-          role: Database["public"]["Enums"]["app_role"]
+          last_seen_at: string | null
+          online_until: string | null
+          role: string
         }
         Insert: {
+          account_id?: string | null
           created_at?: string
           device_id: string
           id?: string
           ip_address?: string | null
           is_banned?: boolean
           last_active_at?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          last_seen_at?: string | null
+          online_until?: string | null
+          role?: string
         }
         Update: {
+          account_id?: string | null
           created_at?: string
           device_id?: string
           id?: string
           ip_address?: string | null
           is_banned?: boolean
           last_active_at?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          last_seen_at?: string | null
+          online_until?: string | null
+          role?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sessions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sessions_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
       }
       site_settings: {
         Row: {
@@ -327,55 +1362,85 @@ export type Database = {
         Row: {
           id: string
           is_typing: boolean
+          room_id: string | null
           session_id: string
           updated_at: string
         }
         Insert: {
           id?: string
           is_typing?: boolean
+          room_id?: string | null
           session_id: string
           updated_at?: string
         }
         Update: {
           id?: string
           is_typing?: boolean
+          room_id?: string | null
           session_id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "typing_indicators_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       waiting_list: {
         Row: {
+          account_id: string | null
           created_at: string
           device_id: string
+          display_name: string | null
+          edit_token_hash: string | null
           id: string
           ip_address: string | null
+          message: string | null
           reviewed_at: string | null
           reviewed_by: string | null
           status: string
           updated_at: string
         }
         Insert: {
+          account_id?: string | null
           created_at?: string
           device_id: string
+          display_name?: string | null
+          edit_token_hash?: string | null
           id?: string
           ip_address?: string | null
+          message?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
+          account_id?: string | null
           created_at?: string
           device_id?: string
+          display_name?: string | null
+          edit_token_hash?: string | null
           id?: string
           ip_address?: string | null
+          message?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           status?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "waiting_list_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "waiting_list_reviewed_by_fkey"
             columns: ["reviewed_by"]
@@ -390,7 +1455,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_account_invite: {
+        Args: {
+          _account_id: string
+          _code: string
+          _device_id?: string
+          _ip_address?: string
+          _kind: string
+        }
+        Returns: {
+          invite_id: string
+          invite_role: string
+        }[]
+      }
+      cleanup_stale_sessions: { Args: never; Returns: undefined }
+      dm_unread_counts: {
+        Args: {
+          _profile_id: string
+        }
+        Returns: {
+          thread_id: string
+          unread: number
+        }[]
+      }
+      record_game_play: {
+        Args: {
+          _game_id: string
+          _session_id: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "user" | "admin" | "owner"
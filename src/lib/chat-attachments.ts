@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+// Keep in sync with supabase/functions/_shared/chat-attachments.ts
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_FILE_BYTES = 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/gif,.pdf,.zip,.txt';
+
+export type AttachmentKind = 'image' | 'file';
+
+// An upload that hasn't been sent yet
+export interface PendingAttachment {
+  id: string;
+  kind: AttachmentKind;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+}
+
+// As served by chat-rooms, with signed URLs that expire after an hour
+export interface ChatAttachment extends PendingAttachment {
+  url: string | null;
+  thumbnail_url: string | null;
+}
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : bytes >= 1024 ? `${Math.round(bytes / 1024)} KB`
+      : `${bytes} B`;
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(file);
+  });
+
+export const invokeChatAttachments = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('chat-attachments', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
+
+export const uploadChatAttachment = async (roomId: string, file: File): Promise<PendingAttachment> => {
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_IMAGE_BYTES)}`);
+  }
+
+  const data = await invokeChatAttachments('upload', {
+    room_id: roomId,
+    file_name: file.name,
+    file_base64: await readFileAsDataUrl(file)
+  });
+  return data.attachment;
+};
@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+// Mirrors supabase/functions/_shared/chat-filter.ts
+export type FilterMatchType = 'exact' | 'wildcard' | 'regex';
+export type FilterAction = 'reject' | 'mask' | 'flag' | 'mute';
+
+export interface FilterRule {
+  id: string;
+  pattern: string;
+  match_type: FilterMatchType;
+  action: FilterAction;
+  mute_minutes: number | null;
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FilterTestResult {
+  outcome: 'allowed' | 'masked' | 'flagged' | 'rejected' | 'muted';
+  // What would be stored; null when the message would be refused
+  message: string | null;
+  hits: { rule_id: string; action: FilterAction; matches: string[] }[];
+}
+
+export interface FlaggedMessage {
+  id: string;
+  matched: string;
+  created_at: string;
+  rule_id: string | null;
+  username: string | null;
+  message: { id: string; message: string; session_id: string; room_id: string; deleted_at: string | null } | null;
+}
+
+export const FILTER_MATCH_TYPE_LABELS: Record<FilterMatchType, string> = {
+  exact: 'Exact word',
+  wildcard: 'Wildcard (* and ?)',
+  regex: 'Regular expression',
+};
+
+export const FILTER_ACTION_LABELS: Record<FilterAction, string> = {
+  reject: 'Reject',
+  mask: 'Mask with ***',
+  flag: 'Flag for review',
+  mute: 'Reject and mute',
+};
+
+export const invokeChatFilter = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('manage-chat-filter', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
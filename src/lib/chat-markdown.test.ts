@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { parseChatInline, parseChatMarkdown } from './chat-markdown';
+
+const text = (value: string) => ({ type: 'text', text: value });
+
+describe('parseChatInline', () => {
+  it('leaves plain text as a single text node', () => {
+    expect(parseChatInline('just words')).toEqual([text('just words')]);
+  });
+
+  it('parses bold, italic and inline code', () => {
+    expect(parseChatInline('**bold** *italic* `code`')).toEqual([
+      { type: 'bold', children: [text('bold')] },
+      text(' '),
+      { type: 'italic', children: [text('italic')] },
+      text(' '),
+      { type: 'code', text: 'code' },
+    ]);
+  });
+
+  it('nests emphasis inside emphasis', () => {
+    expect(parseChatInline('**bold *and italic* text**')).toEqual([
+      {
+        type: 'bold',
+        children: [text('bold '), { type: 'italic', children: [text('and italic')] }, text(' text')],
+      },
+    ]);
+    expect(parseChatInline('||**big** reveal||')).toEqual([
+      {
+        type: 'spoiler',
+        children: [{ type: 'bold', children: [text('big')] }, text(' reveal')],
+      },
+    ]);
+  });
+
+  it('keeps markup inside inline code literal', () => {
+    expect(parseChatInline('`**not bold**`')).toEqual([{ type: 'code', text: '**not bold**' }]);
+  });
+
+  it('keeps asterisks that do not hug their text literal', () => {
+    expect(parseChatInline('2 * 3 * 4')).toEqual([text('2 * 3 * 4')]);
+    expect(parseChatInline('** spaced **')).toEqual([text('** spaced **')]);
+  });
+
+  it('drops trailing punctuation from URLs', () => {
+    expect(parseChatInline('see https://example.com/path.')).toEqual([
+      text('see '),
+      { type: 'link', url: 'https://example.com/path' },
+      text('.'),
+    ]);
+    expect(parseChatInline('https://example.com/?q=1!?')).toEqual([
+      { type: 'link', url: 'https://example.com/?q=1' },
+      text('!?'),
+    ]);
+  });
+
+  it('keeps a closing parenthesis only when the URL opened one', () => {
+    expect(parseChatInline('(https://en.wikipedia.org/wiki/Foo_(bar))')).toEqual([
+      text('('),
+      { type: 'link', url: 'https://en.wikipedia.org/wiki/Foo_(bar)' },
+      text(')'),
+    ]);
+    expect(parseChatInline('(see https://example.com/a),')).toEqual([
+      text('(see '),
+      { type: 'link', url: 'https://example.com/a' },
+      text('),'),
+    ]);
+  });
+
+  it('parses mentions', () => {
+    expect(parseChatInline('hi @alice_1!')).toEqual([
+      text('hi '),
+      { type: 'mention', name: 'alice_1' },
+      text('!'),
+    ]);
+    expect(parseChatInline('@a is too short')).toEqual([text('@a is too short')]);
+  });
+
+  it('parses spoilers', () => {
+    expect(parseChatInline('the end: ||they win||')).toEqual([
+      text('the end: '),
+      { type: 'spoiler', children: [text('they win')] },
+    ]);
+    expect(parseChatInline('|| not a spoiler ||')).toEqual([text('|| not a spoiler ||')]);
+  });
+
+  it('turns newlines into breaks', () => {
+    expect(parseChatInline('one\ntwo')).toEqual([text('one'), { type: 'break' }, text('two')]);
+  });
+});
+
+describe('parseChatMarkdown', () => {
+  it('splits fenced code blocks from the text around them', () => {
+    expect(parseChatMarkdown('before\n```ts\nconst a = 1;\n```\nafter')).toEqual([
+      { type: 'inline', children: [text('before')] },
+      { type: 'code_block', language: 'ts', code: 'const a = 1;' },
+      { type: 'inline', children: [text('after')] },
+    ]);
+  });
+
+  it('reads a language tag only when the fence is followed by a newline', () => {
+    expect(parseChatMarkdown('```\nplain\n```')).toEqual([
+      { type: 'code_block', language: null, code: 'plain' },
+    ]);
+    expect(parseChatMarkdown('```echo hi```')).toEqual([
+      { type: 'code_block', language: null, code: 'echo hi' },
+    ]);
+  });
+
+  it('keeps markup inside code blocks literal', () => {
+    expect(parseChatMarkdown('```\n**x** @bob https://example.com\n```')).toEqual([
+      { type: 'code_block', language: null, code: '**x** @bob https://example.com' },
+    ]);
+  });
+});
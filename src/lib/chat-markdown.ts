@@ -0,0 +1,117 @@
+// Parser for the markdown subset chat supports. Messages arrive already
+// normalized by supabase/functions/_shared/chat-markdown.ts; this turns them
+// into tokens that components render as plain React text, so nothing a user
+// types is ever interpreted as HTML.
+//
+//   **bold**  *italic*  `code`  ```code block```  ||spoiler||
+//
+// Bare http(s) URLs become links and @names become mentions.
+
+export type ChatInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'spoiler'; children: ChatInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string }
+  | { type: 'mention'; name: string }
+  | { type: 'break' };
+
+export type ChatBlock =
+  | { type: 'code_block'; language: string | null; code: string }
+  | { type: 'inline'; children: ChatInline[] };
+
+// An optional language tag counts only when the fence is followed by a newline
+const CODE_BLOCK_PATTERN = /```(?:([A-Za-z0-9+#-]{1,20})\n)?\n?([\s\S]*?)\n?```/g;
+
+// Alternatives in priority order: code wins over emphasis, bold over italic.
+// Emphasis must hug its text so "2 * 3 * 4" stays literal. Mentions share
+// MENTION_PATTERN's shape from src/lib/chat-messages.ts.
+const INLINE_PATTERN = new RegExp([
+  '`([^`\\n]+)`',
+  '\\*\\*(?!\\s)([^\\n]+?)(?<!\\s)\\*\\*',
+  '\\|\\|(?!\\s)([^\\n]+?)(?<!\\s)\\|\\|',
+  '\\*(?![\\s*])([^*\\n]+?)(?<!\\s)\\*',
+  '(https?:\\/\\/[^\\s<>"\'`]+)',
+  '@([A-Za-z0-9_-]{2,20})',
+  '(\\n)',
+].join('|'), 'g');
+
+// Emphasis inside emphasis is parsed this many levels deep, then left as text
+const MAX_NESTING = 3;
+
+// Punctuation that usually ends a sentence rather than the URL before it
+const URL_TRAILING_PUNCTUATION = /[.,!?;:'"]+$/;
+
+const splitUrl = (candidate: string): [string, string] => {
+  let url = candidate.replace(URL_TRAILING_PUNCTUATION, '');
+  // Keep ")" only when the URL opened one, e.g. wiki links
+  while (url.endsWith(')') && (url.match(/\(/g)?.length ?? 0) < (url.match(/\)/g)?.length ?? 0)) {
+    url = url.slice(0, -1).replace(URL_TRAILING_PUNCTUATION, '');
+  }
+  return [url, candidate.slice(url.length)];
+};
+
+const pushText = (nodes: ChatInline[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+export const parseChatInline = (text: string, depth = 0): ChatInline[] => {
+  const nodes: ChatInline[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, code, bold, spoiler, italic, url, mention, newline] = match;
+    pushText(nodes, text.slice(cursor, match.index));
+    cursor = match.index! + whole.length;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (bold !== undefined || spoiler !== undefined || italic !== undefined) {
+      const inner = bold ?? spoiler ?? italic;
+      nodes.push({
+        type: bold !== undefined ? 'bold' : spoiler !== undefined ? 'spoiler' : 'italic',
+        children: depth < MAX_NESTING ? parseChatInline(inner, depth + 1) : [{ type: 'text', text: inner }],
+      });
+    } else if (url !== undefined) {
+      const [link, rest] = splitUrl(url);
+      nodes.push({ type: 'link', url: link });
+      pushText(nodes, rest);
+    } else if (mention !== undefined) {
+      nodes.push({ type: 'mention', name: mention });
+    } else if (newline !== undefined) {
+      nodes.push({ type: 'break' });
+    }
+  }
+
+  pushText(nodes, text.slice(cursor));
+  return nodes;
+};
+
+// Splits out fenced code blocks, then parses the text between them
+export const parseChatMarkdown = (text: string): ChatBlock[] => {
+  const blocks: ChatBlock[] = [];
+  let cursor = 0;
+
+  const pushInline = (segment: string) => {
+    // Blocks already start on their own line, so drop the newlines around them
+    const trimmed = segment.replace(/^\n+|\n+$/g, '');
+    if (trimmed) blocks.push({ type: 'inline', children: parseChatInline(trimmed) });
+  };
+
+  for (const match of text.matchAll(CODE_BLOCK_PATTERN)) {
+    const [whole, language, code] = match;
+    if (!code.trim()) continue;
+
+    pushInline(text.slice(cursor, match.index));
+    blocks.push({ type: 'code_block', language: language ?? null, code });
+    cursor = match.index! + whole.length;
+  }
+
+  pushInline(text.slice(cursor));
+  return blocks;
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Keep in sync with REACTION_EMOJIS in supabase/functions/_shared/chat-messages.ts
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+
+export interface ChatReaction {
+  emoji: string;
+  session_id: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  mine: boolean;
+}
+
+// One chip per emoji, in the order they were first used
+export const summarizeReactions = (reactions: ChatReaction[] | undefined, sessionId: string | undefined) => {
+  const byEmoji = new Map<string, ReactionSummary>();
+  (reactions || []).forEach(({ emoji, session_id }) => {
+    const summary = byEmoji.get(emoji) ?? { emoji, count: 0, mine: false };
+    summary.count += 1;
+    summary.mine = summary.mine || session_id === sessionId;
+    byEmoji.set(emoji, summary);
+  });
+  return Array.from(byEmoji.values());
+};
+
+// Mentions are written @name; spaces in a username are typed as underscores
+export const MENTION_PATTERN = /@([A-Za-z0-9_-]{2,20})/g;
+
+export const mentionKey = (username: string) => username.trim().replace(/ /g, '_').toLowerCase();
+
+export const mentionFor = (username: string) => `@${username.trim().replace(/ /g, '_')}`;
+
+// Mirrors ChatPolicy in supabase/functions/_shared/chat-messages.ts
+export interface ChatPolicy {
+  edit_window_minutes: number;
+  burst_limit: number;
+  per_minute_limit: number;
+  duplicate_window_seconds: number;
+}
+
+export const DEFAULT_CHAT_POLICY: ChatPolicy = {
+  edit_window_minutes: 15,
+  burst_limit: 5,
+  per_minute_limit: 20,
+  duplicate_window_seconds: 30,
+};
+
+export const fetchChatPolicy = async (): Promise<ChatPolicy> => {
+  const { data } = await supabase
+    .from('site_settings')
+    .select('value')
+    .eq('key', 'chat_policy')
+    .maybeSingle();
+
+  if (!data?.value || typeof data.value !== 'object' || Array.isArray(data.value)) return DEFAULT_CHAT_POLICY;
+
+  const value = data.value as Partial<ChatPolicy>;
+  const read = (key: keyof ChatPolicy) => Number(value[key] ?? DEFAULT_CHAT_POLICY[key]) || 0;
+  return {
+    edit_window_minutes: read('edit_window_minutes'),
+    burst_limit: read('burst_limit'),
+    per_minute_limit: read('per_minute_limit'),
+    duplicate_window_seconds: read('duplicate_window_seconds'),
+  };
+};
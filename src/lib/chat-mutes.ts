@@ -0,0 +1,26 @@
+// Mirrors ChatMute in supabase/functions/_shared/chat-mutes.ts
+export interface ChatMute {
+  id: string;
+  session_id: string;
+  reason: string;
+  expires_at: string;
+}
+
+// Must match chatStatusTopic in supabase/functions/_shared/chat-mutes.ts
+export const chatStatusChannel = (sessionId: string) => `chat-status:${sessionId}`;
+
+export const MUTE_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '1 week' },
+];
+
+// Countdown text such as "4m 05s" or "2h 10m"
+export const formatRemaining = (seconds: number) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h ${pad(Math.floor((seconds % 3600) / 60))}m`;
+  if (seconds >= 60) return `${Math.floor(seconds / 60)}m ${pad(seconds % 60)}s`;
+  return `${seconds}s`;
+};
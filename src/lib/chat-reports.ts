@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+// Keep in sync with supabase/functions/chat-reports/index.ts
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'inappropriate' | 'other';
+export type ReportResolution = 'dismiss' | 'delete' | 'mute' | 'ban';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam or flooding',
+  harassment: 'Harassment',
+  hate: 'Hate speech',
+  inappropriate: 'Inappropriate content',
+  other: 'Something else',
+};
+
+export const MAX_REPORT_DETAILS_LENGTH = 300;
+
+export interface ReportEntry {
+  id: string;
+  reason: ReportReason;
+  details: string | null;
+  reporter_username: string | null;
+  created_at: string;
+}
+
+// All open reports on one message
+export interface ReportGroup {
+  message_id: string | null;
+  report_ids: string[];
+  room_name: string | null;
+  reported_session_id: string | null;
+  reported_username: string | null;
+  user_open_reports: number;
+  message_snapshot: string;
+  current_message: string | null;
+  message_deleted: boolean;
+  first_reported_at: string;
+  reports: ReportEntry[];
+}
+
+export const invokeChatReports = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('chat-reports', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+export type ChatRoomVisibility = 'public' | 'staff' | 'invite';
+
+export interface ChatRoom {
+  id: string;
+  name: string;
+  description: string | null;
+  visibility: ChatRoomVisibility;
+  is_default: boolean;
+  is_locked: boolean;
+  archived_at: string | null;
+  slow_mode_seconds: number;
+  created_at: string;
+  can_post: boolean;
+}
+
+export const ROOM_VISIBILITY_LABELS: Record<ChatRoomVisibility, string> = {
+  public: 'Public',
+  staff: 'Admins only',
+  invite: 'Invite only',
+};
+
+// Choices offered to room managers; the server accepts any whole number up to an hour
+export const SLOW_MODE_OPTIONS: { seconds: number; label: string }[] = [
+  { seconds: 0, label: 'Off' },
+  { seconds: 5, label: '5 seconds' },
+  { seconds: 10, label: '10 seconds' },
+  { seconds: 30, label: '30 seconds' },
+  { seconds: 60, label: '1 minute' },
+  { seconds: 300, label: '5 minutes' },
+  { seconds: 900, label: '15 minutes' },
+];
+
+export const formatSlowMode = (seconds: number) =>
+  SLOW_MODE_OPTIONS.find(option => option.seconds === seconds)?.label ?? `${seconds} seconds`;
+
+// Must match chatRoomTopic and CHAT_ROOMS_TOPIC in supabase/functions/_shared/chat-rooms.ts
+export const chatRoomChannel = (roomId: string) => `chat-room:${roomId}`;
+export const CHAT_ROOMS_CHANNEL = 'chat-rooms';
+
+export const invokeChatRooms = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('chat-rooms', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
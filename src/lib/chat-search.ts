@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+export type DeletedFilter = 'all' | 'live' | 'deleted';
+
+export const DELETED_FILTER_LABELS: Record<DeletedFilter, string> = {
+  all: 'All messages',
+  live: 'Not deleted',
+  deleted: 'Deleted only',
+};
+
+export interface ChatSearchFilters {
+  query: string;
+  username: string;
+  from: string;
+  to: string;
+  deleted: DeletedFilter;
+}
+
+// Rows returned by the chat-search edge function
+export interface ChatSearchResult {
+  id: string;
+  message: string;
+  session_id: string;
+  username: string | null;
+  room_id: string | null;
+  room_name: string | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  deleted_by_username: string | null;
+}
+
+export const invokeChatSearch = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('chat-search', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
+
+const EXPORT_COLUMNS: (keyof ChatSearchResult)[] = [
+  'id', 'created_at', 'username', 'session_id', 'room_name', 'room_id',
+  'message', 'edited_at', 'deleted_at', 'deleted_by_username', 'deleted_by',
+];
+
+// Quotes every field and defuses values a spreadsheet would run as a formula
+const csvField = (value: string | null) => {
+  const text = value ?? '';
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export const toCsv = (rows: ChatSearchResult[]) =>
+  [EXPORT_COLUMNS.join(','), ...rows.map(row => EXPORT_COLUMNS.map(column => csvField(row[column])).join(','))]
+    .join('\r\n');
+
+export const downloadFile = (fileName: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+export interface DmThreadSummary {
+  id: string;
+  other_profile_id: string;
+  other_username: string | null;
+  last_message_at: string | null;
+  unread: number;
+  // Whether the current user has blocked the other participant
+  blocked: boolean;
+}
+
+export interface DmMessage {
+  id: string;
+  thread_id: string;
+  sender_profile_id: string;
+  message: string;
+  created_at: string;
+}
+
+export interface DmInboxEvent {
+  thread_id: string;
+  message_id?: string;
+}
+
+// Must match dmInboxTopic in supabase/functions/_shared/direct-messages.ts
+export const dmInboxChannel = (profileId: string) => `dm-inbox:${profileId}`;
+
+export const invokeDirectMessages = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('direct-messages', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
@@ -0,0 +1,29 @@
+// Helpers for reading supabase-js FunctionsHttpError responses.
+// Non-2xx edge function responses land in `error.context` as the raw Response.
+
+export interface InvokeErrorBody {
+  error?: string;
+  [key: string]: unknown;
+}
+
+export const getInvokeStatus = (error: unknown): number | null => {
+  const context = (error as { context?: { status?: number } } | null)?.context;
+  return typeof context?.status === 'number' ? context.status : null;
+};
+
+export const readInvokeErrorBody = async (error: unknown): Promise<InvokeErrorBody | null> => {
+  const context = (error as { context?: Response } | null)?.context;
+  if (!context || typeof context.json !== 'function') return null;
+
+  try {
+    const body = await context.clone().json();
+    return body && typeof body === 'object' ? (body as InvokeErrorBody) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getInvokeErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  const body = await readInvokeErrorBody(error);
+  return typeof body?.error === 'string' ? body.error : fallback;
+};
@@ -0,0 +1,66 @@
+export type GameSort = 'newest' | 'az' | 'popular';
+
+export const GAME_SORT_LABELS: Record<GameSort, string> = {
+  newest: 'Newest',
+  az: 'A–Z',
+  popular: 'Most played',
+};
+
+// The fields the library filters and sorts on
+export interface GameListing {
+  title: string;
+  category: string | null;
+  tags: string[];
+  play_count: number;
+  created_at: string;
+}
+
+export interface GameFilters {
+  query: string;
+  category: string | null;
+  // Games must carry every selected tag
+  tags: string[];
+  sort: GameSort;
+}
+
+// Filters live in the URL (?q=&category=&tags=a,b&sort=) so a filtered view can be shared
+export const readGameFilters = (params: URLSearchParams): GameFilters => {
+  const sort = params.get('sort');
+  return {
+    query: params.get('q') ?? '',
+    category: params.get('category') || null,
+    tags: parseTagInput(params.get('tags') ?? ''),
+    sort: sort && Object.keys(GAME_SORT_LABELS).includes(sort) ? sort as GameSort : 'newest',
+  };
+};
+
+// Leaves defaults out so the plain /games link stays clean
+export const writeGameFilters = (filters: GameFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.sort !== 'newest') params.set('sort', filters.sort);
+  return params;
+};
+
+// Comma separated tags as typed in the game form, normalized the way manage-games stores them
+export const parseTagInput = (value: string) =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean)));
+
+export const filterGames = <T extends GameListing>(games: T[], filters: GameFilters): T[] => {
+  const query = filters.query.trim().toLowerCase();
+  const category = filters.category?.toLowerCase() ?? null;
+
+  const matches = games.filter(game =>
+    (!query || game.title.toLowerCase().includes(query)) &&
+    (!category || game.category?.toLowerCase() === category) &&
+    filters.tags.every(tag => game.tags.includes(tag))
+  );
+
+  return matches.sort((a, b) => {
+    if (filters.sort === 'az') return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    if (filters.sort === 'popular' && b.play_count !== a.play_count) return b.play_count - a.play_count;
+    return b.created_at.localeCompare(a.created_at);
+  });
+};
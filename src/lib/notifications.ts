@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+// Mirrors NOTIFICATION_TYPES in supabase/functions/_shared/notifications.ts
+export type NotificationType = 'mention' | 'announcement' | 'waiting_list';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  // In-app path to open, e.g. /chat?room=<id>
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  mention: { label: 'Mentions', description: 'Someone @mentions you in a chat room' },
+  announcement: { label: 'Announcements', description: 'An admin posts a new announcement' },
+  waiting_list: { label: 'Waiting list', description: 'Access requests to review, and decisions on your new devices' },
+};
+
+// Must match notificationsTopic in supabase/functions/_shared/notifications.ts
+export const notificationsChannel = (sessionId: string) => `notifications:${sessionId}`;
+
+export const invokeNotifications = async (action: string, params: Record<string, unknown> = {}) => {
+  const response = await supabase.functions.invoke('notifications', {
+    body: { action, session_token: getSessionToken(), ...params }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
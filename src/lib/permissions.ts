@@ -0,0 +1,33 @@
+// Mirrors PERMISSIONS in supabase/functions/_shared/permissions.ts. The server
+// enforces these; the client only uses them to decide what to show.
+export const PERMISSION_LABELS = {
+  'admin.access': 'Open the admin panel',
+  'users.ban': 'Ban and unban devices and IPs',
+  'sessions.delete': 'Delete sessions',
+  'users.manage_roles': 'Change user roles',
+  'roles.manage': 'Create and edit roles',
+  'accounts.manage': 'Manage accounts and invites',
+  'site.manage': 'Toggle the site and session lifetimes',
+  'waiting_list.manage': 'Review the waiting list',
+  'announcements.manage': 'Post announcements',
+  'chat.delete_any': 'Delete any chat message',
+  'chat.manage_rooms': 'Create, lock and archive chat rooms',
+  'chat.moderate': 'Run the word filter, mute people and handle chat reports',
+  'chat.search': 'Search and export chat history',
+  'games.manage': 'Manage games',
+  'apps.manage': 'Manage apps',
+  'ai.premium_models': 'Use premium AI models',
+  'ai.extended_quota': 'Extended weekly AI quota',
+  'ai.unlimited': 'Unlimited AI usage',
+  'agent.use': 'Use the admin agent',
+} as const;
+
+export type Permission = keyof typeof PERMISSION_LABELS;
+
+export const PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+export interface RoleSummary {
+  name: string;
+  label: string;
+  rank: number;
+}
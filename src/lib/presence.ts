@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
+
+export interface PresenceMember {
+  session_id: string;
+  username: string | null;
+  role: string;
+  last_seen_at: string;
+  is_online: boolean;
+}
+
+// Must match PRESENCE_TOPIC in supabase/functions/presence/index.ts
+export const PRESENCE_CHANNEL = 'presence';
+
+// The server keeps a session online for 75 seconds after each beat
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Tabs on this device that heartbeat recently, so only the last one to close
+// takes the device offline. Entries older than the server's window are stale.
+const OPEN_TABS_KEY = 'presence_open_tabs';
+const OPEN_TAB_WINDOW_MS = 75 * 1000;
+
+const readOpenTabs = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(OPEN_TABS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeOpenTabs = (tabs: Record<string, number>) => {
+  const cutoff = Date.now() - OPEN_TAB_WINDOW_MS;
+  const fresh = Object.fromEntries(Object.entries(tabs).filter(([, seenAt]) => seenAt > cutoff));
+  localStorage.setItem(OPEN_TABS_KEY, JSON.stringify(fresh));
+  return fresh;
+};
+
+export const markTabOpen = (tabId: string) => {
+  writeOpenTabs({ ...readOpenTabs(), [tabId]: Date.now() });
+};
+
+// Forgets this tab and reports whether another tab on the device is still open
+export const markTabClosed = (tabId: string) => {
+  const tabs = readOpenTabs();
+  delete tabs[tabId];
+  return Object.keys(writeOpenTabs(tabs)).length > 0;
+};
+
+export const invokePresence = async (action: string) => {
+  const response = await supabase.functions.invoke('presence', {
+    body: { action, session_token: getSessionToken() }
+  });
+
+  if (response.error) {
+    throw new Error(await getInvokeErrorMessage(response.error, 'Request failed'));
+  }
+  return response.data;
+};
+
+// "just now", "5m ago", "3h ago", or a date for anything older than a day
+export const formatLastSeen = (lastSeenAt: string) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 24 * 3600) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(lastSeenAt).toLocaleDateString();
+};
@@ -0,0 +1,73 @@
+const DEVICE_ID_KEY = 'deviceId';
+const SESSION_TOKEN_KEY = 'session_token';
+const SESSION_EXPIRES_KEY = 'session_token_expires_at';
+
+// Generate a unique device ID
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+// Human-readable name shown in the linked devices list, e.g. "Chrome on Windows"
+export const getDeviceLabel = (): string => {
+  const ua = navigator.userAgent;
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+      : /OPR\//.test(ua) ? 'Opera'
+        : /Firefox\//.test(ua) ? 'Firefox'
+          : /Chrome\//.test(ua) ? 'Chrome'
+            : /Safari\//.test(ua) ? 'Safari'
+              : 'Browser';
+  const os =
+    /CrOS/.test(ua) ? 'ChromeOS'
+      : /Android/.test(ua) ? 'Android'
+        : /iPhone|iPad|iPod/.test(ua) ? 'iOS'
+          : /Windows/.test(ua) ? 'Windows'
+            : /Mac OS X/.test(ua) ? 'macOS'
+              : /Linux/.test(ua) ? 'Linux'
+                : 'Unknown OS';
+  return `${browser} on ${os}`;
+};
+
+// Signed session token issued by the authenticate function.
+// Every edge function call sends this instead of the raw device ID.
+export const getSessionToken = (): string => {
+  return localStorage.getItem(SESSION_TOKEN_KEY) || '';
+};
+
+export const getSessionTokenExpiry = (): number | null => {
+  const expiresAt = localStorage.getItem(SESSION_EXPIRES_KEY);
+  if (!expiresAt) return null;
+  const time = new Date(expiresAt).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+export const setSessionToken = (token: string, expiresAt: string) => {
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+  localStorage.setItem(SESSION_EXPIRES_KEY, expiresAt);
+};
+
+export const clearSessionToken = () => {
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+  localStorage.removeItem(SESSION_EXPIRES_KEY);
+};
+
+// Proves ownership of this device's waiting list entry so the applicant can
+// edit it while it is pending. Issued by authenticate alongside the request.
+const ACCESS_REQUEST_TOKEN_KEY = 'access_request_token';
+
+export const getAccessRequestToken = (): string => {
+  return localStorage.getItem(ACCESS_REQUEST_TOKEN_KEY) || '';
+};
+
+export const setAccessRequestToken = (token: string) => {
+  localStorage.setItem(ACCESS_REQUEST_TOKEN_KEY, token);
+};
+
+export const clearAccessRequestToken = () => {
+  localStorage.removeItem(ACCESS_REQUEST_TOKEN_KEY);
+};
@@ -6,6 +6,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   DropdownMenu,
@@ -39,15 +40,6 @@ const AVAILABLE_MODELS: AIModel[] = [
   { id: 'openai/gpt-5', name: 'GPT-5', cost: '$0.50/1K' },
 ];
 
-const getDeviceId = (): string => {
-  let deviceId = localStorage.getItem('deviceId');
-  if (!deviceId) {
-    deviceId = crypto.randomUUID();
-    localStorage.setItem('deviceId', deviceId);
-  }
-  return deviceId;
-};
-
 // NOTE: Usage limits are now enforced SERVER-SIDE in the ai-chat edge function.
 // The server will return a 429 error when weekly limit is exceeded.
 
@@ -58,10 +50,11 @@ export const AI = () => {
   const [isLimitReached, setIsLimitReached] = useState(false);
   const [selectedModel, setSelectedModel] = useState<AIModel>(AVAILABLE_MODELS[0]);
   const { toast } = useToast();
-  const { isAdmin, isOwner } = useAuth();
+  const { can } = useAuth();
 
-  // Owners have unlimited access
-  const hasUnlimitedAccess = isOwner;
+  const hasUnlimitedAccess = can('ai.unlimited');
+  const hasExtendedQuota = can('ai.extended_quota');
+  const hasPremiumAccess = can('ai.premium_models');
 
   const sendMessage = async () => {
     if (!input.trim() || isLoading || isLimitReached) return;
@@ -72,8 +65,6 @@ export const AI = () => {
     setIsLoading(true);
 
     try {
-      const device_id = getDeviceId();
-      
       // Build the messages array for Gemini format
       const geminiMessages = [
         ...messages.map(msg => ({
@@ -86,13 +77,12 @@ export const AI = () => {
         }
       ];
 
-      // Premium users (admin/owner) can choose model, regular users get cheapest
-      const hasPremiumAccess = isAdmin || isOwner;
+      // Premium users can choose the model, everyone else gets the cheapest
       const modelToUse = hasPremiumAccess ? selectedModel.id : DEFAULT_MODEL;
 
       // Call the secure edge function (limits enforced server-side)
       const { data, error } = await supabase.functions.invoke('ai-chat', {
-        body: { messages: geminiMessages, device_id, model: modelToUse }
+        body: { messages: geminiMessages, session_token: getSessionToken(), model: modelToUse }
       });
 
       if (error) {
@@ -139,12 +129,12 @@ export const AI = () => {
           <h1 className="text-2xl font-bold text-foreground">AI Assistant</h1>
         </div>
         <div className="flex items-center gap-3">
-          {/* Premium model selector for admins and owners */}
-          {(isAdmin || isOwner) && (
+          {/* Premium model selector */}
+          {hasPremiumAccess && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm" className="gap-2">
-                  <Crown className={cn("h-4 w-4", isOwner ? "text-purple-500" : "text-yellow-500")} />
+                  <Crown className={cn("h-4 w-4", hasUnlimitedAccess ? "text-purple-500" : "text-yellow-500")} />
                   {selectedModel.name}
                   <span className="text-xs text-muted-foreground">({selectedModel.cost})</span>
                   <ChevronDown className="h-3 w-3" />
@@ -173,7 +163,7 @@ export const AI = () => {
             "flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-mono",
             hasUnlimitedAccess 
               ? "bg-purple-500/10 text-purple-500"
-              : isAdmin
+              : hasExtendedQuota
                 ? "bg-yellow-500/10 text-yellow-500"
                 : isLimitReached
                   ? "bg-destructive/10 text-destructive"
@@ -184,10 +174,10 @@ export const AI = () => {
                 <Crown className="h-4 w-4" />
                 Unlimited
               </>
-            ) : isAdmin ? (
+            ) : hasExtendedQuota ? (
               <>
                 <Crown className="h-4 w-4" />
-                Admin (10/week)
+                Extended (10/week)
               </>
             ) : (
               <span>{isLimitReached ? 'Limit reached' : 'User (5/week)'}</span>
@@ -204,8 +194,8 @@ export const AI = () => {
               <Sparkles className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>
                 {hasUnlimitedAccess 
-                  ? "Ask me anything! You have unlimited messages as an owner."
-                  : isAdmin
+                  ? "Ask me anything! You have unlimited messages."
+                  : hasExtendedQuota
                     ? "Ask me anything! You have 10 questions per week."
                     : "Ask me anything! You have 5 questions per week."
                 }
@@ -1,12 +1,26 @@
 import { useState, useEffect } from 'react';
-import { Shield, Ban, Trash2, RefreshCw, Users, MessageCircle, Power, UserCog, Crown, Megaphone, Plus, ToggleLeft, ToggleRight } from 'lucide-react';
+import { Shield, Ban, Trash2, RefreshCw, Users, MessageCircle, Power, UserCog, Crown, Megaphone, Plus, ToggleLeft, ToggleRight, LockKeyhole, VolumeX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
+import { getInvokeErrorMessage } from '@/lib/functions';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence } from '@/contexts/PresenceContext';
+import { AccountsPanel } from '@/components/AccountsPanel';
+import { SessionPolicyPanel } from '@/components/SessionPolicyPanel';
+import { RolesPanel } from '@/components/RolesPanel';
+import { ChatPolicyPanel } from '@/components/ChatPolicyPanel';
+import { ChatFilterPanel } from '@/components/ChatFilterPanel';
+import { ModerationQueuePanel } from '@/components/ModerationQueuePanel';
+import { ChatSearchPanel } from '@/components/ChatSearchPanel';
+import { ChatMarkdown } from '@/components/ChatMarkdown';
+import type { RoleSummary } from '@/lib/permissions';
+import { formatRemaining, type ChatMute } from '@/lib/chat-mutes';
+import { formatLastSeen } from '@/lib/presence';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -30,6 +44,10 @@ interface SessionData {
   is_banned: boolean;
   created_at: string;
   last_active_at: string;
+  // Latest presence heartbeat; null until the session opens a tab after presence shipped
+  last_seen_at: string | null;
+  // Aggregate of linked devices, e.g. [{ count: 2 }]
+  session_devices?: { count: number }[];
 }
 
 interface BannedDevice {
@@ -39,11 +57,34 @@ interface BannedDevice {
   reason: string | null;
 }
 
+interface Lockout {
+  id: string;
+  source_type: 'ip' | 'device';
+  source: string;
+  failed_count: number;
+  locked_until: string;
+  last_failed_at: string;
+}
+
+interface ChatMuteRow extends ChatMute {
+  // Null when the word filter applied the mute
+  created_by: string | null;
+  created_at: string;
+}
+
 interface ChatMessage {
   id: string;
   session_id: string;
   message: string;
   created_at: string;
+  edited_at: string | null;
+  attachments?: { kind: 'image' | 'file'; file_name: string }[];
+}
+
+interface MessageRevision {
+  id: string;
+  message: string;
+  created_at: string;
 }
 
 interface Profile {
@@ -60,19 +101,19 @@ interface Announcement {
   is_active: boolean;
 }
 
-const getDeviceId = (): string => {
-  let deviceId = localStorage.getItem('deviceId');
-  if (!deviceId) {
-    deviceId = crypto.randomUUID();
-    localStorage.setItem('deviceId', deviceId);
-  }
-  return deviceId;
-};
-
 export const Admin = () => {
   const [sessions, setSessions] = useState<SessionData[]>([]);
   const [bannedDevices, setBannedDevices] = useState<BannedDevice[]>([]);
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
+  const [chatMutes, setChatMutes] = useState<ChatMuteRow[]>([]);
+  const [roles, setRoles] = useState<RoleSummary[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Set while older chat history is available from admin-data
+  const [chatMessagesCursor, setChatMessagesCursor] = useState<string | null>(null);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  // Edit history, loaded when an edited message is expanded
+  const [revisions, setRevisions] = useState<Record<string, MessageRevision[]>>({});
+  const [expandedMessageId, setExpandedMessageId] = useState<string | null>(null);
   const [profiles, setProfiles] = useState<Record<string, string>>({});
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -82,18 +123,17 @@ export const Admin = () => {
   const [newAnnouncementText, setNewAnnouncementText] = useState('');
   const [announcementExpiry, setAnnouncementExpiry] = useState('');
   const [isCreatingAnnouncement, setIsCreatingAnnouncement] = useState(false);
-  const { session: currentSession, isOwner } = useAuth();
+  const { session: currentSession, can } = useAuth();
+  const { isOnline, onlineCount } = usePresence();
   const { toast } = useToast();
 
   const fetchData = async () => {
     setIsLoading(true);
     
     try {
-      const device_id = getDeviceId();
-      
       // Fetch admin data through secure edge function
       const { data, error } = await supabase.functions.invoke('admin-data', {
-        body: { device_id }
+        body: { session_token: getSessionToken() }
       });
 
       if (error) {
@@ -118,7 +158,11 @@ export const Admin = () => {
 
       setSessions(data.sessions || []);
       setBannedDevices(data.bannedDevices || []);
+      setLockouts(data.lockouts || []);
+      setChatMutes(data.chatMutes || []);
+      setRoles(data.roles || []);
       setChatMessages(data.chatMessages || []);
+      setChatMessagesCursor(data.chatMessagesCursor ?? null);
       
       // Build profile map
       const profileMap: Record<string, string> = {};
@@ -161,12 +205,71 @@ export const Admin = () => {
     }
   };
 
+  const toggleRevisions = async (messageId: string) => {
+    if (expandedMessageId === messageId) {
+      setExpandedMessageId(null);
+      return;
+    }
+    setExpandedMessageId(messageId);
+
+    try {
+      const response = await supabase.functions.invoke('admin-data', {
+        body: { session_token: getSessionToken(), revisions_for: messageId }
+      });
+
+      if (response.error) {
+        throw new Error(await getInvokeErrorMessage(response.error, 'Failed to load edit history'));
+      }
+      setRevisions(prev => ({ ...prev, [messageId]: response.data.revisions || [] }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to load edit history',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    if (!chatMessagesCursor) return;
+
+    setIsLoadingMessages(true);
+    try {
+      const response = await supabase.functions.invoke('admin-data', {
+        body: { session_token: getSessionToken(), messages_before: chatMessagesCursor }
+      });
+
+      if (response.error) {
+        throw new Error(await getInvokeErrorMessage(response.error, 'Failed to load messages'));
+      }
+
+      const olderMessages: ChatMessage[] = response.data.chatMessages || [];
+      setChatMessages(prev => [...prev, ...olderMessages.filter(m => !prev.some(p => p.id === m.id))]);
+      setChatMessagesCursor(response.data.chatMessagesCursor ?? null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to load messages',
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingMessages(false);
+    }
+  };
+
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Mirrors the server's hierarchy: only roles ranked below yours can be acted on
+  const getRoleRank = (role: string | undefined) => roles.find(r => r.name === role)?.rank ?? 0;
+  const callerRank = getRoleRank(currentSession?.role);
+  const outranks = (role: string | undefined) => getRoleRank(role) < callerRank;
+  const assignableRoles = roles.filter(r => r.name !== 'owner' && r.rank < callerRank);
+
   const banDevice = async (targetDeviceId: string) => {
-    if (targetDeviceId === currentSession?.device_id) {
+    const targetSession = sessions.find(s => s.device_id === targetDeviceId);
+    if (targetDeviceId === currentSession?.device_id || targetSession?.id === currentSession?.id) {
       toast({
         title: "Cannot ban yourself",
         variant: "destructive"
@@ -174,7 +277,6 @@ export const Admin = () => {
       return;
     }
 
-    const targetSession = sessions.find(s => s.device_id === targetDeviceId);
     if (targetSession?.role === 'owner') {
       toast({
         title: "Action blocked",
@@ -184,22 +286,20 @@ export const Admin = () => {
       return;
     }
 
-    if (targetSession?.role === 'admin' && !isOwner) {
+    if (!outranks(targetSession?.role)) {
       toast({
         title: "Action blocked",
-        description: "Only owners can ban admins",
+        description: "You can only ban roles ranked below yours",
         variant: "destructive"
       });
       return;
     }
 
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('admin-operations', {
         body: { 
           action: 'ban_device',
-          device_id,
+          session_token: getSessionToken(),
           target_device_id: targetDeviceId
         }
       });
@@ -238,14 +338,47 @@ export const Admin = () => {
     }
   };
 
+  const clearLockout = async (lockout: Lockout) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-operations', {
+        body: { 
+          action: 'clear_lockout',
+          session_token: getSessionToken(),
+          target_attempt_id: lockout.id
+        }
+      });
+
+      if (error || data?.error) {
+        toast({
+          title: "Failed to clear lockout",
+          description: data?.error || error?.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      toast({
+        title: "Lockout cleared",
+        description: `${lockout.source_type === 'ip' ? 'IP' : 'Device'} can try logging in again.`
+      });
+
+      fetchData();
+    } catch (err) {
+      console.error('Clear lockout error:', err);
+      toast({
+        title: "Error",
+        description: "Failed to clear lockout",
+        variant: "destructive"
+      });
+    }
+  };
+
   const unbanDevice = async (targetDeviceId: string) => {
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('admin-operations', {
         body: { 
           action: 'unban_device',
-          device_id,
+          session_token: getSessionToken(),
           target_device_id: targetDeviceId
         }
       });
@@ -284,8 +417,28 @@ export const Admin = () => {
     }
   };
 
+  const unmuteSession = async (mute: ChatMuteRow) => {
+    try {
+      const response = await supabase.functions.invoke('admin-operations', {
+        body: { action: 'unmute_session', session_token: getSessionToken(), target_mute_id: mute.id }
+      });
+
+      if (response.error) {
+        throw new Error(await getInvokeErrorMessage(response.error, 'Failed to unmute user'));
+      }
+      toast({ title: "User unmuted", description: `${getUsername(mute.session_id)} can chat again.` });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Failed to unmute user",
+        description: error instanceof Error ? error.message : 'Failed to unmute user',
+        variant: "destructive"
+      });
+    }
+  };
+
   const deleteSession = async (sessionId: string, targetDeviceId: string) => {
-    if (targetDeviceId === currentSession?.device_id) {
+    if (targetDeviceId === currentSession?.device_id || sessionId === currentSession?.id) {
       toast({
         title: "Cannot delete your own session",
         variant: "destructive"
@@ -294,12 +447,10 @@ export const Admin = () => {
     }
 
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('admin-operations', {
         body: { 
           action: 'delete_session',
-          device_id,
+          session_token: getSessionToken(),
           target_session_id: sessionId,
           target_device_id: targetDeviceId
         }
@@ -347,17 +498,16 @@ export const Admin = () => {
   };
 
   const toggleSite = async () => {
-    if (!isOwner) return;
+    if (!can('site.manage')) return;
     
     setIsTogglingSite(true);
     try {
-      const device_id = getDeviceId();
       const newEnabled = !siteEnabled;
       
       const { data, error } = await supabase.functions.invoke('admin-operations', {
         body: { 
           action: 'toggle_site',
-          device_id,
+          session_token: getSessionToken(),
           enabled: newEnabled
         }
       });
@@ -391,15 +541,13 @@ export const Admin = () => {
   };
 
   const changeUserRole = async (targetDeviceId: string, newRole: string) => {
-    if (!isOwner) return;
+    if (!can('users.manage_roles')) return;
 
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('admin-operations', {
         body: { 
           action: 'change_role',
-          device_id,
+          session_token: getSessionToken(),
           target_device_id: targetDeviceId,
           new_role: newRole
         }
@@ -442,13 +590,12 @@ export const Admin = () => {
 
     setIsCreatingAnnouncement(true);
     try {
-      const device_id = getDeviceId();
       const expiresHours = announcementExpiry ? parseInt(announcementExpiry) : null;
       
       const { data, error } = await supabase.functions.invoke('manage-announcements', {
         body: { 
           action: 'create',
-          device_id,
+          session_token: getSessionToken(),
           message: newAnnouncementText.trim(),
           expires_hours: expiresHours
         }
@@ -486,12 +633,10 @@ export const Admin = () => {
 
   const deleteAnnouncement = async (announcementId: string) => {
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('manage-announcements', {
         body: { 
           action: 'delete',
-          device_id,
+          session_token: getSessionToken(),
           announcement_id: announcementId
         }
       });
@@ -522,12 +667,10 @@ export const Admin = () => {
 
   const toggleAnnouncement = async (announcementId: string) => {
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('manage-announcements', {
         body: { 
           action: 'toggle',
-          device_id,
+          session_token: getSessionToken(),
           announcement_id: announcementId
         }
       });
@@ -580,12 +723,12 @@ export const Admin = () => {
         </Button>
       </div>
 
-      {/* Owner Controls */}
-      {isOwner && (
+      {/* Site Controls */}
+      {can('site.manage') && (
         <section className="space-y-4">
           <div className="flex items-center gap-2">
             <Crown className="h-5 w-5 text-purple-500" />
-            <h2 className="font-mono font-bold text-purple-500">Owner Controls</h2>
+            <h2 className="font-mono font-bold text-purple-500">Site Controls</h2>
           </div>
           
           <div className="border border-purple-500/30 rounded-lg p-4 bg-purple-500/5">
@@ -617,11 +760,32 @@ export const Admin = () => {
         </section>
       )}
 
+      {/* Accounts & Invites */}
+      {can('accounts.manage') && <AccountsPanel roles={assignableRoles} />}
+
+      {/* Session Lifetimes */}
+      {can('site.manage') && <SessionPolicyPanel roles={assignableRoles} />}
+
+      {/* Chat Settings */}
+      {can('site.manage') && <ChatPolicyPanel />}
+
+      {/* Moderation Queue */}
+      {can('chat.moderate') && (
+        <ModerationQueuePanel canDelete={can('chat.delete_any')} canBan={can('users.ban')} />
+      )}
+
+      {/* Word Filter */}
+      {can('chat.moderate') && <ChatFilterPanel />}
+
+      {/* Roles & Permissions */}
+      {can('roles.manage') && <RolesPanel onChange={fetchData} />}
+
       {/* Active Sessions */}
       <section className="space-y-4">
         <div className="flex items-center gap-2">
           <Users className="h-5 w-5 text-primary" />
           <h2 className="font-mono font-bold">Active Sessions ({sessions.length})</h2>
+          <span className="text-xs font-mono text-green-500">{onlineCount} online</span>
         </div>
         
         <div className="border border-border rounded-lg overflow-hidden">
@@ -632,30 +796,35 @@ export const Admin = () => {
                 <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Device ID</th>
                 <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Role</th>
                 <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Status</th>
-                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Last Active</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Last Seen</th>
                 <th className="px-4 py-3 text-right text-xs font-mono text-muted-foreground">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-border">
-              {sessions.map((sess) => (
+              {[...sessions].sort((a, b) => Number(isOnline(b.id)) - Number(isOnline(a.id))).map((sess) => (
                 <tr 
                   key={sess.id} 
                   className={cn(
                     "hover:bg-secondary/50 transition-colors",
-                    sess.device_id === currentSession?.device_id && "bg-primary/5"
+                    sess.id === currentSession?.id && "bg-primary/5"
                   )}
                 >
                   <td className="px-4 py-3 font-medium">
                     {getUsername(sess.id)}
-                    {sess.device_id === currentSession?.device_id && (
+                    {sess.id === currentSession?.id && (
                       <span className="ml-2 text-xs text-primary">(You)</span>
                     )}
                   </td>
                   <td className="px-4 py-3 font-mono text-sm text-muted-foreground">
                     {sess.device_id.slice(0, 8)}...
+                    {(sess.session_devices?.[0]?.count ?? 1) > 1 && (
+                      <span className="ml-2 text-xs text-primary">
+                        +{(sess.session_devices?.[0]?.count ?? 1) - 1} linked
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-3">
-                    {isOwner && sess.device_id !== currentSession?.device_id && sess.role !== 'owner' ? (
+                    {can('users.manage_roles') && sess.id !== currentSession?.id && sess.role !== 'owner' && outranks(sess.role) ? (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button 
@@ -675,18 +844,15 @@ export const Admin = () => {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent>
-                          <DropdownMenuItem 
-                            onClick={() => changeUserRole(sess.device_id, 'user')}
-                            className={sess.role === 'user' ? "bg-primary/10" : ""}
-                          >
-                            User
-                          </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => changeUserRole(sess.device_id, 'admin')}
-                            className={sess.role === 'admin' ? "bg-primary/10" : ""}
-                          >
-                            Admin
-                          </DropdownMenuItem>
+                          {assignableRoles.map((role) => (
+                            <DropdownMenuItem 
+                              key={role.name}
+                              onClick={() => changeUserRole(sess.device_id, role.name)}
+                              className={sess.role === role.name ? "bg-primary/10" : ""}
+                            >
+                              {role.label}
+                            </DropdownMenuItem>
+                          ))}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     ) : (
@@ -705,41 +871,54 @@ export const Admin = () => {
                   <td className="px-4 py-3">
                     <span className={cn(
                       "px-2 py-1 rounded-full text-xs font-mono",
-                      sess.is_banned ? "bg-destructive/20 text-destructive" : "bg-green-500/20 text-green-500"
+                      sess.is_banned
+                        ? "bg-destructive/20 text-destructive"
+                        : isOnline(sess.id)
+                          ? "bg-green-500/20 text-green-500"
+                          : "bg-secondary text-muted-foreground"
                     )}>
-                      {sess.is_banned ? 'Banned' : 'Active'}
+                      {sess.is_banned ? 'Banned' : isOnline(sess.id) ? 'Online' : 'Offline'}
                     </span>
                   </td>
                   <td className="px-4 py-3 text-sm text-muted-foreground">
-                    {formatDate(sess.last_active_at)}
+                    {isOnline(sess.id)
+                      ? 'Now'
+                      : sess.last_seen_at
+                        ? <span title={formatDate(sess.last_seen_at)}>{formatLastSeen(sess.last_seen_at)}</span>
+                        : formatDate(sess.last_active_at)}
                   </td>
                   <td className="px-4 py-3 text-right space-x-2">
-                    {sess.device_id !== currentSession?.device_id && (
+                    {sess.id !== currentSession?.id && (
                       <>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => banDevice(sess.device_id)}
-                          disabled={sess.role === 'owner' || (sess.role === 'admin' && !isOwner)}
-                          title={
-                            sess.role === 'owner'
-                              ? 'Cannot ban an owner'
-                              : sess.role === 'admin' && !isOwner
-                                ? 'Only owners can ban admins'
-                                : 'Ban device'
-                          }
-                          className="h-8 w-8 text-destructive hover:text-destructive"
-                        >
-                          <Ban className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => deleteSession(sess.id, sess.device_id)}
-                          className="h-8 w-8"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {can('users.ban') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => banDevice(sess.device_id)}
+                            disabled={sess.role === 'owner' || !outranks(sess.role)}
+                            title={
+                              sess.role === 'owner'
+                                ? 'Cannot ban an owner'
+                                : !outranks(sess.role)
+                                  ? 'You can only ban roles ranked below yours'
+                                  : 'Ban device'
+                            }
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('sessions.delete') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteSession(sess.id, sess.device_id)}
+                            disabled={!outranks(sess.role)}
+                            className="h-8 w-8"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </>
                     )}
                   </td>
@@ -803,6 +982,109 @@ export const Admin = () => {
         </div>
       </section>
 
+      {/* Chat Mutes */}
+      <section className="space-y-4">
+        <div className="flex items-center gap-2">
+          <VolumeX className="h-5 w-5 text-amber-500" />
+          <h2 className="font-mono font-bold">Muted in Chat ({chatMutes.length})</h2>
+        </div>
+
+        <div className="border border-border rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-secondary">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">User</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Reason</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Muted By</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Ends In</th>
+                <th className="px-4 py-3 text-right text-xs font-mono text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {chatMutes.map((mute) => (
+                <tr key={mute.id} className="hover:bg-secondary/50 transition-colors">
+                  <td className="px-4 py-3 text-sm">{getUsername(mute.session_id)}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{mute.reason}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {mute.created_by ? getUsername(mute.created_by) : 'Word filter'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground" title={formatDate(mute.expires_at)}>
+                    {formatRemaining(Math.max(0, Math.ceil((new Date(mute.expires_at).getTime() - Date.now()) / 1000)))}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {can('chat.moderate') && (
+                      <Button variant="outline" size="sm" onClick={() => unmuteSession(mute)}>
+                        Unmute
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {chatMutes.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-muted-foreground">
+                    Nobody is muted
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Login Lockouts */}
+      <section className="space-y-4">
+        <div className="flex items-center gap-2">
+          <LockKeyhole className="h-5 w-5 text-warning" />
+          <h2 className="font-mono font-bold">Login Lockouts ({lockouts.length})</h2>
+        </div>
+        
+        <div className="border border-border rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-secondary">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Source</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Failed Attempts</th>
+                <th className="px-4 py-3 text-left text-xs font-mono text-muted-foreground">Locked Until</th>
+                <th className="px-4 py-3 text-right text-xs font-mono text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {lockouts.map((lockout) => (
+                <tr key={lockout.id} className="hover:bg-secondary/50 transition-colors">
+                  <td className="px-4 py-3 font-mono text-sm">
+                    <span className="mr-2 px-2 py-1 rounded-full text-xs bg-secondary text-muted-foreground">
+                      {lockout.source_type === 'ip' ? 'IP' : 'Device'}
+                    </span>
+                    {lockout.source_type === 'device' ? `${lockout.source.slice(0, 8)}...` : lockout.source}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{lockout.failed_count}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {formatDate(lockout.locked_until)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => clearLockout(lockout)}
+                    >
+                      Clear
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {lockouts.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-8 text-center text-muted-foreground">
+                    No locked-out sources
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
       {/* Announcements */}
       <section className="space-y-4">
         <div className="flex items-center justify-between">
@@ -926,7 +1208,7 @@ export const Admin = () => {
       <section className="space-y-4">
         <div className="flex items-center gap-2">
           <MessageCircle className="h-5 w-5 text-primary" />
-          <h2 className="font-mono font-bold">Chat Messages ({chatMessages.length})</h2>
+          <h2 className="font-mono font-bold">Chat Messages ({chatMessages.length}{chatMessagesCursor ? '+' : ''})</h2>
         </div>
         
         <div className="border border-border rounded-lg overflow-hidden">
@@ -948,7 +1230,34 @@ export const Admin = () => {
                         {formatDate(msg.created_at)}
                       </span>
                     </div>
-                    <p className="text-sm text-muted-foreground">{msg.message}</p>
+                    <div className="text-sm text-muted-foreground break-words">
+                      <ChatMarkdown text={msg.message} />
+                      {msg.attachments && msg.attachments.length > 0 && (
+                        <span className="block text-xs font-mono">
+                          Attached: {msg.attachments.map(a => a.file_name).join(', ')}
+                        </span>
+                      )}
+                      {msg.edited_at && (
+                        <button
+                          type="button"
+                          onClick={() => toggleRevisions(msg.id)}
+                          className="ml-2 text-xs text-primary hover:underline"
+                          title={`Edited ${formatDate(msg.edited_at)}`}
+                        >
+                          {expandedMessageId === msg.id ? '(hide edits)' : '(edited)'}
+                        </button>
+                      )}
+                    </div>
+                    {expandedMessageId === msg.id && (
+                      <ul className="mt-2 space-y-1 border-l-2 border-border pl-3">
+                        {(revisions[msg.id] || []).map((revision) => (
+                          <li key={revision.id} className="text-xs text-muted-foreground">
+                            <span className="font-mono">{formatDate(revision.created_at)}</span>
+                            {' '}<span className="line-through">{revision.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 );
               })}
@@ -957,10 +1266,20 @@ export const Admin = () => {
                   No chat messages yet
                 </div>
               )}
+              {chatMessagesCursor && (
+                <div className="px-4 py-3 text-center">
+                  <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={isLoadingMessages}>
+                    {isLoadingMessages ? 'Loading...' : 'Load older messages'}
+                  </Button>
+                </div>
+              )}
             </div>
           </ScrollArea>
         </div>
       </section>
+
+      {/* Chat Search */}
+      {can('chat.search') && <ChatSearchPanel />}
     </div>
   );
 };
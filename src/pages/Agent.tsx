@@ -6,6 +6,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   DropdownMenu,
@@ -40,30 +41,22 @@ const AVAILABLE_MODELS: AIModel[] = [
   { id: 'openai/gpt-5', name: 'GPT-5', cost: '$0.50/1K' },
 ];
 
-const getDeviceId = (): string => {
-  let deviceId = localStorage.getItem('deviceId');
-  if (!deviceId) {
-    deviceId = crypto.randomUUID();
-    localStorage.setItem('deviceId', deviceId);
-  }
-  return deviceId;
-};
-
 export const Agent = () => {
   const [messages, setMessages] = useState<AgentMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [selectedModel, setSelectedModel] = useState<AIModel>(AVAILABLE_MODELS[1]); // Default to Gemini Flash
   const { toast } = useToast();
-  const { isOwner } = useAuth();
+  const { can } = useAuth();
+  const canUseAgent = can('agent.use');
 
   const sendCommand = async () => {
     if (!input.trim() || isLoading) return;
 
-    if (!isOwner) {
+    if (!canUseAgent) {
       toast({
         title: "Access Denied",
-        description: "Only owners can use the Agent.",
+        description: "You do not have access to the Agent.",
         variant: "destructive"
       });
       return;
@@ -75,10 +68,8 @@ export const Agent = () => {
     setIsLoading(true);
 
     try {
-      const device_id = getDeviceId();
-      
       const { data, error } = await supabase.functions.invoke('owner-agent', {
-        body: { device_id, command: userMessage.content, model: selectedModel.id }
+        body: { session_token: getSessionToken(), command: userMessage.content, model: selectedModel.id }
       });
 
       if (error) {
@@ -126,12 +117,12 @@ export const Agent = () => {
     }
   };
 
-  if (!isOwner) {
+  if (!canUseAgent) {
     return (
       <div className="h-screen flex flex-col items-center justify-center p-6">
         <Crown className="h-16 w-16 text-purple-500 mb-4 opacity-50" />
-        <h1 className="text-2xl font-bold text-foreground mb-2">Owner Access Required</h1>
-        <p className="text-muted-foreground">Only owners can access the Agent.</p>
+        <h1 className="text-2xl font-bold text-foreground mb-2">Agent Access Required</h1>
+        <p className="text-muted-foreground">You do not have access to the Agent.</p>
       </div>
     );
   }
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
 import { toast } from 'sonner';
 import { Card, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,15 +30,6 @@ interface App {
   created_at: string;
 }
 
-const getDeviceId = () => {
-  let deviceId = localStorage.getItem('deviceId');
-  if (!deviceId) {
-    deviceId = crypto.randomUUID();
-    localStorage.setItem('deviceId', deviceId);
-  }
-  return deviceId;
-};
-
 async function getInvokeErrorMessage(err: any): Promise<string> {
   const fallback = err?.message || 'Request failed';
 
@@ -65,7 +57,7 @@ function fileToDataUrl(file: File): Promise<string> {
 }
 
 export default function Apps() {
-  const { session, isOwner } = useAuth();
+  const { session, can } = useAuth();
   const [apps, setApps] = useState<App[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -115,7 +107,7 @@ export default function Apps() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const canManage = useMemo(() => !!session && isOwner, [session, isOwner]);
+  const canManage = !!session && can('apps.manage');
 
   const fetchApps = async () => {
     const { data, error } = await supabase.from('apps').select('*').order('created_at', { ascending: false });
@@ -209,7 +201,7 @@ export default function Apps() {
       const response = await supabase.functions.invoke('manage-apps', {
         body: {
           action: 'add',
-          device_id: getDeviceId(),
+          session_token: getSessionToken(),
           title: title.trim(),
           source_code: htmlFile ? null : sourceCode.trim(),
           html_base64: htmlBase64,
@@ -262,7 +254,7 @@ export default function Apps() {
       const response = await supabase.functions.invoke('manage-apps', {
         body: {
           action: 'update',
-          device_id: getDeviceId(),
+          session_token: getSessionToken(),
           app_id: editingApp.id,
           title: editTitle.trim(),
           source_code: editHtmlFile ? null : editSourceCode?.trim(),
@@ -304,7 +296,7 @@ export default function Apps() {
       const response = await supabase.functions.invoke('manage-apps', {
         body: {
           action: 'delete',
-          device_id: getDeviceId(),
+          session_token: getSessionToken(),
           app_id: appId,
         },
       });
@@ -1,20 +1,65 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { Terminal, Send, Users, Undo2, Trash2, EyeOff, Shield, Crown } from 'lucide-react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Terminal, Send, Users, Undo2, Trash2, EyeOff, Shield, Crown, MessageSquare, ArrowDown, Reply, SmilePlus, X, Pencil, Timer, VolumeX, Paperclip, FileText, ImageIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
+import { readInvokeErrorBody } from '@/lib/functions';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
 import { AnnouncementBanner } from '@/components/AnnouncementBanner';
 import { TypingIndicator } from '@/components/TypingIndicator';
+import { ChatRoomList } from '@/components/ChatRoomList';
+import { ChatRoomSettings } from '@/components/ChatRoomSettings';
+import { DirectMessageList } from '@/components/DirectMessageList';
+import { DirectMessageThread } from '@/components/DirectMessageThread';
+import { MuteUserPopover } from '@/components/MuteUserPopover';
+import { ReportMessageDialog } from '@/components/ReportMessageDialog';
+import { ChatMemberList } from '@/components/ChatMemberList';
+import { ChatMarkdown } from '@/components/ChatMarkdown';
+import { ChatAttachmentList } from '@/components/ChatAttachmentList';
+import { useDirectMessages } from '@/contexts/DirectMessagesContext';
+import { usePresence } from '@/contexts/PresenceContext';
+import { invokeDirectMessages } from '@/lib/direct-messages';
+import {
+  DEFAULT_CHAT_POLICY,
+  MENTION_PATTERN,
+  REACTION_EMOJIS,
+  fetchChatPolicy,
+  mentionFor,
+  mentionKey,
+  summarizeReactions,
+  type ChatReaction,
+} from '@/lib/chat-messages';
+import { chatStatusChannel, formatRemaining, type ChatMute } from '@/lib/chat-mutes';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  invokeChatAttachments,
+  uploadChatAttachment,
+  type ChatAttachment,
+  type PendingAttachment,
+} from '@/lib/chat-attachments';
+import { cn } from '@/lib/utils';
+import { CHAT_ROOMS_CHANNEL, chatRoomChannel, formatSlowMode, invokeChatRooms, type ChatRoom } from '@/lib/chat-rooms';
 
 interface ChatMessage {
   id: string;
   message: string;
   session_id: string;
+  room_id: string;
+  reply_to_id?: string | null;
+  // Preview of the replied-to message, embedded by chat-rooms
+  reply_to?: Pick<ChatMessage, 'id' | 'message' | 'session_id' | 'deleted_at'> | null;
+  reactions?: ChatReaction[];
+  attachments?: ChatAttachment[];
   created_at: string;
+  edited_at?: string | null;
   deleted_at?: string | null;
   hidden_for_session_ids?: string[];
 }
@@ -38,6 +83,13 @@ interface SessionRole {
   role: 'user' | 'admin' | 'owner';
 }
 
+// Applies fetched messages on top of what is shown, keeping chronological order
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const byId = new Map(current.map(m => [m.id, m]));
+  incoming.forEach(m => byId.set(m.id, m));
+  return Array.from(byId.values()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
 const generateColor = (str: string) => {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
@@ -48,81 +100,240 @@ const generateColor = (str: string) => {
 };
 
 export const Chat = () => {
+  const [rooms, setRooms] = useState<ChatRoom[]>([]);
+  const [canManageRooms, setCanManageRooms] = useState(false);
+  const [activeRoomId, setActiveRoomId] = useState<string | null>(null);
+  // An open DM thread takes the place of the room feed
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Cursor for the next older page; null once the start of the room is loaded
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [showJumpToLatest, setShowJumpToLatest] = useState(false);
   const [profiles, setProfiles] = useState<Record<string, string>>({});
   const [sessionRoles, setSessionRoles] = useState<Record<string, 'user' | 'admin' | 'owner'>>({});
   const [newMessage, setNewMessage] = useState('');
-  const [onlineCount, setOnlineCount] = useState(1);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  // While set, the input edits this message instead of sending a new one
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [chatPolicy, setChatPolicy] = useState(DEFAULT_CHAT_POLICY);
+  // When the server will accept the next message after a rate limit or slow mode
+  const [cooldown, setCooldown] = useState<{ until: number; reason: string } | null>(null);
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
+  // Set while a moderator or the word filter has muted this session
+  const [mute, setMute] = useState<ChatMute | null>(null);
+  const [muteSeconds, setMuteSeconds] = useState(0);
+  const [showMembers, setShowMembers] = useState(false);
+  // Uploaded files waiting to go out with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [hasShownWelcome, setHasShownWelcome] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const { session, isAdmin, isOwner } = useAuth();
+  // Follow new messages only while the user is reading the bottom of the feed
+  const stickToBottomRef = useRef(true);
+  // Distance from the bottom to keep when older messages are added above
+  const restoreOffsetRef = useRef<number | null>(null);
+  const activeRoomIdRef = useRef<string | null>(null);
+  const { session, can } = useAuth();
   const { toast } = useToast();
+  const { threads: dmThreads, refresh: refreshDms } = useDirectMessages();
+  const { members, onlineCount } = usePresence();
 
   // Owner or admin can delete messages
-  const canModerate = isAdmin || isOwner;
+  const canModerate = can('chat.delete_any');
+  const canMute = can('chat.moderate');
+  const sessionId = session?.id;
+  const activeRoom = rooms.find(r => r.id === activeRoomId) ?? null;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedRoomId = searchParams.get('room');
+  const activeThread = dmThreads.find(t => t.id === activeThreadId) ?? null;
+
+  const selectRoom = (roomId: string) => {
+    setActiveThreadId(null);
+    setActiveRoomId(roomId);
+  };
+
+  const fetchRooms = useCallback(async () => {
+    try {
+      const data = await invokeChatRooms('list_rooms');
+      const roomList: ChatRoom[] = data.rooms || [];
+      setRooms(roomList);
+      setCanManageRooms(!!data.can_manage);
+      setMute(data.mute ?? null);
+      // Fall back to the default room if the open one is no longer visible
+      setActiveRoomId(current =>
+        current && roomList.some(r => r.id === current)
+          ? current
+          : roomList.find(r => r.is_default)?.id ?? roomList[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error('Fetch rooms error:', error);
+    }
+  }, []);
 
   useEffect(() => {
-    fetchMessages();
+    fetchRooms();
+    fetchChatPolicy().then(setChatPolicy);
     fetchProfiles();
     fetchSessionRoles();
-    
+
     const channel = supabase
-      .channel('chat-messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'chat_messages'
-        },
-        (payload) => {
-          const newMsg = payload.new as ChatMessage;
-          setMessages(prev => [...prev, newMsg]);
-          if (!profiles[newMsg.session_id]) {
-            fetchProfileForSession(newMsg.session_id);
-          }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'chat_messages'
-        },
-        (payload) => {
-          const updated = payload.new as ChatMessage;
-          setMessages(prev => prev.map(m => m.id === updated.id ? updated : m));
-        }
-      )
+      .channel(CHAT_ROOMS_CHANNEL)
+      .on('broadcast', { event: 'rooms_changed' }, () => {
+        fetchRooms();
+      })
       .subscribe();
 
-    const interval = setInterval(() => {
-      setOnlineCount(Math.floor(Math.random() * 5) + 1);
-    }, 30000);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchRooms]);
+
+  // Notifications link to /chat?room=<id>; open that room once it is in the list
+  useEffect(() => {
+    if (!linkedRoomId || !rooms.some(r => r.id === linkedRoomId)) return;
+    setActiveThreadId(null);
+    setActiveRoomId(linkedRoomId);
+    setSearchParams({}, { replace: true });
+  }, [linkedRoomId, rooms, setSearchParams]);
+
+  // Mutes are re-read through list_rooms when a moderator changes them
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(chatStatusChannel(sessionId))
+      .on('broadcast', { event: 'mute_changed' }, () => {
+        fetchRooms();
+      })
+      .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
-      clearInterval(interval);
     };
-  }, []);
+  }, [sessionId, fetchRooms]);
 
+  const muteExpiresAt = mute?.expires_at ?? null;
   useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    if (!muteExpiresAt) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((new Date(muteExpiresAt).getTime() - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setMute(null);
+        setMuteSeconds(0);
+      } else {
+        setMuteSeconds(remaining);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [muteExpiresAt]);
+
+  // Messages are only served through chat-rooms, which checks room access;
+  // the room's realtime channel just says which message to re-read
+  useEffect(() => {
+    activeRoomIdRef.current = activeRoomId;
+    if (!activeRoomId) return;
+    let cancelled = false;
+
+    setMessages([]);
+    setReplyTo(null);
+    setEditingMessage(null);
+    setCooldown(null);
+    setOlderCursor(null);
+    setShowJumpToLatest(false);
+    stickToBottomRef.current = true;
+    invokeChatRooms('list_messages', { room_id: activeRoomId })
+      .then((data) => {
+        if (cancelled) return;
+        setMessages(data.messages || []);
+        setOlderCursor(data.next_cursor ?? null);
+      })
+      .catch((error) => console.error('Fetch messages error:', error));
+
+    const refetchMessage = async (messageId: unknown) => {
+      if (typeof messageId !== 'string') return;
+      try {
+        const data = await invokeChatRooms('get_messages', { room_id: activeRoomId, message_ids: [messageId] });
+        const fetched: ChatMessage[] = data.messages || [];
+        if (cancelled) return;
+        setMessages(prev => mergeMessages(prev, fetched));
+        fetched.forEach(m => {
+          if (!profiles[m.session_id]) fetchProfileForSession(m.session_id);
+        });
+      } catch (error) {
+        console.error('Fetch message error:', error);
+      }
+    };
+
+    const channel = supabase
+      .channel(chatRoomChannel(activeRoomId))
+      .on('broadcast', { event: 'message_created' }, ({ payload }) => {
+        refetchMessage(payload?.message_id);
+      })
+      .on('broadcast', { event: 'message_updated' }, ({ payload }) => {
+        refetchMessage(payload?.message_id);
+      })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [activeRoomId]);
+
+  // Runs before paint so prepending older history doesn't make the feed jump
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    if (restoreOffsetRef.current !== null) {
+      el.scrollTop = el.scrollHeight - restoreOffsetRef.current;
+      restoreOffsetRef.current = null;
+    } else if (stickToBottomRef.current) {
+      el.scrollTop = el.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, activeThreadId]);
 
-  const fetchMessages = async () => {
-    const { data } = await supabase
-      .from('chat_messages')
-      .select('*')
-      .order('created_at', { ascending: true })
-      .limit(100);
-    
-    if (data) setMessages(data as ChatMessage[]);
+  const loadOlderMessages = useCallback(async () => {
+    const roomId = activeRoomIdRef.current;
+    if (!roomId || !olderCursor || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const data = await invokeChatRooms('list_messages', { room_id: roomId, before: olderCursor });
+      if (activeRoomIdRef.current !== roomId) return;
+
+      const el = scrollRef.current;
+      if (el) restoreOffsetRef.current = el.scrollHeight - el.scrollTop;
+      setMessages(prev => mergeMessages(prev, data.messages || []));
+      setOlderCursor(data.next_cursor ?? null);
+    } catch (error) {
+      console.error('Fetch older messages error:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [olderCursor, isLoadingOlder]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const fromBottom = el.scrollHeight - el.scrollTop - el.clientHeight;
+    stickToBottomRef.current = fromBottom < 80;
+    setShowJumpToLatest(fromBottom > 300);
+    if (el.scrollTop < 80) loadOlderMessages();
+  };
+
+  const jumpToLatest = () => {
+    stickToBottomRef.current = true;
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
   };
 
   const fetchProfiles = async () => {
@@ -166,17 +377,17 @@ export const Chat = () => {
   };
 
   const updateTypingStatus = useCallback(async (typing: boolean) => {
-    const deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) return;
+    const sessionToken = getSessionToken();
+    if (!sessionToken || !activeRoomId) return;
 
     try {
       await supabase.functions.invoke('typing-indicator', {
-        body: { device_id: deviceId, is_typing: typing }
+        body: { session_token: sessionToken, room_id: activeRoomId, is_typing: typing }
       });
     } catch (error) {
       // Silently fail - typing indicator is non-critical
     }
-  }, []);
+  }, [activeRoomId]);
 
   const handleTyping = useCallback(() => {
     if (!isTyping) {
@@ -196,15 +407,75 @@ export const Chat = () => {
     }, 3000);
   }, [isTyping, updateTypingStatus]);
 
+  // Count down a cooldown so the input can say when sending works again
+  const cooldownUntil = cooldown?.until ?? null;
+  useEffect(() => {
+    if (!cooldownUntil) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((cooldownUntil - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setCooldown(null);
+        setCooldownSeconds(0);
+      } else {
+        setCooldownSeconds(remaining);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
+  const attachFiles = async (files: FileList | null) => {
+    if (!files || !activeRoom) return;
+
+    const room = activeRoom;
+    const selected = Array.from(files).slice(0, MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length - uploadingCount);
+    setUploadingCount(count => count + selected.length);
+
+    await Promise.all(selected.map(async (file) => {
+      try {
+        const attachment = await uploadChatAttachment(room.id, file);
+        setPendingAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        toast({
+          title: "Failed to attach file",
+          description: error instanceof Error ? error.message : 'Upload failed',
+          variant: "destructive"
+        });
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }));
+  };
+
+  const removePendingAttachment = (attachmentId: string) => {
+    setPendingAttachments(prev => prev.filter(a => a.id !== attachmentId));
+    // Best effort; abandoned uploads are also cleaned up on the server
+    invokeChatAttachments('discard', { attachment_id: attachmentId }).catch(() => {});
+  };
+
   const sendMessage = async () => {
-    if (!newMessage.trim() || !session) return;
+    if ((!newMessage.trim() && (editingMessage || pendingAttachments.length === 0)) || !session || !activeRoom) return;
+    if (uploadingCount > 0) return;
 
-    const deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) {
-      console.error('No device ID found');
+    const sessionToken = getSessionToken();
+    if (!sessionToken) {
+      console.error('No session token found');
       return;
     }
 
+    if (editingMessage) {
+      await saveEdit(editingMessage.id, sessionToken);
+      return;
+    }
+
+    if (cooldownUntil) return;
+
+    // Your own message should always come into view
+    stickToBottomRef.current = true;
+
     // Stop typing indicator
     setIsTyping(false);
     updateTypingStatus(false);
@@ -214,31 +485,130 @@ export const Chat = () => {
 
     try {
       const response = await supabase.functions.invoke('send-chat-message', {
-        body: { message: newMessage.trim(), device_id: deviceId }
+        body: {
+          message: newMessage.trim(),
+          session_token: sessionToken,
+          room_id: activeRoom.id,
+          reply_to_id: replyTo?.id ?? null,
+          attachment_ids: pendingAttachments.map(a => a.id)
+        }
       });
 
       if (response.error || response.data?.error) {
+        const body = response.error ? await readInvokeErrorBody(response.error) : response.data;
+        if (typeof body?.muted_until === 'string') {
+          setMute({
+            id: '',
+            session_id: session.id,
+            reason: typeof body.reason === 'string' ? body.reason : 'Muted by a moderator',
+            expires_at: body.muted_until
+          });
+        }
+        // Rate limits and slow mode are shown under the input; the draft is kept for later
+        if (typeof body?.retry_after === 'number') {
+          setCooldown({
+            until: Date.now() + body.retry_after * 1000,
+            reason: body.reason === 'slow_mode' ? 'Slow mode is on.'
+              : 'You\'re sending messages too fast.'
+          });
+          return;
+        }
         toast({
           title: "Error",
-          description: response.data?.error || "Failed to send message",
+          description: typeof body?.error === 'string' ? body.error : "Failed to send message",
           variant: "destructive"
         });
         return;
       }
 
       setNewMessage('');
+      setReplyTo(null);
+      setPendingAttachments([]);
+      if (activeRoom.slow_mode_seconds > 0 && !canManageRooms) {
+        setCooldown({ until: Date.now() + activeRoom.slow_mode_seconds * 1000, reason: 'Slow mode is on.' });
+      }
     } catch (error) {
       console.error('Error sending message:', error);
     }
   };
 
+  const saveEdit = async (messageId: string, sessionToken: string) => {
+    try {
+      const response = await supabase.functions.invoke('edit-message', {
+        body: { message_id: messageId, message: newMessage.trim(), session_token: sessionToken }
+      });
+
+      if (response.error || response.data?.error) {
+        const body = response.error ? await readInvokeErrorBody(response.error) : response.data;
+        toast({
+          title: "Cannot edit message",
+          description: typeof body?.error === 'string' ? body.error : "Failed to edit message",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setEditingMessage(null);
+      setNewMessage('');
+    } catch (error) {
+      console.error('Error editing message:', error);
+    }
+  };
+
+  const startEdit = (message: ChatMessage) => {
+    setReplyTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.message);
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  // The server has the final say; this only decides whether to offer the button
+  const canEdit = (message: ChatMessage) =>
+    chatPolicy.edit_window_minutes > 0 &&
+    Date.now() - new Date(message.created_at).getTime() < chatPolicy.edit_window_minutes * 60 * 1000;
+
+  const handleReact = async (messageId: string, emoji: string) => {
+    const sessionToken = getSessionToken();
+    if (!sessionToken) return;
+
+    try {
+      const response = await supabase.functions.invoke('react-to-message', {
+        body: { message_id: messageId, emoji, session_token: sessionToken }
+      });
+
+      if (response.error || response.data?.error) {
+        toast({
+          title: "Error",
+          description: response.data?.error || "Failed to react",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error reacting to message:', error);
+    }
+  };
+
+  const startReply = (message: ChatMessage) => {
+    if (editingMessage) cancelEdit();
+    setReplyTo(message);
+    // Replying to someone mentions them so they get notified
+    const mention = mentionFor(getUserName(message.session_id));
+    if (message.session_id !== session?.id && !newMessage.includes(mention)) {
+      setNewMessage(prev => `${mention} ${prev}`.slice(0, 500));
+    }
+  };
+
   const handleUndo = async (messageId: string) => {
-    const deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) return;
+    const sessionToken = getSessionToken();
+    if (!sessionToken) return;
 
     try {
       const response = await supabase.functions.invoke('delete-message', {
-        body: { message_id: messageId, device_id: deviceId, action: 'undo' }
+        body: { message_id: messageId, session_token: sessionToken, action: 'undo' }
       });
 
       if (response.error || response.data?.error) {
@@ -260,12 +630,12 @@ export const Chat = () => {
   };
 
   const handleHide = async (messageId: string) => {
-    const deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) return;
+    const sessionToken = getSessionToken();
+    if (!sessionToken) return;
 
     try {
       const response = await supabase.functions.invoke('delete-message', {
-        body: { message_id: messageId, device_id: deviceId, action: 'hide' }
+        body: { message_id: messageId, session_token: sessionToken, action: 'hide' }
       });
 
       if (response.error || response.data?.error) {
@@ -287,12 +657,12 @@ export const Chat = () => {
   };
 
   const handleAdminDelete = async (messageId: string) => {
-    const deviceId = localStorage.getItem('deviceId');
-    if (!deviceId) return;
+    const sessionToken = getSessionToken();
+    if (!sessionToken) return;
 
     try {
       const response = await supabase.functions.invoke('delete-message', {
-        body: { message_id: messageId, device_id: deviceId, action: 'delete' }
+        body: { message_id: messageId, session_token: sessionToken, action: 'delete' }
       });
 
       if (response.error || response.data?.error) {
@@ -313,6 +683,20 @@ export const Chat = () => {
     }
   };
 
+  const handleDirectMessage = async (sessionId: string) => {
+    try {
+      const data = await invokeDirectMessages('open_thread', { target_session_id: sessionId });
+      await refreshDms();
+      setActiveThreadId(data.thread_id);
+    } catch (error) {
+      toast({
+        title: "Cannot start conversation",
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -332,6 +716,18 @@ export const Chat = () => {
     return sessionRoles[sessionId] || 'user';
   };
 
+  const ownMentionKey = session && profiles[session.id] ? mentionKey(profiles[session.id]) : null;
+
+  const mentionsMe = (text: string) =>
+    !!ownMentionKey && Array.from(text.matchAll(MENTION_PATTERN)).some(m => m[1].toLowerCase() === ownMentionKey);
+
+  // Highlights @mentions of the current user
+  const renderMention = (name: string) => (
+    <span className={cn("font-semibold", name.toLowerCase() === ownMentionKey ? "text-amber-400" : "text-primary")}>
+      @{name}
+    </span>
+  );
+
   // Get user's own recent message IDs (last 3)
   const getOwnRecentMessageIds = () => {
     if (!session) return [];
@@ -351,15 +747,15 @@ export const Chat = () => {
     return true;
   });
 
-  // Create display messages with system welcome message
+  // Create display messages with system welcome message at the start of the history
   const displayMessages: DisplayMessage[] = [
-    {
+    ...(olderCursor ? [] : [{
       id: 'system-welcome',
-      type: 'system',
+      type: 'system' as const,
       message: 'Welcome to the Game Zone chat! 🎮',
       created_at: new Date(0).toISOString()
-    },
-    ...(session && profiles[session.id] ? [{
+    }]),
+    ...(!olderCursor && session && profiles[session.id] ? [{
       id: 'system-join',
       type: 'system' as const,
       message: `${profiles[session.id]} joined the chat!`,
@@ -368,7 +764,17 @@ export const Chat = () => {
     ...visibleMessages.map(msg => ({ ...msg, type: 'user' as const }))
   ];
 
-  const getRoleBadge = (role: 'user' | 'admin' | 'owner') => {
+  const canPostHere = !!activeRoom?.can_post && !mute;
+
+  const inputPlaceholder = activeRoom?.archived_at
+    ? 'This room is archived'
+    : activeRoom?.is_locked && !activeRoom.can_post
+      ? 'This room is locked'
+      : mute
+        ? 'You are muted'
+        : 'Enter message...';
+
+  const getRoleBadge = (role: string) => {
     if (role === 'owner') {
       return (
         <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 border-purple-500 text-purple-500 bg-purple-500/10">
@@ -404,131 +810,413 @@ export const Chat = () => {
             </div>
             <div>
               <h1 className="text-xl font-bold font-mono text-primary">Game Zone Console</h1>
-              <p className="text-primary/60 text-xs font-mono">~/chat --global</p>
+              {activeThreadId ? (
+                <p className="text-primary/60 text-xs font-mono truncate">
+                  ~/chat --dm {activeThread?.other_username || ''}
+                </p>
+              ) : (
+                <p className="text-primary/60 text-xs font-mono truncate" title={activeRoom?.description || undefined}>
+                  ~/chat --{activeRoom ? activeRoom.name.toLowerCase() : 'global'}
+                  {activeRoom?.slow_mode_seconds > 0 && (
+                    <span className="text-amber-400/80"> --slow {formatSlowMode(activeRoom.slow_mode_seconds)}</span>
+                  )}
+                  {activeRoom?.description && <span className="text-primary/40"> # {activeRoom.description}</span>}
+                </p>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-2 text-sm text-primary/70 font-mono">
-            <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-            <Users className="h-4 w-4" />
-            <span>{onlineCount} online</span>
+            {canManageRooms && activeRoom && !activeThreadId && <ChatRoomSettings room={activeRoom} />}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowMembers(!showMembers)}
+              className={cn("h-8 gap-2 font-mono text-primary/70 hover:text-primary", showMembers && "bg-primary/10 text-primary")}
+              title={showMembers ? 'Hide members' : 'Show members'}
+            >
+              <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              <Users className="h-4 w-4" />
+              <span>{onlineCount} online</span>
+            </Button>
           </div>
         </div>
       </div>
 
-      {/* Console Messages */}
-      <ScrollArea className="flex-1 p-4 bg-black/50" ref={scrollRef}>
-        <div className="space-y-1 font-mono text-sm">
-          {displayMessages.length === 0 ? (
-            <div className="text-center text-primary/50 py-12">
-              <Terminal className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p className="font-mono">Waiting for input...</p>
-            </div>
+      <div className="flex-1 flex min-h-0">
+        {/* Rooms */}
+        <ScrollArea className="w-44 md:w-56 shrink-0 border-r border-primary/30 bg-black/50">
+          <ChatRoomList
+            rooms={rooms}
+            activeRoomId={activeThreadId ? null : activeRoomId}
+            onSelect={selectRoom}
+            canManage={canManageRooms}
+          />
+          <DirectMessageList activeThreadId={activeThreadId} onSelect={setActiveThreadId} />
+        </ScrollArea>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {activeThreadId ? (
+            <DirectMessageThread threadId={activeThreadId} />
           ) : (
-            displayMessages.map((msg) => {
-              // System message
-              if (msg.type === 'system') {
-                return (
-                  <div key={msg.id} className="text-primary/80 py-1">
-                    <span className="text-yellow-500">System:</span>{' '}
-                    <span className="text-primary/90">{msg.message}</span>
+            <>
+              {/* Console Messages */}
+              <div className="flex-1 overflow-y-auto p-4 bg-black/50" ref={scrollRef} onScroll={handleScroll}>
+                <div className="space-y-1 font-mono text-sm">
+                  {olderCursor && (
+                    <div className="text-center text-primary/50 py-1">
+                      {isLoadingOlder ? 'Loading older messages...' : 'Scroll up for older messages'}
+                    </div>
+                  )}
+                  {displayMessages.length === 0 ? (
+                    <div className="text-center text-primary/50 py-12">
+                      <Terminal className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      <p className="font-mono">Waiting for input...</p>
+                    </div>
+                  ) : (
+                    displayMessages.map((msg) => {
+                      // System message
+                      if (msg.type === 'system') {
+                        return (
+                          <div key={msg.id} className="text-primary/80 py-1">
+                            <span className="text-yellow-500">System:</span>{' '}
+                            <span className="text-primary/90">{msg.message}</span>
+                          </div>
+                        );
+                      }
+
+                      // User message
+                      const chatMsg = msg as ChatMessage;
+                      const isOwn = chatMsg.session_id === session?.id;
+                      const userName = getUserName(chatMsg.session_id);
+                      const userColor = generateColor(chatMsg.session_id);
+                      const senderRole = getUserRole(chatMsg.session_id);
+                      const canUndo = isOwn && ownRecentIds.includes(chatMsg.id);
+                      const reactions = summarizeReactions(chatMsg.reactions, session?.id);
+                      
+                      return (
+                        <div
+                          key={chatMsg.id}
+                          className={cn(
+                            "group py-1 hover:bg-primary/5 px-2 -mx-2 rounded flex items-start gap-2",
+                            !isOwn && mentionsMe(chatMsg.message) && "bg-amber-500/10 border-l-2 border-amber-500"
+                          )}
+                        >
+                          <div className="flex-1 min-w-0">
+                            {chatMsg.reply_to && (
+                              <div className="text-xs text-muted-foreground truncate pl-4">
+                                ↳ {getUserName(chatMsg.reply_to.session_id)}:{' '}
+                                {chatMsg.reply_to.deleted_at ? <em>message deleted</em> : chatMsg.reply_to.message}
+                              </div>
+                            )}
+                            <span className="text-muted-foreground">[{formatTime(chatMsg.created_at)}]</span>{' '}
+                            <span style={{ color: userColor }} className="font-semibold">
+                              {userName}
+                            </span>
+                            {getRoleBadge(senderRole) && (
+                              <span className="ml-1 inline-flex">{getRoleBadge(senderRole)}</span>
+                            )}
+                            <span className="text-muted-foreground">:</span>{' '}
+                            <span className="text-foreground break-words">
+                              <ChatMarkdown text={chatMsg.message} renderMention={renderMention} />
+                            </span>
+                            {chatMsg.attachments && chatMsg.attachments.length > 0 && (
+                              <ChatAttachmentList attachments={chatMsg.attachments} />
+                            )}
+                            {chatMsg.edited_at && (
+                              <span className="text-xs text-muted-foreground ml-1" title={`Edited ${new Date(chatMsg.edited_at).toLocaleString()}`}>
+                                (edited)
+                              </span>
+                            )}
+                            {reactions.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {reactions.map((reaction) => (
+                                  <button
+                                    key={reaction.emoji}
+                                    type="button"
+                                    onClick={() => handleReact(chatMsg.id, reaction.emoji)}
+                                    disabled={!activeRoom?.can_post}
+                                    className={cn(
+                                      "px-1.5 rounded border text-xs",
+                                      reaction.mine
+                                        ? "border-primary/60 bg-primary/20 text-primary"
+                                        : "border-primary/20 text-muted-foreground hover:border-primary/40"
+                                    )}
+                                  >
+                                    {reaction.emoji} {reaction.count}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          
+                          {/* Action buttons */}
+                          <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1 shrink-0">
+                            {activeRoom?.can_post && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-muted-foreground hover:text-primary"
+                                onClick={() => startReply(chatMsg)}
+                                title="Reply"
+                              >
+                                <Reply className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {activeRoom?.can_post && (
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-5 w-5 text-muted-foreground hover:text-primary"
+                                    title="React"
+                                  >
+                                    <SmilePlus className="h-3 w-3" />
+                                  </Button>
+                                </PopoverTrigger>
+                                <PopoverContent align="end" className="w-auto p-1 flex gap-1">
+                                  {REACTION_EMOJIS.map((emoji) => (
+                                    <Button
+                                      key={emoji}
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8 text-base"
+                                      onClick={() => handleReact(chatMsg.id, emoji)}
+                                    >
+                                      {emoji}
+                                    </Button>
+                                  ))}
+                                </PopoverContent>
+                              </Popover>
+                            )}
+                            {isOwn && activeRoom?.can_post && canEdit(chatMsg) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-muted-foreground hover:text-primary"
+                                onClick={() => startEdit(chatMsg)}
+                                title="Edit"
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {canUndo && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-muted-foreground hover:text-primary"
+                                onClick={() => handleUndo(chatMsg.id)}
+                                title="Undo (remove for everyone)"
+                              >
+                                <Undo2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {!isOwn && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-muted-foreground hover:text-primary"
+                                onClick={() => handleDirectMessage(chatMsg.session_id)}
+                                title="Message privately"
+                              >
+                                <MessageSquare className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {!isOwn && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-muted-foreground hover:text-primary"
+                                onClick={() => handleHide(chatMsg.id)}
+                                title="Hide for me"
+                              >
+                                <EyeOff className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {!isOwn && (
+                              <ReportMessageDialog messageId={chatMsg.id} username={getUserName(chatMsg.session_id)} />
+                            )}
+                            {canMute && !isOwn && (
+                              <MuteUserPopover sessionId={chatMsg.session_id} username={getUserName(chatMsg.session_id)} />
+                            )}
+                            {canModerate && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-destructive hover:text-destructive"
+                                onClick={() => handleAdminDelete(chatMsg.id)}
+                                title="Delete for everyone"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+
+                {showJumpToLatest && (
+                  <div className="sticky bottom-0 flex justify-end pointer-events-none">
+                    <Button
+                      size="sm"
+                      onClick={jumpToLatest}
+                      className="pointer-events-auto gap-1 font-mono bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                      Jump to latest
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {/* Typing Indicator */}
+              {activeRoomId && <TypingIndicator roomId={activeRoomId} />}
+
+              {/* Console Input */}
+              <div className="p-4 border-t border-primary/30 shrink-0 bg-black/50">
+                {editingMessage && (
+                  <div className="flex items-center gap-2 mb-2 text-xs font-mono text-muted-foreground">
+                    <Pencil className="h-3 w-3 shrink-0" />
+                    <span className="truncate">Editing message</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5 ml-auto shrink-0"
+                      onClick={cancelEdit}
+                      title="Cancel edit"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
                   </div>
-                );
-              }
-
-              // User message
-              const chatMsg = msg as ChatMessage;
-              const isOwn = chatMsg.session_id === session?.id;
-              const userName = getUserName(chatMsg.session_id);
-              const userColor = generateColor(chatMsg.session_id);
-              const senderRole = getUserRole(chatMsg.session_id);
-              const canUndo = isOwn && ownRecentIds.includes(chatMsg.id);
-              
-              return (
-                <div key={chatMsg.id} className="group py-1 hover:bg-primary/5 px-2 -mx-2 rounded flex items-start gap-2">
-                  <div className="flex-1 min-w-0">
-                    <span className="text-muted-foreground">[{formatTime(chatMsg.created_at)}]</span>{' '}
-                    <span style={{ color: userColor }} className="font-semibold">
-                      {userName}
+                )}
+                {replyTo && (
+                  <div className="flex items-center gap-2 mb-2 text-xs font-mono text-muted-foreground">
+                    <Reply className="h-3 w-3 shrink-0" />
+                    <span className="truncate">
+                      Replying to {getUserName(replyTo.session_id)}: {replyTo.message}
                     </span>
-                    {getRoleBadge(senderRole) && (
-                      <span className="ml-1 inline-flex">{getRoleBadge(senderRole)}</span>
-                    )}
-                    <span className="text-muted-foreground">:</span>{' '}
-                    <span className="text-foreground break-words">{chatMsg.message}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5 ml-auto shrink-0"
+                      onClick={() => setReplyTo(null)}
+                      title="Cancel reply"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
                   </div>
-                  
-                  {/* Action buttons */}
-                  <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1 shrink-0">
-                    {canUndo && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-5 w-5 text-muted-foreground hover:text-primary"
-                        onClick={() => handleUndo(chatMsg.id)}
-                        title="Undo (remove for everyone)"
-                      >
-                        <Undo2 className="h-3 w-3" />
-                      </Button>
-                    )}
-                    {!isOwn && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-5 w-5 text-muted-foreground hover:text-primary"
-                        onClick={() => handleHide(chatMsg.id)}
-                        title="Hide for me"
+                )}
+                {(pendingAttachments.length > 0 || uploadingCount > 0) && (
+                  <div className="flex flex-wrap items-center gap-2 mb-2 text-xs font-mono">
+                    {pendingAttachments.map((attachment) => (
+                      <span
+                        key={attachment.id}
+                        className="flex items-center gap-1 rounded border border-primary/30 px-2 py-0.5 text-primary/80"
                       >
-                        <EyeOff className="h-3 w-3" />
-                      </Button>
-                    )}
-                    {canModerate && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-5 w-5 text-destructive hover:text-destructive"
-                        onClick={() => handleAdminDelete(chatMsg.id)}
-                        title="Delete for everyone"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
+                        {attachment.kind === 'image' ? <ImageIcon className="h-3 w-3 shrink-0" /> : <FileText className="h-3 w-3 shrink-0" />}
+                        <span className="max-w-[10rem] truncate">{attachment.file_name}</span>
+                        <span className="text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+                        <button
+                          type="button"
+                          onClick={() => removePendingAttachment(attachment.id)}
+                          className="text-muted-foreground hover:text-destructive"
+                          title="Remove attachment"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    {uploadingCount > 0 && (
+                      <span className="text-muted-foreground animate-pulse">Uploading {uploadingCount}...</span>
                     )}
                   </div>
+                )}
+                <div className="flex gap-2 items-end font-mono">
+                  <span className="text-primary shrink-0 pb-2.5">&gt;_</span>
+                  <Textarea
+                    rows={1}
+                    value={newMessage}
+                    onChange={(e) => {
+                      setNewMessage(e.target.value);
+                      if (e.target.value.trim()) {
+                        handleTyping();
+                      }
+                    }}
+                    onKeyPress={handleKeyPress}
+                    placeholder={inputPlaceholder}
+                    className="flex-1 min-h-10 max-h-32 resize-none bg-transparent border-primary/30 text-foreground placeholder:text-muted-foreground font-mono focus-visible:ring-primary/50"
+                    maxLength={500}
+                    disabled={!canPostHere}
+                  />
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ATTACHMENT_ACCEPT}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      attachFiles(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!canPostHere || !!editingMessage || pendingAttachments.length + uploadingCount >= MAX_ATTACHMENTS_PER_MESSAGE}
+                    className="text-primary/70 hover:text-primary hover:bg-primary/10"
+                    title="Attach image or file"
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
+                  <Button 
+                    onClick={sendMessage} 
+                    disabled={
+                      (!newMessage.trim() && (!!editingMessage || pendingAttachments.length === 0)) ||
+                      uploadingCount > 0 ||
+                      !canPostHere ||
+                      (!!cooldownUntil && !editingMessage)
+                    } 
+                    size="icon"
+                    className="bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
                 </div>
-              );
-            })
+                {mute && (
+                  <div className="flex items-center gap-2 mt-2 text-xs font-mono text-destructive">
+                    <VolumeX className="h-3 w-3 shrink-0" />
+                    <span className="truncate">
+                      You are muted for {formatRemaining(muteSeconds)}. Reason: {mute.reason}
+                    </span>
+                  </div>
+                )}
+                {cooldown && !mute && (
+                  <div className="flex items-center gap-2 mt-2 text-xs font-mono text-amber-400">
+                    <Timer className="h-3 w-3 shrink-0" />
+                    <span>
+                      {cooldown.reason} You can send again in {cooldownSeconds}s.
+                    </span>
+                  </div>
+                )}
+              </div>
+            </>
           )}
         </div>
-      </ScrollArea>
-
-      {/* Typing Indicator */}
-      <TypingIndicator />
-
-      {/* Console Input */}
-      <div className="p-4 border-t border-primary/30 shrink-0 bg-black/50">
-        <div className="flex gap-2 items-center font-mono">
-          <span className="text-primary shrink-0">&gt;_</span>
-          <Input
-            value={newMessage}
-            onChange={(e) => {
-              setNewMessage(e.target.value);
-              if (e.target.value.trim()) {
-                handleTyping();
-              }
-            }}
-            onKeyPress={handleKeyPress}
-            placeholder="Enter message..."
-            className="flex-1 bg-transparent border-primary/30 text-foreground placeholder:text-muted-foreground font-mono focus-visible:ring-primary/50"
-            maxLength={500}
-          />
-          <Button 
-            onClick={sendMessage} 
-            disabled={!newMessage.trim()} 
-            size="icon"
-            className="bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
+
+        {/* Members */}
+        {showMembers && (
+          <ScrollArea className="w-44 md:w-56 shrink-0 border-l border-primary/30 bg-black/50">
+            <ChatMemberList
+              members={members}
+              currentSessionId={sessionId}
+              renderRoleBadge={getRoleBadge}
+              onSelect={handleDirectMessage}
+            />
+          </ScrollArea>
+        )}
       </div>
     </div>
   );
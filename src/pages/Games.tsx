@@ -1,14 +1,27 @@
 import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
 import { toast } from 'sonner';
 import { Card, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { GamePlayerDialog } from '@/components/GamePlayerDialog';
+import {
+  GAME_SORT_LABELS,
+  filterGames,
+  parseTagInput,
+  readGameFilters,
+  writeGameFilters,
+  type GameFilters,
+  type GameSort,
+} from '@/lib/games';
 import {
   Code,
   FileUp,
@@ -17,6 +30,7 @@ import {
   Pencil,
   Plus,
   Search,
+  Tag,
   Trash2,
   X,
 } from 'lucide-react';
@@ -26,19 +40,12 @@ interface Game {
   title: string;
   source_code: string;
   image_url: string | null;
+  category: string | null;
+  tags: string[];
+  play_count: number;
   created_at: string;
 }
 
-const getDeviceId = () => {
-  // IMPORTANT: must match key in AuthContext ('deviceId' camelCase)
-  let deviceId = localStorage.getItem('deviceId');
-  if (!deviceId) {
-    deviceId = crypto.randomUUID();
-    localStorage.setItem('deviceId', deviceId);
-  }
-  return deviceId;
-};
-
 async function getInvokeErrorMessage(err: any): Promise<string> {
   // supabase-js wraps non-2xx responses in an error with a context body.
   const fallback = err?.message || 'Request failed';
@@ -67,16 +74,18 @@ function fileToDataUrl(file: File): Promise<string> {
 }
 
 export default function Games() {
-  const { session, isOwner } = useAuth();
+  const { session, can } = useAuth();
   const [games, setGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Add dialog
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [submittingAdd, setSubmittingAdd] = useState(false);
   const [title, setTitle] = useState('');
   const [sourceCode, setSourceCode] = useState('');
+  const [category, setCategory] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
   const [htmlFile, setHtmlFile] = useState<File | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -87,6 +96,8 @@ export default function Games() {
   const [editingGame, setEditingGame] = useState<Game | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [editSourceCode, setEditSourceCode] = useState('');
+  const [editCategory, setEditCategory] = useState('');
+  const [editTagsInput, setEditTagsInput] = useState('');
   const [editHtmlFile, setEditHtmlFile] = useState<File | null>(null);
   const [editImageFile, setEditImageFile] = useState<File | null>(null);
   const [editImagePreview, setEditImagePreview] = useState<string | null>(null);
@@ -94,12 +105,37 @@ export default function Games() {
   // Player dialog
   const [selectedGame, setSelectedGame] = useState<Game | null>(null);
 
-  // Filtered games based on search
-  const filteredGames = useMemo(() => {
-    if (!searchQuery.trim()) return games;
-    const query = searchQuery.toLowerCase();
-    return games.filter(game => game.title.toLowerCase().includes(query));
-  }, [games, searchQuery]);
+  const filters = useMemo(() => readGameFilters(searchParams), [searchParams]);
+  const updateFilters = (changes: Partial<GameFilters>) =>
+    setSearchParams(writeGameFilters({ ...filters, ...changes }), { replace: true });
+  const hasFilters = !!filters.query || !!filters.category || filters.tags.length > 0;
+
+  const filteredGames = useMemo(() => filterGames(games, filters), [games, filters]);
+
+  // Chip options come from the library, plus any selected in the URL that no game has any more
+  const categories = useMemo(() => {
+    const byKey = new Map<string, string>();
+    games.forEach(game => {
+      if (game.category && !byKey.has(game.category.toLowerCase())) byKey.set(game.category.toLowerCase(), game.category);
+    });
+    return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+  }, [games]);
+
+  const tagOptions = useMemo(
+    () => Array.from(new Set([...games.flatMap(game => game.tags || []), ...filters.tags])).sort(),
+    [games, filters.tags]
+  );
+
+  const toggleTag = (tag: string) =>
+    updateFilters({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
+
+  const playGame = (game: Game) => {
+    setSelectedGame(game);
+    // Play counts only feed the "Most played" sort, so a lost count isn't worth surfacing
+    supabase.functions.invoke('manage-games', {
+      body: { action: 'record_play', session_token: getSessionToken(), game_id: game.id },
+    }).catch(() => {});
+  };
 
   useEffect(() => {
     fetchGames();
@@ -117,7 +153,7 @@ export default function Games() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const canManage = useMemo(() => !!session && isOwner, [session, isOwner]);
+  const canManage = !!session && can('games.manage');
 
   const fetchGames = async () => {
     const { data, error } = await supabase.from('games').select('*').order('created_at', { ascending: false });
@@ -133,6 +169,8 @@ export default function Games() {
   const resetAddForm = () => {
     setTitle('');
     setSourceCode('');
+    setCategory('');
+    setTagsInput('');
     setHtmlFile(null);
     setImageFile(null);
     setImagePreview(null);
@@ -142,6 +180,8 @@ export default function Games() {
     setEditingGame(game);
     setEditTitle(game.title);
     setEditSourceCode(game.source_code);
+    setEditCategory(game.category || '');
+    setEditTagsInput((game.tags || []).join(', '));
     setEditHtmlFile(null);
     setEditImageFile(null);
     setEditImagePreview(game.image_url || null);
@@ -211,9 +251,11 @@ export default function Games() {
       const response = await supabase.functions.invoke('manage-games', {
         body: {
           action: 'add',
-          device_id: getDeviceId(),
+          session_token: getSessionToken(),
           title: title.trim(),
           source_code: htmlFile ? null : sourceCode.trim(),
+          category: category.trim() || null,
+          tags: parseTagInput(tagsInput),
           html_base64: htmlBase64,
           html_filename: htmlFile?.name,
           image_base64: imageBase64,
@@ -264,11 +306,13 @@ export default function Games() {
       const response = await supabase.functions.invoke('manage-games', {
         body: {
           action: 'update',
-          device_id: getDeviceId(),
+          session_token: getSessionToken(),
           game_id: editingGame.id,
           title: editTitle.trim(),
           // Only send source_code if the user didn't upload an HTML file.
           source_code: editHtmlFile ? null : editSourceCode?.trim(),
+          category: editCategory.trim() || null,
+          tags: parseTagInput(editTagsInput),
           html_base64: htmlBase64,
           html_filename: editHtmlFile?.name,
           image_base64: imageBase64,
@@ -307,7 +351,7 @@ export default function Games() {
       const response = await supabase.functions.invoke('manage-games', {
         body: {
           action: 'delete',
-          device_id: getDeviceId(),
+          session_token: getSessionToken(),
           game_id: gameId,
         },
       });
@@ -348,13 +392,24 @@ export default function Games() {
           <div className="relative flex-1 sm:flex-none">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
               placeholder="Search games..."
               className="pl-9 w-full sm:w-64"
             />
           </div>
 
+          <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as GameSort })}>
+            <SelectTrigger className="w-full sm:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GAME_SORT_LABELS) as GameSort[]).map((value) => (
+                <SelectItem key={value} value={value}>{GAME_SORT_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {canManage && (
           <Dialog
             open={addDialogOpen}
@@ -385,6 +440,29 @@ export default function Games() {
                   />
                 </div>
 
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category (Optional)</Label>
+                    <Input
+                      id="category"
+                      value={category}
+                      onChange={(e) => setCategory(e.target.value)}
+                      placeholder="Puzzle"
+                      maxLength={30}
+                      list="game-categories"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tags">Tags (Optional)</Label>
+                    <Input
+                      id="tags"
+                      value={tagsInput}
+                      onChange={(e) => setTagsInput(e.target.value)}
+                      placeholder="multiplayer, retro"
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <Label htmlFor="source">Embed Code (Optional)</Label>
@@ -480,6 +558,64 @@ export default function Games() {
         </div>
       </div>
 
+      {(categories.length > 0 || tagOptions.length > 0) && (
+        <div className="space-y-2 mb-4">
+          {categories.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant={filters.category ? 'outline' : 'default'}
+                size="sm"
+                className="h-7 rounded-full"
+                onClick={() => updateFilters({ category: null })}
+              >
+                All
+              </Button>
+              {categories.map((name) => (
+                <Button
+                  key={name}
+                  variant={filters.category?.toLowerCase() === name.toLowerCase() ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 rounded-full"
+                  onClick={() => updateFilters({ category: filters.category?.toLowerCase() === name.toLowerCase() ? null : name })}
+                >
+                  {name}
+                </Button>
+              ))}
+            </div>
+          )}
+          {tagOptions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <Tag className="h-4 w-4 text-muted-foreground" />
+              {tagOptions.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={filters.tags.includes(tag) ? 'default' : 'secondary'}
+                  className="cursor-pointer"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+              {hasFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 gap-1 text-xs"
+                  onClick={() => updateFilters({ query: '', category: null, tags: [] })}
+                >
+                  <X className="h-3 w-3" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <datalist id="game-categories">
+        {categories.map((name) => <option key={name} value={name} />)}
+      </datalist>
+
       {loading ? (
         <div className="flex items-center justify-center flex-1">
           <p className="text-muted-foreground">Loading games…</p>
@@ -487,7 +623,7 @@ export default function Games() {
       ) : filteredGames.length === 0 ? (
         <div className="flex flex-col items-center justify-center flex-1 text-center">
           <Gamepad2 className="h-12 w-12 text-muted-foreground mb-4" />
-          <p className="text-muted-foreground">{searchQuery ? 'No games match your search.' : 'No games available yet.'}</p>
+          <p className="text-muted-foreground">{hasFilters ? 'No games match these filters.' : 'No games available yet.'}</p>
           {canManage && <p className="text-sm text-muted-foreground mt-1">Click “Add Game” to get started!</p>}
         </div>
       ) : (
@@ -497,7 +633,7 @@ export default function Games() {
               <Card
                 key={game.id}
                 className="cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all overflow-hidden"
-                onClick={() => setSelectedGame(game)}
+                onClick={() => playGame(game)}
               >
                 <div className="aspect-square w-full overflow-hidden">
                   {game.image_url ? (
@@ -544,6 +680,14 @@ export default function Games() {
                       </div>
                     )}
                   </CardTitle>
+                  {(game.category || game.tags?.length > 0) && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {game.category && <Badge variant="outline" className="text-xs">{game.category}</Badge>}
+                      {(game.tags || []).map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-xs font-normal">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
                 </CardHeader>
               </Card>
             ))}
@@ -577,6 +721,28 @@ export default function Games() {
               <Input id="edit-title" value={editTitle} onChange={(e) => setEditTitle(e.target.value)} maxLength={100} />
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="edit-category">Category</Label>
+                <Input
+                  id="edit-category"
+                  value={editCategory}
+                  onChange={(e) => setEditCategory(e.target.value)}
+                  maxLength={30}
+                  list="game-categories"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-tags">Tags</Label>
+                <Input
+                  id="edit-tags"
+                  value={editTagsInput}
+                  onChange={(e) => setEditTagsInput(e.target.value)}
+                  placeholder="Comma separated"
+                />
+              </div>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="edit-source">Embed Code</Label>
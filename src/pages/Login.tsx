@@ -1,32 +1,70 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Lock, AlertTriangle, Shield, User, Clock } from 'lucide-react';
+import { Lock, AlertTriangle, Shield, User, Clock, Ticket, Link2, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { AccessRequestCard } from '@/components/AccessRequestCard';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 
-const SAVED_PASSWORD_KEY = 'saved_password';
+type LoginMode = 'login' | 'register' | 'pair';
+
+const SAVED_USERNAME_KEY = 'saved_username';
+// Left over from the shared-password login; it no longer signs anyone in
+const LEGACY_SAVED_PASSWORD_KEY = 'saved_password';
 
 export const Login = () => {
+  const [mode, setMode] = useState<LoginMode>('login');
+  const [accountName, setAccountName] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [pairingCode, setPairingCode] = useState('');
   const [username, setUsernameInput] = useState('');
+  // Set once the server says this device needs approval; the credentials stay filled in
+  const [requestPrompt, setRequestPrompt] = useState<string | null>(null);
+  const [requestName, setRequestName] = useState('');
+  const [requestMessage, setRequestMessage] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [rememberPassword, setRememberPassword] = useState(false);
-  const { login, setUsername, isBanned, needsUsername, isWaiting, waitingMessage, checkWaitingStatus } = useAuth();
+  const [rememberUsername, setRememberUsername] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [retrySeconds, setRetrySeconds] = useState(0);
+  const { login, register, pairDevice, setUsername, isBanned, needsUsername, isWaiting, waitingMessage, checkWaitingStatus } = useAuth();
   const navigate = useNavigate();
 
-  // Load saved password on mount
+  // Load saved username on mount
   useEffect(() => {
-    const savedPassword = localStorage.getItem(SAVED_PASSWORD_KEY);
-    if (savedPassword) {
-      setPassword(savedPassword);
-      setRememberPassword(true);
+    localStorage.removeItem(LEGACY_SAVED_PASSWORD_KEY);
+    const savedUsername = localStorage.getItem(SAVED_USERNAME_KEY);
+    if (savedUsername) {
+      setAccountName(savedUsername);
+      setRememberUsername(true);
     }
   }, []);
 
+  // Count down a server-imposed lockout before allowing another attempt
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((retryAt - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setRetryAt(null);
+        setRetrySeconds(0);
+        setError('');
+      } else {
+        setRetrySeconds(remaining);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
   // Poll waiting status periodically
   useEffect(() => {
     if (!isWaiting) return;
@@ -42,21 +80,50 @@ export const Login = () => {
     return () => clearInterval(interval);
   }, [isWaiting, checkWaitingStatus]);
 
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setRequestPrompt(null);
+    setError('');
+    setPassword('');
+    setConfirmPassword('');
+  };
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+
+    if (mode === 'register' && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
     setIsLoading(true);
 
-    const result = await login(password);
+    const result = mode === 'pair'
+      ? await pairDevice(pairingCode)
+      : mode === 'register'
+        ? await register(inviteCode, accountName, password)
+        : await login(accountName, password, {
+          inviteCode,
+          request: requestPrompt !== null ? { name: requestName, message: requestMessage } : undefined
+        });
     
     if (result.success) {
-      // Save or remove password based on checkbox
-      if (rememberPassword) {
-        localStorage.setItem(SAVED_PASSWORD_KEY, password);
-      } else {
-        localStorage.removeItem(SAVED_PASSWORD_KEY);
+      // Save or remove username based on checkbox
+      if (mode !== 'pair') {
+        if (rememberUsername) {
+          localStorage.setItem(SAVED_USERNAME_KEY, accountName.trim());
+        } else {
+          localStorage.removeItem(SAVED_USERNAME_KEY);
+        }
       }
       
+      if (result.requestRequired) {
+        setRequestPrompt(result.message || 'This device needs approval before you can sign in.');
+        setIsLoading(false);
+        return;
+      }
+
       if (result.waiting) {
         // User is on waiting list, stay on login page
         setIsLoading(false);
@@ -68,6 +135,7 @@ export const Login = () => {
       }
     } else {
       setError(result.error || 'Login failed');
+      setRetryAt(result.retryAfter ? Date.now() + result.retryAfter * 1000 : null);
     }
     
     setIsLoading(false);
@@ -128,6 +196,7 @@ export const Login = () => {
               This page will automatically refresh when you're approved.
             </p>
           </div>
+          <AccessRequestCard />
         </div>
       </div>
     );
@@ -205,46 +274,174 @@ export const Login = () => {
             <h1 className="text-3xl font-bold font-mono text-primary text-glow">
               UNSTABLE STEALTH
             </h1>
-            <p className="mt-2 text-muted-foreground">Enter password to continue</p>
+            <p className="mt-2 text-muted-foreground">
+              {requestPrompt !== null
+                ? requestPrompt
+                : mode === 'register'
+                ? 'Create your account with an invite code'
+                : mode === 'pair'
+                  ? 'Enter the pairing code shown in Settings on your other device'
+                  : 'Sign in to continue'}
+            </p>
           </div>
         </div>
 
         {/* Login Form */}
         <form onSubmit={handlePasswordSubmit} className="space-y-6">
           <div className="space-y-4">
-            <div className="relative">
-              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-              <Input
-                type="password"
-                placeholder="Password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className={cn(
-                  "pl-10 font-mono h-12 text-lg",
-                  error && "border-destructive"
+            {mode === 'register' && (
+              <div className="relative">
+                <Ticket className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  type="text"
+                  placeholder="Invite code"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  className={cn(
+                    "pl-10 font-mono h-12 text-lg uppercase",
+                    error && "border-destructive"
+                  )}
+                  autoComplete="off"
+                  autoFocus
+                />
+              </div>
+            )}
+
+            {mode === 'pair' && (
+              <div className="relative">
+                <Link2 className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  type="text"
+                  placeholder="Pairing code"
+                  value={pairingCode}
+                  onChange={(e) => setPairingCode(e.target.value)}
+                  className={cn(
+                    "pl-10 font-mono h-12 text-lg uppercase tracking-widest",
+                    error && "border-destructive"
+                  )}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  maxLength={12}
+                />
+              </div>
+            )}
+
+            {requestPrompt !== null && (
+              <>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    type="text"
+                    placeholder="Your name"
+                    value={requestName}
+                    onChange={(e) => setRequestName(e.target.value)}
+                    className={cn(
+                      "pl-10 font-mono h-12 text-lg",
+                      error && "border-destructive"
+                    )}
+                    autoFocus
+                    maxLength={40}
+                  />
+                </div>
+                <div className="relative">
+                  <MessageSquare className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+                  <Textarea
+                    placeholder="Why do you need access? (optional)"
+                    value={requestMessage}
+                    onChange={(e) => setRequestMessage(e.target.value)}
+                    className="pl-10 font-mono min-h-24"
+                    maxLength={500}
+                  />
+                </div>
+              </>
+            )}
+
+            {mode !== 'pair' && requestPrompt === null && (
+              <>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    type="text"
+                    placeholder="Username"
+                    value={accountName}
+                    onChange={(e) => setAccountName(e.target.value)}
+                    className={cn(
+                      "pl-10 font-mono h-12 text-lg",
+                      error && "border-destructive"
+                    )}
+                    autoComplete="username"
+                    autoCapitalize="none"
+                    autoFocus={mode === 'login'}
+                    maxLength={20}
+                  />
+                </div>
+
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    type="password"
+                    placeholder="Password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={cn(
+                      "pl-10 font-mono h-12 text-lg",
+                      error && "border-destructive"
+                    )}
+                    autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                  />
+                </div>
+
+                {mode === 'login' && (
+                  <div className="relative">
+                    <Ticket className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                    <Input
+                      type="text"
+                      placeholder="Invite code (optional)"
+                      value={inviteCode}
+                      onChange={(e) => setInviteCode(e.target.value)}
+                      className="pl-10 font-mono h-12 text-lg uppercase"
+                      autoComplete="off"
+                    />
+                  </div>
+                )}
+
+                {mode === 'register' && (
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      placeholder="Confirm password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className={cn(
+                        "pl-10 font-mono h-12 text-lg",
+                        error && "border-destructive"
+                      )}
+                      autoComplete="new-password"
+                    />
+                  </div>
                 )}
-                autoFocus
-              />
-            </div>
             
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="remember"
-                checked={rememberPassword}
-                onCheckedChange={(checked) => setRememberPassword(checked as boolean)}
-              />
-              <label
-                htmlFor="remember"
-                className="text-sm text-muted-foreground cursor-pointer select-none"
-              >
-                Remember password
-              </label>
-            </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="remember"
+                    checked={rememberUsername}
+                    onCheckedChange={(checked) => setRememberUsername(checked as boolean)}
+                  />
+                  <label
+                    htmlFor="remember"
+                    className="text-sm text-muted-foreground cursor-pointer select-none"
+                  >
+                    Remember username
+                  </label>
+                </div>
+              </>
+            )}
             
             {error && (
               <p className="text-destructive text-sm flex items-center gap-2">
                 <AlertTriangle className="h-4 w-4" />
-                {error}
+                {retryAt ? `Too many failed attempts. Try again in ${retrySeconds} seconds.` : error}
               </p>
             )}
           </div>
@@ -252,12 +449,55 @@ export const Login = () => {
           <Button
             type="submit"
             className="w-full h-12 text-lg font-mono"
-            disabled={isLoading || !password}
+            disabled={
+              isLoading ||
+              !!retryAt ||
+              (requestPrompt !== null
+                ? !requestName.trim()
+                : mode === 'pair'
+                  ? !pairingCode.trim()
+                  : !accountName.trim() || !password || (mode === 'register' && !inviteCode.trim()))
+            }
           >
-            {isLoading ? 'AUTHENTICATING...' : 'ACCESS'}
+            {isLoading
+              ? 'AUTHENTICATING...'
+              : retryAt
+                ? `LOCKED (${retrySeconds}s)`
+                : requestPrompt !== null
+                  ? 'REQUEST ACCESS'
+                  : mode === 'register' ? 'CREATE ACCOUNT' : mode === 'pair' ? 'LINK DEVICE' : 'ACCESS'}
           </Button>
         </form>
 
+        <div className="space-y-2">
+          {mode === 'login' && requestPrompt === null ? (
+            <>
+              <button
+                type="button"
+                onClick={() => switchMode('register')}
+                className="w-full text-center text-sm text-muted-foreground hover:text-primary transition-colors"
+              >
+                Have an invite code? Create an account
+              </button>
+              <button
+                type="button"
+                onClick={() => switchMode('pair')}
+                className="w-full text-center text-sm text-muted-foreground hover:text-primary transition-colors"
+              >
+                Already signed in elsewhere? Link this device
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => switchMode('login')}
+              className="w-full text-center text-sm text-muted-foreground hover:text-primary transition-colors"
+            >
+              Back to sign in
+            </button>
+          )}
+        </div>
+
         {/* Footer */}
         <p className="text-center text-xs text-muted-foreground font-mono">
           Unauthorized access is prohibited
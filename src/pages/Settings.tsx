@@ -1,10 +1,17 @@
-import { Settings as SettingsIcon, Palette, Clock, AlertTriangle, PanelLeft, LogOut } from 'lucide-react';
+import { useState } from 'react';
+import { Settings as SettingsIcon, Palette, Clock, AlertTriangle, PanelLeft, LogOut, KeyRound, MonitorX } from 'lucide-react';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { LinkedDevices } from '@/components/LinkedDevices';
+import { NotificationPreferences } from '@/components/NotificationPreferences';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { getInvokeErrorMessage } from '@/lib/functions';
+import { getSessionToken } from '@/lib/session';
 import { cn } from '@/lib/utils';
 
 const themes = [
@@ -17,14 +24,70 @@ const themes = [
 
 export const Settings = () => {
   const { settings, updateSettings } = useSettings();
-  const { logout } = useAuth();
+  const { session, logout, signOutEverywhere } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [isSigningOutEverywhere, setIsSigningOutEverywhere] = useState(false);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({ title: 'Error', description: 'New passwords do not match', variant: 'destructive' });
+      return;
+    }
+
+    setIsChangingPassword(true);
+    try {
+      const response = await supabase.functions.invoke('manage-account', {
+        body: {
+          action: 'change_password',
+          session_token: getSessionToken(),
+          current_password: currentPassword,
+          new_password: newPassword
+        }
+      });
+
+      if (response.error) {
+        throw new Error(await getInvokeErrorMessage(response.error, 'Failed to change password'));
+      }
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({ title: 'Password changed', description: 'Use your new password next time you sign in' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to change password',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
 
   const handleLogout = async () => {
     await logout();
     navigate('/login');
   };
 
+  const handleSignOutEverywhere = async () => {
+    setIsSigningOutEverywhere(true);
+    const result = await signOutEverywhere();
+    setIsSigningOutEverywhere(false);
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      return;
+    }
+    navigate('/login');
+  };
+
   return (
     <div className="p-6 max-w-2xl mx-auto animate-fade-in space-y-8">
       {/* Header */}
@@ -141,6 +204,65 @@ export const Settings = () => {
         </div>
       </section>
 
+      {/* Notifications */}
+      <NotificationPreferences />
+
+      {/* Account Password */}
+      <section className="space-y-4">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          <h2 className="font-mono font-bold">Password</h2>
+        </div>
+        <form onSubmit={handleChangePassword} className="p-4 rounded-lg border border-border bg-card space-y-4">
+          {session?.account_username && (
+            <p className="text-sm text-muted-foreground">
+              Signed in as <span className="font-mono text-foreground">{session.account_username}</span>
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="At least 8 characters"
+              autoComplete="new-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm new password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isChangingPassword || !currentPassword || newPassword.length < 8}
+          >
+            {isChangingPassword ? 'Changing...' : 'Change Password'}
+          </Button>
+        </form>
+      </section>
+
+      {/* Linked Devices */}
+      <LinkedDevices />
+
       {/* Logout */}
       <section className="space-y-4">
         <div className="flex items-center gap-2">
@@ -155,6 +277,15 @@ export const Settings = () => {
           <LogOut className="h-4 w-4" />
           Logout
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleSignOutEverywhere}
+          disabled={isSigningOutEverywhere}
+          className="w-full gap-2 text-destructive hover:text-destructive"
+        >
+          <MonitorX className="h-4 w-4" />
+          {isSigningOutEverywhere ? 'Signing out...' : 'Sign Out Everywhere'}
+        </Button>
       </section>
     </div>
   );
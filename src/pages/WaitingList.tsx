@@ -5,12 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionToken } from '@/lib/session';
 import { format } from 'date-fns';
 
 interface WaitingEntry {
   id: string;
   device_id: string;
   ip_address: string | null;
+  display_name: string | null;
+  message: string | null;
   status: string;
   reviewed_by: string | null;
   reviewed_at: string | null;
@@ -24,13 +27,11 @@ export const WaitingList = () => {
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const deviceId = localStorage.getItem('deviceId') || '';
-
   const fetchWaitingList = async () => {
     setIsLoading(true);
     try {
       const response = await supabase.functions.invoke('manage-waiting-list', {
-        body: { action: 'list', device_id: deviceId }
+        body: { action: 'list', session_token: getSessionToken() }
       });
 
       if (response.error || response.data?.error) {
@@ -63,7 +64,7 @@ export const WaitingList = () => {
     setActionLoading(waitingId);
     try {
       const response = await supabase.functions.invoke('manage-waiting-list', {
-        body: { action, device_id: deviceId, waiting_id: waitingId }
+        body: { action, session_token: getSessionToken(), waiting_id: waitingId }
       });
 
       if (response.error || response.data?.error) {
@@ -150,8 +151,11 @@ export const WaitingList = () => {
               <CardHeader className="pb-2">
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-sm font-mono flex items-center gap-2">
-                    <span className="text-muted-foreground">Device:</span>
-                    <span className="text-foreground">{entry.device_id.slice(0, 8)}...</span>
+                    {entry.display_name ? (
+                      <span className="text-foreground">{entry.display_name}</span>
+                    ) : (
+                      <span className="text-muted-foreground">No name given</span>
+                    )}
                     {getStatusBadge(entry.status)}
                   </CardTitle>
                   <span className="text-xs text-muted-foreground">
@@ -159,9 +163,13 @@ export const WaitingList = () => {
                   </span>
                 </div>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-3">
+                {entry.message && (
+                  <p className="text-sm whitespace-pre-wrap break-words">{entry.message}</p>
+                )}
                 <div className="flex items-center justify-between">
-                  <div className="text-sm text-muted-foreground">
+                  <div className="text-xs text-muted-foreground font-mono space-x-3">
+                    <span>Device: {entry.device_id.slice(0, 8)}...</span>
                     {entry.ip_address && (
                       <span>IP: {entry.ip_address}</span>
                     )}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSessionsWithPermission } from "./permissions.ts";
+import { notify } from "./notifications.ts";
+
+// Details an applicant gives when their device lands on the waiting list.
+export const MAX_REQUEST_NAME_LENGTH = 40;
+export const MAX_REQUEST_MESSAGE_LENGTH = 500;
+
+export interface AccessRequestDetails {
+  display_name: string;
+  message: string | null;
+}
+
+export const validateAccessRequest = (
+  name: unknown,
+  message: unknown,
+): { details: AccessRequestDetails; error?: undefined } | { details?: undefined; error: string } => {
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (trimmedName.length < 1 || trimmedName.length > MAX_REQUEST_NAME_LENGTH) {
+    return { error: `Name must be 1-${MAX_REQUEST_NAME_LENGTH} characters` };
+  }
+
+  if (message !== undefined && message !== null && typeof message !== 'string') {
+    return { error: 'Message must be text' };
+  }
+
+  const trimmedMessage = typeof message === 'string' ? message.trim() : '';
+  if (trimmedMessage.length > MAX_REQUEST_MESSAGE_LENGTH) {
+    return { error: `Message must be at most ${MAX_REQUEST_MESSAGE_LENGTH} characters` };
+  }
+
+  return { details: { display_name: trimmedName, message: trimmedMessage || null } };
+};
+
+// The raw token only ever lives on the applicant's device and only its hash is
+// stored, so a leaked waiting list row can't be used to edit the request.
+export const generateRequestToken = () => crypto.randomUUID();
+
+export const hashRequestToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Staff who review the waiting list hear about each new request
+export const notifyNewAccessRequest = async (supabase: SupabaseClient, details: AccessRequestDetails) =>
+  notify(supabase, await getSessionsWithPermission(supabase, 'waiting_list.manage'), {
+    type: 'waiting_list',
+    title: `${details.display_name} requested access`,
+    body: details.message,
+    link: '/waiting-list',
+  });
+
+// Applicants have no session of their own yet, but when the request came from an
+// account signing in on a new device, its other devices hear the decision
+export const notifyAccessDecision = async (
+  supabase: SupabaseClient,
+  accountId: string | null,
+  status: 'approved' | 'denied',
+) => {
+  if (!accountId) return;
+
+  const { data: sessions } = await supabase
+    .from('sessions')
+    .select('id')
+    .eq('account_id', accountId);
+
+  await notify(supabase, (sessions || []).map(session => session.id), {
+    type: 'waiting_list',
+    title: status === 'approved' ? 'Your new device was approved' : 'Your new device was denied',
+    body: status === 'approved'
+      ? 'You can now sign in on the device you asked about.'
+      : 'An admin turned down the access request from your new device.',
+    link: '/settings',
+  });
+};
@@ -0,0 +1,82 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Keep in sync with src/lib/chat-attachments.ts
+export const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_FILE_BYTES = 1024 * 1024;
+// Uploads that never make it into a message are cleaned up after this long
+export const PENDING_ATTACHMENT_TTL_MS = 60 * 60 * 1000;
+
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export type AttachmentKind = 'image' | 'file';
+
+export interface AttachmentRow {
+  id: string;
+  kind: AttachmentKind;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  storage_path: string;
+  thumbnail_path: string | null;
+}
+
+export const ATTACHMENT_COLUMNS = 'id, kind, file_name, content_type, size_bytes, width, height, storage_path, thumbnail_path';
+
+// What clients see: storage paths swapped for short-lived signed URLs
+export type SignedAttachment = Omit<AttachmentRow, 'storage_path' | 'thumbnail_path'> & {
+  url: string | null;
+  thumbnail_url: string | null;
+};
+
+const storagePaths = (rows: Pick<AttachmentRow, 'storage_path' | 'thumbnail_path'>[]) =>
+  rows.flatMap(row => [row.storage_path, row.thumbnail_path]).filter((path): path is string => !!path);
+
+// Swaps storage paths for signed URLs on every message's attachments in one call
+export const signMessageAttachments = async <T extends { attachments?: AttachmentRow[] | null }>(
+  supabase: SupabaseClient,
+  messages: T[],
+): Promise<(Omit<T, 'attachments'> & { attachments: SignedAttachment[] })[]> => {
+  const rows = messages.flatMap(message => message.attachments || []);
+  const paths = storagePaths(rows);
+  const urls = new Map<string, string>();
+
+  if (paths.length > 0) {
+    const { data } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+    (data || []).forEach(entry => {
+      if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl);
+    });
+  }
+
+  return messages.map(message => ({
+    ...message,
+    attachments: (message.attachments || []).map(({ storage_path, thumbnail_path, ...attachment }) => ({
+      ...attachment,
+      url: urls.get(storage_path) ?? null,
+      thumbnail_url: thumbnail_path ? urls.get(thumbnail_path) ?? null : null,
+    })),
+  }));
+};
+
+// Deletes attachment rows and their stored objects
+export const removeAttachments = async (supabase: SupabaseClient, rows: Pick<AttachmentRow, 'id' | 'storage_path' | 'thumbnail_path'>[]) => {
+  if (rows.length === 0) return;
+
+  const { error: storageError } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).remove(storagePaths(rows));
+  if (storageError) console.error('Chat attachments: storage removal failed');
+
+  await supabase.from('chat_attachments').delete().in('id', rows.map(row => row.id));
+};
+
+// Called whenever a message is deleted for everyone
+export const removeMessageAttachments = async (supabase: SupabaseClient, messageId: string) => {
+  const { data } = await supabase
+    .from('chat_attachments')
+    .select('id, storage_path, thumbnail_path')
+    .eq('message_id', messageId);
+
+  await removeAttachments(supabase, data || []);
+};
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { muteSession } from "./chat-mutes.ts";
+
+// Keep in sync with src/lib/chat-filter.ts
+export const FILTER_MATCH_TYPES = ['exact', 'wildcard', 'regex'] as const;
+export type FilterMatchType = typeof FILTER_MATCH_TYPES[number];
+
+export const FILTER_ACTIONS = ['reject', 'mask', 'flag', 'mute'] as const;
+export type FilterAction = typeof FILTER_ACTIONS[number];
+
+export interface FilterRule {
+  id: string;
+  pattern: string;
+  match_type: FilterMatchType;
+  action: FilterAction;
+  mute_minutes: number | null;
+  is_enabled: boolean;
+}
+
+export const FILTER_RULE_COLUMNS = 'id, pattern, match_type, action, mute_minutes, is_enabled, created_at, updated_at';
+export const MAX_FILTER_PATTERN_LENGTH = 200;
+export const DEFAULT_FILTER_MUTE_MINUTES = 10;
+
+export const isFilterMatchType = (value: unknown): value is FilterMatchType =>
+  typeof value === 'string' && (FILTER_MATCH_TYPES as readonly string[]).includes(value);
+
+export const isFilterAction = (value: unknown): value is FilterAction =>
+  typeof value === 'string' && (FILTER_ACTIONS as readonly string[]).includes(value);
+
+// Letters and digits in any script; used to keep exact and wildcard rules to whole words
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Null when a regex rule doesn't compile; such rules are skipped rather than blocking chat
+export const compileFilterRule = (rule: Pick<FilterRule, 'pattern' | 'match_type'>): RegExp | null => {
+  try {
+    if (rule.match_type === 'regex') return new RegExp(rule.pattern, 'giu');
+
+    const body = rule.match_type === 'wildcard'
+      ? rule.pattern.split('').map(char =>
+        char === '*' ? `${WORD_CHAR}*` : char === '?' ? WORD_CHAR : escapeRegex(char)
+      ).join('')
+      : escapeRegex(rule.pattern);
+
+    return new RegExp(`(?<!${WORD_CHAR})${body}(?!${WORD_CHAR})`, 'giu');
+  } catch {
+    return null;
+  }
+};
+
+export interface FilterHit {
+  rule: FilterRule;
+  matches: string[];
+}
+
+export interface FilterResult {
+  hits: FilterHit[];
+  // The rule that stops the message, preferring mute over reject
+  blockedBy: FilterHit | null;
+  // The message with every mask rule applied
+  message: string;
+  flaggedBy: FilterHit[];
+}
+
+// Pure so the admin tester shows exactly what sending would do
+export const evaluateFilter = (rules: FilterRule[], message: string): FilterResult => {
+  const hits: FilterHit[] = [];
+  let masked = message;
+
+  for (const rule of rules) {
+    const regex = compileFilterRule(rule);
+    if (!regex) continue;
+
+    const matches = Array.from(message.matchAll(regex), match => match[0]).filter(Boolean);
+    if (matches.length === 0) continue;
+
+    hits.push({ rule, matches });
+    if (rule.action === 'mask') {
+      masked = masked.replace(regex, match => '*'.repeat(match.length));
+    }
+  }
+
+  return {
+    hits,
+    blockedBy: hits.find(hit => hit.rule.action === 'mute') ?? hits.find(hit => hit.rule.action === 'reject') ?? null,
+    message: masked,
+    flaggedBy: hits.filter(hit => hit.rule.action === 'flag'),
+  };
+};
+
+const FILTER_RULES_CACHE_MS = 30 * 1000;
+let cachedRules: { rules: FilterRule[]; loadedAt: number } | null = null;
+
+export const loadFilterRules = async (supabase: SupabaseClient): Promise<FilterRule[]> => {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < FILTER_RULES_CACHE_MS) {
+    return cachedRules.rules;
+  }
+
+  const { data } = await supabase
+    .from('chat_filter_rules')
+    .select(FILTER_RULE_COLUMNS)
+    .eq('is_enabled', true)
+    .order('created_at', { ascending: true });
+
+  const rules = (data || []) as FilterRule[];
+  cachedRules = { rules, loadedAt: Date.now() };
+  return rules;
+};
+
+export interface FilterOutcome {
+  // Set when the message must not be stored
+  blocked: { error: string; reason?: string; muted_until?: string } | null;
+  message: string;
+  flaggedBy: FilterHit[];
+}
+
+// Runs the enabled rules against a message about to be stored, muting the sender if a mute rule matches
+export const applyChatFilter = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  message: string,
+): Promise<FilterOutcome> => {
+  const result = evaluateFilter(await loadFilterRules(supabase), message);
+
+  if (result.blockedBy?.rule.action === 'mute') {
+    const mute = await muteSession(supabase, {
+      session_id: sessionId,
+      minutes: result.blockedBy.rule.mute_minutes ?? DEFAULT_FILTER_MUTE_MINUTES,
+      reason: 'Automatic mute by the word filter',
+      rule_id: result.blockedBy.rule.id,
+      created_by: null,
+    });
+    return {
+      blocked: {
+        error: 'That message breaks the chat rules. You have been muted.',
+        reason: mute?.reason,
+        muted_until: mute?.expires_at,
+      },
+      message,
+      flaggedBy: [],
+    };
+  }
+
+  if (result.blockedBy) {
+    return { blocked: { error: 'That message breaks the chat rules' }, message, flaggedBy: [] };
+  }
+
+  return { blocked: null, message: result.message, flaggedBy: result.flaggedBy };
+};
+
+export const recordFilterFlags = async (supabase: SupabaseClient, messageId: string, flaggedBy: FilterHit[]) => {
+  if (flaggedBy.length === 0) return;
+
+  const { error } = await supabase
+    .from('chat_message_flags')
+    .insert(flaggedBy.map(({ rule, matches }) => ({
+      message_id: messageId,
+      rule_id: rule.id,
+      matched: matches.join(', ').slice(0, 200),
+    })));
+
+  if (error) console.error('Chat filter: flag insert failed');
+};
@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ChatPolicy } from "./chat-messages.ts";
+import type { RoomAccess } from "./chat-rooms.ts";
+
+// Flood protection for send-chat-message. Limits are counted from the
+// sender's own recent messages, so there is no separate counter to keep in sync.
+export const BURST_WINDOW_SECONDS = 10;
+const MINUTE_SECONDS = 60;
+
+export interface SendRejection {
+  status: number;
+  reason: 'slow_mode' | 'rate_limit' | 'duplicate';
+  error: string;
+  // Seconds until the sender may try again; absent when waiting won't help
+  retry_after?: number;
+}
+
+const secondsUntil = (sentAt: string, windowSeconds: number) =>
+  Math.max(1, Math.ceil((new Date(sentAt).getTime() + windowSeconds * 1000 - Date.now()) / 1000));
+
+const since = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+
+// Null when the message may be sent
+export const checkSendLimits = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  roomAccess: RoomAccess,
+  message: string,
+  policy: ChatPolicy,
+): Promise<SendRejection | null> => {
+  const { room, canManage } = roomAccess;
+
+  if (room.slow_mode_seconds > 0 && !canManage) {
+    const { data: last } = await supabase
+      .from('chat_messages')
+      .select('created_at')
+      .eq('session_id', sessionId)
+      .eq('room_id', room.id)
+      .gte('created_at', since(room.slow_mode_seconds))
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (last) {
+      const retryAfter = secondsUntil(last.created_at, room.slow_mode_seconds);
+      return {
+        status: 429,
+        reason: 'slow_mode',
+        error: `Slow mode is on. You can send another message in ${retryAfter} seconds.`,
+        retry_after: retryAfter,
+      };
+    }
+  }
+
+  // Newest first, so the Nth row is the one that has to age out of the window
+  const limit = Math.max(policy.burst_limit, policy.per_minute_limit);
+  if (limit > 0) {
+    const { data: recent } = await supabase
+      .from('chat_messages')
+      .select('created_at')
+      .eq('session_id', sessionId)
+      .gte('created_at', since(MINUTE_SECONDS))
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    const sentAt = (recent || []).map(m => m.created_at as string);
+    const burstStart = Date.now() - BURST_WINDOW_SECONDS * 1000;
+    const inBurst = sentAt.filter(at => new Date(at).getTime() >= burstStart);
+
+    const retryAfter = Math.max(
+      policy.burst_limit > 0 && inBurst.length >= policy.burst_limit
+        ? secondsUntil(inBurst[policy.burst_limit - 1], BURST_WINDOW_SECONDS)
+        : 0,
+      policy.per_minute_limit > 0 && sentAt.length >= policy.per_minute_limit
+        ? secondsUntil(sentAt[policy.per_minute_limit - 1], MINUTE_SECONDS)
+        : 0,
+    );
+
+    if (retryAfter > 0) {
+      return {
+        status: 429,
+        reason: 'rate_limit',
+        error: `You're sending messages too fast. Try again in ${retryAfter} seconds.`,
+        retry_after: retryAfter,
+      };
+    }
+  }
+
+  // Attachment-only messages have no text to compare
+  if (policy.duplicate_window_seconds > 0 && message) {
+    const { data: duplicate } = await supabase
+      .from('chat_messages')
+      .select('id')
+      .eq('session_id', sessionId)
+      .eq('room_id', room.id)
+      .eq('message', message)
+      .is('deleted_at', null)
+      .gte('created_at', since(policy.duplicate_window_seconds))
+      .limit(1)
+      .maybeSingle();
+
+    if (duplicate) {
+      return { status: 409, reason: 'duplicate', error: 'You just sent that message' };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MESSAGE_LENGTH, MAX_MESSAGE_LINES, normalizeChatMessage, validateChatMessage } from './chat-markdown.ts';
+
+describe('normalizeChatMessage', () => {
+  it('composes characters to NFC', () => {
+    expect(normalizeChatMessage('cafe\u0301')).toBe('caf\u00E9');
+  });
+
+  it('normalizes line endings and tabs', () => {
+    expect(normalizeChatMessage('a\r\nb\rc\td')).toBe('a\nb\nc  d');
+  });
+
+  it('strips control characters but keeps newlines', () => {
+    expect(normalizeChatMessage('a\u0000b\u0007c\u009F\nd')).toBe('abc\nd');
+  });
+
+  it('strips bidi overrides and isolates', () => {
+    expect(normalizeChatMessage('abc\u202Efed\u202C \u2066x\u2069')).toBe('abcfed x');
+  });
+
+  it('strips invisible characters but keeps emoji joiners', () => {
+    expect(normalizeChatMessage('\uFEFFa\u200Bb\u2060c')).toBe('abc');
+    expect(normalizeChatMessage('\u{1F468}\u200D\u{1F469}')).toBe('\u{1F468}\u200D\u{1F469}');
+  });
+
+  it('trims trailing spaces per line and the message as a whole', () => {
+    expect(normalizeChatMessage('  \n  indented   \nnext  \n\n')).toBe('indented\nnext');
+  });
+
+  it('collapses runs of blank lines to one', () => {
+    expect(normalizeChatMessage('a\n\n\n\nb\n \n \nc')).toBe('a\n\nb\n\nc');
+  });
+
+  it('leaves markdown untouched', () => {
+    const message = '**bold** `code` ||spoiler||\n```ts\nconst a = 1;\n```';
+    expect(normalizeChatMessage(message)).toBe(message);
+  });
+});
+
+describe('validateChatMessage', () => {
+  it('accepts messages within the limits', () => {
+    expect(validateChatMessage('hello')).toBeNull();
+    expect(validateChatMessage('x'.repeat(MAX_MESSAGE_LENGTH))).toBeNull();
+  });
+
+  it('rejects empty and overlong messages', () => {
+    expect(validateChatMessage(normalizeChatMessage(' \u200B '))).not.toBeNull();
+    expect(validateChatMessage('x'.repeat(MAX_MESSAGE_LENGTH + 1))).not.toBeNull();
+  });
+
+  it('rejects messages with too many lines', () => {
+    expect(validateChatMessage(Array(MAX_MESSAGE_LINES).fill('x').join('\n'))).toBeNull();
+    expect(validateChatMessage(Array(MAX_MESSAGE_LINES + 1).fill('x').join('\n'))).not.toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+// Chat messages are stored as plain text in a small markdown subset that
+// src/lib/chat-markdown.ts parses for display. Clients only ever render the
+// parsed tokens as React text, never as HTML, so normalization is about a
+// canonical form rather than escaping: the same visible message always
+// stores the same way, and nothing invisible can reorder or hide text.
+
+export const MAX_MESSAGE_LENGTH = 500;
+export const MAX_MESSAGE_LINES = 15;
+
+// C0/C1 controls other than newline and tab
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g;
+// Bidi overrides and isolates can make text read differently than it is stored
+const BIDI_CONTROLS = /[\u202A-\u202E\u2066-\u2069]/g;
+// Zero-width space, word joiner and BOM; joiners used by emoji and scripts are kept
+const INVISIBLE_CHARS = /[\u200B\u2060\uFEFF]/g;
+
+export const normalizeChatMessage = (raw: string): string =>
+  raw
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '  ')
+    .replace(CONTROL_CHARS, '')
+    .replace(BIDI_CONTROLS, '')
+    .replace(INVISIBLE_CHARS, '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    // At most one blank line in a row
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Null when the normalized message is fine to store
+export const validateChatMessage = (message: string): string | null => {
+  if (message.length === 0 || message.length > MAX_MESSAGE_LENGTH) {
+    return `Message must be 1-${MAX_MESSAGE_LENGTH} characters`;
+  }
+  if (message.split('\n').length > MAX_MESSAGE_LINES) {
+    return `Messages can have at most ${MAX_MESSAGE_LINES} lines`;
+  }
+  return null;
+};
@@ -0,0 +1,141 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getRoomAccess } from "./chat-rooms.ts";
+import { notify } from "./notifications.ts";
+import { ATTACHMENT_COLUMNS } from "./chat-attachments.ts";
+
+// Messages are served with a preview of the message they reply to, their reactions
+// and their attachments (whose storage paths are swapped for signed URLs before sending)
+export const MESSAGE_COLUMNS = [
+  'id, message, session_id, room_id, reply_to_id, created_at, edited_at, deleted_at, hidden_for_session_ids',
+  'reply_to:chat_messages!chat_messages_reply_to_id_fkey(id, message, session_id, deleted_at)',
+  'reactions:chat_reactions(emoji, session_id)',
+  `attachments:chat_attachments(${ATTACHMENT_COLUMNS})`,
+].join(', ');
+
+// Site-wide chat rules stored in site_settings under `chat_policy`.
+// Every limit can be turned off with 0.
+export interface ChatPolicy {
+  // How long authors can edit a message after sending it
+  edit_window_minutes: number;
+  // Most messages one session may send within BURST_WINDOW_SECONDS
+  burst_limit: number;
+  // Most messages one session may send within a minute
+  per_minute_limit: number;
+  // How long the same text can't be sent again in the same room
+  duplicate_window_seconds: number;
+}
+
+export const DEFAULT_CHAT_POLICY: ChatPolicy = {
+  edit_window_minutes: 15,
+  burst_limit: 5,
+  per_minute_limit: 20,
+  duplicate_window_seconds: 30,
+};
+
+export const MAX_EDIT_WINDOW_MINUTES = 24 * 60;
+export const MAX_RATE_LIMIT = 100;
+export const MAX_DUPLICATE_WINDOW_SECONDS = 60 * 60;
+
+// Fills in defaults for keys an older stored policy doesn't have
+export const parseChatPolicy = (value: unknown): ChatPolicy => {
+  const stored = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Partial<ChatPolicy>;
+  const read = (key: keyof ChatPolicy) => Number(stored[key] ?? DEFAULT_CHAT_POLICY[key]) || 0;
+
+  return {
+    edit_window_minutes: read('edit_window_minutes'),
+    burst_limit: read('burst_limit'),
+    per_minute_limit: read('per_minute_limit'),
+    duplicate_window_seconds: read('duplicate_window_seconds'),
+  };
+};
+
+const CHAT_POLICY_CACHE_MS = 60 * 1000;
+let cachedPolicy: { policy: ChatPolicy; loadedAt: number } | null = null;
+
+export const getChatPolicy = async (supabase: SupabaseClient): Promise<ChatPolicy> => {
+  if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < CHAT_POLICY_CACHE_MS) {
+    return cachedPolicy.policy;
+  }
+
+  const { data } = await supabase
+    .from('site_settings')
+    .select('value')
+    .eq('key', 'chat_policy')
+    .maybeSingle();
+
+  const policy = parseChatPolicy(data?.value);
+  cachedPolicy = { policy, loadedAt: Date.now() };
+  return policy;
+};
+
+// Keep in sync with src/lib/chat-messages.ts
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+
+export const isReactionEmoji = (value: unknown): value is string =>
+  typeof value === 'string' && REACTION_EMOJIS.includes(value);
+
+// Mentions are written @name; spaces in a username are typed as underscores
+const MENTION_PATTERN = /@([A-Za-z0-9_-]{2,20})/g;
+const MAX_MENTIONS = 5;
+
+export const mentionKey = (username: string) => username.trim().replace(/ /g, '_').toLowerCase();
+
+export const extractMentions = (message: string): string[] =>
+  Array.from(new Set(Array.from(message.matchAll(MENTION_PATTERN), match => match[1].toLowerCase())))
+    .slice(0, MAX_MENTIONS);
+
+// Sessions mentioned in a message that can read the room it was posted in
+export const resolveMentions = async (
+  supabase: SupabaseClient,
+  message: string,
+  roomId: string,
+  senderSessionId: string,
+): Promise<string[]> => {
+  const keys = extractMentions(message);
+  if (keys.length === 0) return [];
+
+  // `_` is a single character wildcard in ILIKE, so it also matches the spaces it stands for
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('session_id, username')
+    .or(keys.map(key => `username.ilike.${key}`).join(','));
+
+  const sessionIds = Array.from(new Set(
+    (profiles || [])
+      .filter(p => keys.includes(mentionKey(p.username)) && p.session_id !== senderSessionId)
+      .map(p => p.session_id as string)
+  ));
+  if (sessionIds.length === 0) return [];
+
+  const { data: sessions } = await supabase
+    .from('sessions')
+    .select('id, role')
+    .in('id', sessionIds);
+
+  const readable = await Promise.all(
+    (sessions || []).map(async session => (await getRoomAccess(supabase, roomId, session))?.canRead ? session.id : null)
+  );
+  return readable.filter((id): id is string => !!id);
+};
+
+// Mentioned sessions hear about it through their notifications, unless they turned mentions off
+export const notifyMentions = async (
+  supabase: SupabaseClient,
+  sessionIds: string[],
+  mention: { room: { id: string; name: string }; sender_session_id: string; message: string },
+) => {
+  if (sessionIds.length === 0) return;
+
+  const { data: sender } = await supabase
+    .from('profiles')
+    .select('username')
+    .eq('session_id', mention.sender_session_id)
+    .maybeSingle();
+
+  await notify(supabase, sessionIds, {
+    type: 'mention',
+    title: `${sender?.username || 'Someone'} mentioned you in ${mention.room.name}`,
+    body: mention.message,
+    link: `/chat?room=${mention.room.id}`,
+  });
+};
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { broadcast } from "./realtime.ts";
+
+// Mutes stop a session from posting, editing and typing in chat without
+// locking it out of the rest of the site the way a ban does.
+export interface ChatMute {
+  id: string;
+  session_id: string;
+  reason: string;
+  expires_at: string;
+}
+
+export const CHAT_MUTE_COLUMNS = 'id, session_id, reason, expires_at';
+export const MAX_MUTE_MINUTES = 7 * 24 * 60;
+export const MAX_MUTE_REASON_LENGTH = 200;
+
+// The mute that ends last among those still running, if any
+export const getActiveMute = async (supabase: SupabaseClient, sessionId: string): Promise<ChatMute | null> => {
+  const { data } = await supabase
+    .from('chat_mutes')
+    .select(CHAT_MUTE_COLUMNS)
+    .eq('session_id', sessionId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data as ChatMute | null;
+};
+
+export const muteSession = async (
+  supabase: SupabaseClient,
+  mute: { session_id: string; minutes: number; reason: string; rule_id?: string | null; created_by: string | null },
+): Promise<ChatMute | null> => {
+  const { data, error } = await supabase
+    .from('chat_mutes')
+    .insert({
+      session_id: mute.session_id,
+      reason: mute.reason,
+      expires_at: new Date(Date.now() + mute.minutes * 60 * 1000).toISOString(),
+      rule_id: mute.rule_id ?? null,
+      created_by: mute.created_by,
+    })
+    .select(CHAT_MUTE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Chat mutes: insert failed');
+    return null;
+  }
+
+  await pokeMuteChanged(mute.session_id);
+  return data as ChatMute;
+};
+
+// Each session has a chat status topic. Topics are public, so pokes carry nothing
+// and clients re-read their mute through chat-rooms.
+export const chatStatusTopic = (sessionId: string) => `chat-status:${sessionId}`;
+
+export const pokeMuteChanged = (sessionId: string) =>
+  broadcast(chatStatusTopic(sessionId), 'mute_changed', {});
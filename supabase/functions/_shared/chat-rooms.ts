@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getRoleAccess, type RoleAccess } from "./permissions.ts";
+import { broadcast } from "./realtime.ts";
+
+// public: anyone signed in. staff: roles with admin.access. invite: members only.
+// Room managers (chat.manage_rooms) can see and post in every room.
+export const CHAT_ROOM_VISIBILITIES = ['public', 'staff', 'invite'] as const;
+export type ChatRoomVisibility = typeof CHAT_ROOM_VISIBILITIES[number];
+
+export interface ChatRoom {
+  id: string;
+  name: string;
+  description: string | null;
+  visibility: ChatRoomVisibility;
+  is_default: boolean;
+  is_locked: boolean;
+  archived_at: string | null;
+  // Seconds between one person's messages; room managers are exempt
+  slow_mode_seconds: number;
+  created_at: string;
+}
+
+export const CHAT_ROOM_COLUMNS = 'id, name, description, visibility, is_default, is_locked, archived_at, slow_mode_seconds, created_at';
+export const MAX_SLOW_MODE_SECONDS = 60 * 60;
+
+export interface RoomAccess {
+  room: ChatRoom;
+  canRead: boolean;
+  canPost: boolean;
+  canManage: boolean;
+}
+
+export const isRoomVisibility = (value: unknown): value is ChatRoomVisibility =>
+  typeof value === 'string' && (CHAT_ROOM_VISIBILITIES as readonly string[]).includes(value);
+
+// Decides access from data the caller already loaded, so listing rooms needs no per-room queries
+export const resolveRoomAccess = (room: ChatRoom, access: RoleAccess, isMember: boolean): RoomAccess => {
+  const canManage = access.permissions.includes('chat.manage_rooms');
+  const canRead = canManage ||
+    room.visibility === 'public' ||
+    (room.visibility === 'staff' && access.permissions.includes('admin.access')) ||
+    (room.visibility === 'invite' && isMember);
+  const canPost = canRead && !room.archived_at && (!room.is_locked || canManage);
+
+  return { room, canRead, canPost, canManage };
+};
+
+// Null when the room doesn't exist; callers should treat unreadable rooms the same way
+export const getRoomAccess = async (
+  supabase: SupabaseClient,
+  roomId: unknown,
+  session: { id: string; role: string },
+): Promise<RoomAccess | null> => {
+  if (typeof roomId !== 'string' || !roomId) return null;
+
+  const { data: room } = await supabase
+    .from('chat_rooms')
+    .select(CHAT_ROOM_COLUMNS)
+    .eq('id', roomId)
+    .maybeSingle();
+
+  if (!room) return null;
+
+  const { data: membership } = room.visibility === 'invite'
+    ? await supabase
+      .from('chat_room_members')
+      .select('room_id')
+      .eq('room_id', room.id)
+      .eq('session_id', session.id)
+      .maybeSingle()
+    : { data: null };
+
+  return resolveRoomAccess(room as ChatRoom, await getRoleAccess(supabase, session.role), !!membership);
+};
+
+// Realtime pokes for a room's messages. Topics are public, so only ids are sent
+// and clients re-fetch the messages through chat-rooms.
+export const chatRoomTopic = (roomId: string) => `chat-room:${roomId}`;
+export const CHAT_ROOMS_TOPIC = 'chat-rooms';
+
+export type ChatRoomEvent =
+  | { event: 'message_created'; payload: { message_id: string } }
+  | { event: 'message_updated'; payload: { message_id: string } };
+
+export const pokeRoom = (roomId: string, { event, payload }: ChatRoomEvent) =>
+  broadcast(chatRoomTopic(roomId), event, payload);
+
+// Tells open chats to re-read their room list
+export const pokeRoomList = () => broadcast(CHAT_ROOMS_TOPIC, 'rooms_changed', {});
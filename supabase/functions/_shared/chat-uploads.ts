@@ -0,0 +1,199 @@
+import { decode, GIF, Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { MAX_FILE_BYTES, MAX_IMAGE_BYTES, type AttachmentKind } from "./chat-attachments.ts";
+
+// Validation and re-encoding for chat uploads. Kept apart from chat-attachments.ts
+// so only the upload function loads the image codecs.
+
+const MAX_IMAGE_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+const JPEG_QUALITY = 85;
+// Checked against the header before decoding: about 64 MB once decoded to RGBA
+const MAX_IMAGE_PIXELS = 16_000_000;
+
+export interface PreparedUpload {
+  kind: AttachmentKind;
+  content_type: string;
+  extension: string;
+  body: Uint8Array;
+  width: number | null;
+  height: number | null;
+  thumbnail: Uint8Array | null;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+// Types come from the file's bytes, never from its name or the client's claim
+const sniffImage = (bytes: Uint8Array) =>
+  startsWith(bytes, [0x89, 0x50, 0x4e, 0x47]) ? 'png'
+    : startsWith(bytes, [0xff, 0xd8, 0xff]) ? 'jpeg'
+      : startsWith(bytes, [0x47, 0x49, 0x46, 0x38]) ? 'gif'
+        : null;
+
+// Small non-image files, matched on both extension and content
+const FILE_TYPES: Record<string, { content_type: string; matches: (bytes: Uint8Array) => boolean }> = {
+  pdf: { content_type: 'application/pdf', matches: bytes => startsWith(bytes, [0x25, 0x50, 0x44, 0x46]) },
+  zip: { content_type: 'application/zip', matches: bytes => startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) },
+  txt: {
+    content_type: 'text/plain',
+    matches: bytes => {
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  },
+};
+
+const readU16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readU16LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const readU32BE = (bytes: Uint8Array, offset: number) => readU16BE(bytes, offset) * 0x10000 + readU16BE(bytes, offset + 2);
+
+type ImageSize = { width: number; height: number };
+
+// Width and height from IHDR, which the PNG spec requires to be the first chunk
+const readPngSize = (bytes: Uint8Array): ImageSize | null =>
+  bytes.length >= 24 && startsWith(bytes, [0x49, 0x48, 0x44, 0x52], 12)
+    ? { width: readU32BE(bytes, 16), height: readU32BE(bytes, 20) }
+    : null;
+
+// Walks the marker segments up to the first start-of-frame header
+const readJpegSize = (bytes: Uint8Array): ImageSize | null => {
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+    } else if (marker === 0xd9 || marker === 0xda) {
+      return null;
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: readU16BE(bytes, offset + 7), height: readU16BE(bytes, offset + 5) };
+    } else {
+      offset += 2 + readU16BE(bytes, offset + 2);
+    }
+  }
+  return null;
+};
+
+// The logical screen, grown to cover the first frame in case that frame overflows it
+const readGifSize = (bytes: Uint8Array): ImageSize | null => {
+  if (bytes.length < 13) return null;
+  const screen = { width: readU16LE(bytes, 6), height: readU16LE(bytes, 8) };
+  let offset = 13 + (bytes[10] & 0x80 ? 3 * (2 << (bytes[10] & 0x07)) : 0);
+
+  while (offset < bytes.length) {
+    if (bytes[offset] === 0x2c) {
+      if (offset + 9 > bytes.length) return null;
+      return {
+        width: Math.max(screen.width, readU16LE(bytes, offset + 1) + readU16LE(bytes, offset + 5)),
+        height: Math.max(screen.height, readU16LE(bytes, offset + 3) + readU16LE(bytes, offset + 7)),
+      };
+    }
+    if (bytes[offset] !== 0x21) return null;
+    // Extension: introducer and label, then data sub-blocks up to an empty one
+    offset += 2;
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    offset += 1;
+  }
+  return null;
+};
+
+const IMAGE_SIZE_READERS = { png: readPngSize, jpeg: readJpegSize, gif: readGifSize };
+
+export const ALLOWED_FILE_EXTENSIONS = Object.keys(FILE_TYPES);
+
+const fitWithin = (image: Image, max: number) =>
+  image.width > max || image.height > max
+    ? image.width >= image.height
+      ? image.resize(max, Image.RESIZE_AUTO)
+      : image.resize(Image.RESIZE_AUTO, max)
+    : image;
+
+// Images are decoded and re-encoded, which drops metadata (including location)
+// and anything smuggled after the pixel data. GIFs keep only their first frame.
+export const prepareUpload = async (
+  bytes: Uint8Array,
+  fileName: string,
+): Promise<{ upload: PreparedUpload; error: null } | { upload: null; error: string }> => {
+  const imageType = sniffImage(bytes);
+
+  if (imageType) {
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      return { upload: null, error: `Images must be ${MAX_IMAGE_BYTES / 1024 / 1024} MB or smaller` };
+    }
+
+    // Decoding allocates width * height * 4 bytes whatever the file size, so the
+    // header is checked first to keep a small, highly compressed file from
+    // exhausting memory
+    const size = IMAGE_SIZE_READERS[imageType](bytes);
+    if (!size || size.width === 0 || size.height === 0) {
+      return { upload: null, error: 'That image could not be read' };
+    }
+    if (size.width * size.height > MAX_IMAGE_PIXELS) {
+      return { upload: null, error: `Images must be ${MAX_IMAGE_PIXELS / 1_000_000} megapixels or smaller` };
+    }
+
+    let image: Image;
+    try {
+      const decoded = await decode(bytes, true);
+      image = decoded instanceof GIF ? decoded[0] : decoded;
+    } catch {
+      return { upload: null, error: 'That image could not be read' };
+    }
+
+    const full = fitWithin(image, MAX_IMAGE_DIMENSION);
+    const thumbnail = fitWithin(full.clone(), THUMBNAIL_DIMENSION);
+    // JPEG stays JPEG; PNG and GIF may have transparency, so they become PNG
+    const asJpeg = imageType === 'jpeg';
+    const body = asJpeg ? await full.encodeJPEG(JPEG_QUALITY) : await full.encode();
+
+    // Re-encoding can grow a file (a well-compressed GIF becoming PNG), and the
+    // bucket rejects anything over MAX_IMAGE_BYTES
+    if (body.length > MAX_IMAGE_BYTES) {
+      return { upload: null, error: 'That image is too large once processed. Try a smaller image or a JPEG' };
+    }
+
+    return {
+      upload: {
+        kind: 'image',
+        content_type: asJpeg ? 'image/jpeg' : 'image/png',
+        extension: asJpeg ? 'jpg' : 'png',
+        body,
+        width: full.width,
+        height: full.height,
+        thumbnail: asJpeg ? await thumbnail.encodeJPEG(JPEG_QUALITY) : await thumbnail.encode(),
+      },
+      error: null,
+    };
+  }
+
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const fileType = FILE_TYPES[extension];
+  if (!fileType) {
+    return { upload: null, error: `Attach an image or a ${ALLOWED_FILE_EXTENSIONS.join(', ')} file` };
+  }
+  if (bytes.length > MAX_FILE_BYTES) {
+    return { upload: null, error: `Files must be ${MAX_FILE_BYTES / 1024 / 1024} MB or smaller` };
+  }
+  if (!fileType.matches(bytes)) {
+    return { upload: null, error: `That file is not a valid .${extension} file` };
+  }
+
+  return {
+    upload: {
+      kind: 'file',
+      content_type: fileType.content_type,
+      extension,
+      body: bytes,
+      width: null,
+      height: null,
+      thumbnail: null,
+    },
+    error: null,
+  };
+};
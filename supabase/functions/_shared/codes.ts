@@ -0,0 +1,11 @@
+// Human-friendly codes (invites, pairing): no 0/O/1/I/L to avoid misreads.
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generateCode = (length = 10) => {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(values, (v) => CODE_ALPHABET[v % CODE_ALPHABET.length]).join('');
+};
+
+// Codes are shown grouped/lowercased by some keyboards; compare on the bare form.
+export const normalizeCode = (code: unknown) =>
+  typeof code === 'string' ? code.replace(/[\s-]/g, '').toUpperCase() : '';
@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { pokeSessions } from "./realtime.ts";
+
+// Devices are linked to a session (the identity) through `session_devices`.
+// Bans, roles and profiles belong to the session, so every lookup that starts
+// from a device ID goes through here.
+
+export const MAX_DEVICE_LABEL_LENGTH = 60;
+
+export interface IdentitySession {
+  id: string;
+  device_id: string;
+  account_id: string | null;
+  role: string;
+  is_banned: boolean;
+  ip_address: string | null;
+}
+
+// Resolve the identity a device belongs to. Sessions created before devices
+// were tracked separately still match on their original device_id.
+export const findSessionForDevice = async (
+  supabase: SupabaseClient,
+  deviceId: string,
+): Promise<IdentitySession | null> => {
+  const { data: link } = await supabase
+    .from('session_devices')
+    .select('session_id')
+    .eq('device_id', deviceId)
+    .maybeSingle();
+
+  const query = supabase.from('sessions').select('id, device_id, account_id, role, is_banned, ip_address');
+  const { data: session } = link
+    ? await query.eq('id', link.session_id).maybeSingle()
+    : await query.eq('device_id', deviceId).maybeSingle();
+
+  return (session as IdentitySession | null) ?? null;
+};
+
+export const getSessionDeviceIds = async (supabase: SupabaseClient, sessionId: string): Promise<string[]> => {
+  const { data } = await supabase
+    .from('session_devices')
+    .select('device_id')
+    .eq('session_id', sessionId);
+
+  return (data || []).map((row: { device_id: string }) => row.device_id);
+};
+
+// Bans the given devices plus every device linked to the identity, so
+// switching devices doesn't dodge it. Returns how many devices were banned.
+export const banIdentity = async (
+  supabase: SupabaseClient,
+  targetSession: { id: string } | null,
+  deviceIds: string[],
+  bannedBy: string,
+): Promise<{ error: unknown; count: number }> => {
+  const allDeviceIds = Array.from(new Set([
+    ...deviceIds,
+    ...(targetSession ? await getSessionDeviceIds(supabase, targetSession.id) : []),
+  ]));
+
+  const { error } = await supabase
+    .from('banned_devices')
+    .upsert(
+      allDeviceIds.map((device_id) => ({ device_id, banned_by: bannedBy })),
+      { onConflict: 'device_id', ignoreDuplicates: true }
+    );
+
+  if (error) return { error, count: 0 };
+
+  if (targetSession) {
+    await supabase
+      .from('sessions')
+      .update({ is_banned: true })
+      .eq('id', targetSession.id);
+
+    await pokeSessions([targetSession.id]);
+  }
+
+  return { error: null, count: allDeviceIds.length };
+};
+
+export const linkDevice = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  deviceId: string,
+  details: { label?: unknown; ip_address?: string | null } = {},
+) => {
+  const label = typeof details.label === 'string'
+    ? details.label.trim().slice(0, MAX_DEVICE_LABEL_LENGTH) || null
+    : null;
+
+  return await supabase
+    .from('session_devices')
+    .upsert(
+      {
+        session_id: sessionId,
+        device_id: deviceId,
+        ...(label ? { label } : {}),
+        ...(details.ip_address ? { ip_address: details.ip_address } : {}),
+        // Linking is a fresh sign-in, which restarts the session lifetime
+        signed_in_at: new Date().toISOString(),
+        last_active_at: new Date().toISOString(),
+      },
+      { onConflict: 'device_id' }
+    )
+    .select('id')
+    .single();
+};
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { broadcast } from "./realtime.ts";
+
+export interface DmThread {
+  id: string;
+  profile_a: string;
+  profile_b: string;
+  profile_a_read_at: string | null;
+  profile_b_read_at: string | null;
+  last_message_at: string | null;
+  created_at: string;
+}
+
+export const DM_THREAD_COLUMNS = 'id, profile_a, profile_b, profile_a_read_at, profile_b_read_at, last_message_at, created_at';
+export const DM_MESSAGE_COLUMNS = 'id, thread_id, sender_profile_id, message, created_at';
+
+// Threads store the pair in a fixed order so each pair has exactly one row
+export const orderProfilePair = (first: string, second: string): [string, string] =>
+  first < second ? [first, second] : [second, first];
+
+export const isParticipant = (thread: DmThread, profileId: string) =>
+  thread.profile_a === profileId || thread.profile_b === profileId;
+
+export const otherParticipant = (thread: DmThread, profileId: string) =>
+  thread.profile_a === profileId ? thread.profile_b : thread.profile_a;
+
+export const readMarkerColumn = (thread: DmThread, profileId: string) =>
+  thread.profile_a === profileId ? 'profile_a_read_at' : 'profile_b_read_at';
+
+// Whether blocker has blocked blocked; blocks only stop messages in that direction
+export const hasBlocked = async (supabase: SupabaseClient, blocker: string, blocked: string) => {
+  const { data } = await supabase
+    .from('dm_blocks')
+    .select('blocker_profile_id')
+    .eq('blocker_profile_id', blocker)
+    .eq('blocked_profile_id', blocked)
+    .maybeSingle();
+
+  return !!data;
+};
+
+// Each profile has an inbox topic. Topics are public, so pokes carry only ids
+// and clients re-fetch through direct-messages.
+export const dmInboxTopic = (profileId: string) => `dm-inbox:${profileId}`;
+
+export const pokeDmInboxes = async (profileIds: string[], payload: { thread_id: string; message_id?: string }) => {
+  await Promise.all(
+    Array.from(new Set(profileIds)).map(id => broadcast(dmInboxTopic(id), 'dm_changed', payload))
+  );
+};
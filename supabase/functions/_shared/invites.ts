@@ -0,0 +1,39 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeCode } from "./codes.ts";
+
+// Invites are redeemed either by registering a new account with one or by
+// signing in with one on a device that would otherwise wait for approval.
+export type InviteUseKind = 'register' | 'login';
+
+export interface ClaimedInvite {
+  id: string;
+  role: string;
+}
+
+export const MAX_INVITE_USES = 100;
+
+// Takes one use of the invite and records who used it. Returns null when the
+// code is unknown, revoked, expired or used up.
+export const claimInvite = async (
+  supabase: SupabaseClient,
+  code: unknown,
+  use: { kind: InviteUseKind; account_id: string; device_id?: string | null; ip_address?: string | null },
+): Promise<ClaimedInvite | null> => {
+  const normalized = normalizeCode(code);
+  if (!normalized) return null;
+
+  const { data, error } = await supabase
+    .rpc('claim_account_invite', {
+      _code: normalized,
+      _kind: use.kind,
+      _account_id: use.account_id,
+      _device_id: use.device_id ?? null,
+      _ip_address: use.ip_address ?? null,
+    })
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const row = data as { invite_id: string; invite_role: string };
+  return { id: row.invite_id, role: row.invite_role };
+};
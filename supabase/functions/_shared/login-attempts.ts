@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Failed logins are counted per client IP and per device. Once a source
+// exceeds its free attempts every further failure locks it out for twice as
+// long as the last one, up to MAX_LOCKOUT_SECONDS. A source that stays quiet
+// for ATTEMPT_WINDOW_MS starts over from zero.
+//
+// IPs get more free attempts than devices because a whole school or office
+// can sit behind one address.
+const FREE_ATTEMPTS = { ip: 10, device: 3 } as const;
+const BASE_LOCKOUT_SECONDS = 5;
+const MAX_LOCKOUT_SECONDS = 15 * 60;
+const ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+export type AttemptSourceType = keyof typeof FREE_ATTEMPTS;
+
+export interface AttemptSource {
+  type: AttemptSourceType;
+  value: string;
+}
+
+interface AttemptRow {
+  id: string;
+  source_type: AttemptSourceType;
+  source: string;
+  failed_count: number;
+  locked_until: string | null;
+  last_failed_at: string;
+}
+
+const loadAttempts = async (supabase: SupabaseClient, sources: AttemptSource[]): Promise<AttemptRow[]> => {
+  const rows = await Promise.all(
+    sources.map(({ type, value }) =>
+      supabase
+        .from('auth_attempts')
+        .select('id, source_type, source, failed_count, locked_until, last_failed_at')
+        .eq('source_type', type)
+        .eq('source', value)
+        .maybeSingle()
+    )
+  );
+  return rows.map(({ data }) => data as AttemptRow | null).filter((row): row is AttemptRow => !!row);
+};
+
+const getLockoutSeconds = (type: AttemptSourceType, failedCount: number) => {
+  const overLimit = failedCount - FREE_ATTEMPTS[type];
+  if (overLimit <= 0) return 0;
+  return Math.min(BASE_LOCKOUT_SECONDS * 2 ** (overLimit - 1), MAX_LOCKOUT_SECONDS);
+};
+
+// Seconds until every given source may try again; 0 when none is locked out.
+export const getRetryAfter = async (supabase: SupabaseClient, sources: AttemptSource[]) => {
+  const rows = await loadAttempts(supabase, sources);
+  const lockedUntil = Math.max(0, ...rows.map((row) => (row.locked_until ? new Date(row.locked_until).getTime() : 0)));
+  return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+};
+
+// Counts a failure against every source and returns the resulting lockout in seconds.
+export const recordFailedAttempt = async (supabase: SupabaseClient, sources: AttemptSource[]) => {
+  const rows = await loadAttempts(supabase, sources);
+  const now = Date.now();
+  let retryAfter = 0;
+
+  for (const { type, value } of sources) {
+    const row = rows.find((r) => r.source_type === type && r.source === value);
+    const isStale = !row || now - new Date(row.last_failed_at).getTime() > ATTEMPT_WINDOW_MS;
+    const failedCount = isStale ? 1 : row.failed_count + 1;
+    const lockoutSeconds = getLockoutSeconds(type, failedCount);
+    retryAfter = Math.max(retryAfter, lockoutSeconds);
+
+    await supabase
+      .from('auth_attempts')
+      .upsert(
+        {
+          source_type: type,
+          source: value,
+          failed_count: failedCount,
+          locked_until: lockoutSeconds ? new Date(now + lockoutSeconds * 1000).toISOString() : null,
+          last_failed_at: new Date(now).toISOString(),
+        },
+        { onConflict: 'source_type,source' }
+      );
+  }
+
+  return retryAfter;
+};
+
+export const clearAttempts = async (supabase: SupabaseClient, sources: AttemptSource[]) => {
+  await Promise.all(
+    sources.map(({ type, value }) =>
+      supabase.from('auth_attempts').delete().eq('source_type', type).eq('source', value)
+    )
+  );
+};
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { broadcastMany } from "./realtime.ts";
+
+// Keep in sync with src/lib/notifications.ts
+export const NOTIFICATION_TYPES = ['mention', 'announcement', 'waiting_list'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const isNotificationType = (value: unknown): value is NotificationType =>
+  typeof value === 'string' && (NOTIFICATION_TYPES as readonly string[]).includes(value);
+
+export const NOTIFICATION_COLUMNS = 'id, type, title, body, link, read_at, created_at';
+
+export interface NewNotification {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  // In-app path the notification opens, such as /chat?room=<id>
+  link?: string | null;
+}
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_BODY_LENGTH = 300;
+// Keeps `in` filters and insert payloads a reasonable size for site-wide fan-out
+const BATCH_SIZE = 200;
+
+const clip = (value: string, max: number) => value.length > max ? `${value.slice(0, max - 1)}…` : value;
+
+const chunk = <T>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / BATCH_SIZE) }, (_, i) => items.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE));
+
+// Each session has a notifications topic. Topics are public, so pokes carry nothing
+// and clients re-read their notifications through the notifications function.
+export const notificationsTopic = (sessionId: string) => `notifications:${sessionId}`;
+
+// Writes the notification for every session that hasn't turned its type off, then pokes them
+export const notify = async (
+  supabase: SupabaseClient,
+  sessionIds: (string | null | undefined)[],
+  notification: NewNotification,
+) => {
+  const ids = Array.from(new Set(sessionIds.filter((id): id is string => !!id)));
+  if (ids.length === 0) return;
+
+  const optedOut = new Set<string>();
+  for (const batch of chunk(ids)) {
+    const { data } = await supabase
+      .from('notification_opt_outs')
+      .select('session_id')
+      .eq('type', notification.type)
+      .in('session_id', batch);
+    (data || []).forEach(row => optedOut.add(row.session_id));
+  }
+
+  const recipients = ids.filter(id => !optedOut.has(id));
+  if (recipients.length === 0) return;
+
+  const row = {
+    type: notification.type,
+    title: clip(notification.title, MAX_TITLE_LENGTH),
+    body: notification.body ? clip(notification.body, MAX_BODY_LENGTH) : null,
+    link: notification.link ?? null,
+  };
+
+  for (const batch of chunk(recipients)) {
+    const { error } = await supabase
+      .from('notifications')
+      .insert(batch.map(session_id => ({ session_id, ...row })));
+
+    if (error) {
+      console.error('Notifications: insert failed', { type: notification.type });
+      return;
+    }
+
+    await broadcastMany(batch.map(id => ({ topic: notificationsTopic(id), event: 'notification_created', payload: {} })));
+  }
+};
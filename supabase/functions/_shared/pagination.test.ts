@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, olderThan } from './pagination.ts';
+
+const ID = '3f2b8c1e-9d4a-4e6b-8a7c-1b2d3e4f5a6b';
+
+describe('decodeCursor', () => {
+  it('round-trips cursors it issued', () => {
+    const cursor = { created_at: '2026-10-19T12:34:56.123456+00:00', id: ID };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(decodeCursor(encodeCursor({ created_at: '2026-10-19T12:34:56Z', id: ID }))).not.toBeNull();
+  });
+
+  it('rejects timestamps that Date.parse would accept', () => {
+    for (const createdAt of ['Jan 1 2020 (",x)', '2020-01-01', '2020-01-01 00:00:00', '2026-10-19T12:34:56+00:00"']) {
+      expect(decodeCursor(encodeCursor({ created_at: createdAt, id: ID }))).toBeNull();
+    }
+  });
+
+  it('rejects ids that are not UUIDs', () => {
+    expect(decodeCursor(encodeCursor({ created_at: '2026-10-19T12:34:56Z', id: '1),id.gt.0' }))).toBeNull();
+  });
+
+  it('rejects values that are not cursors', () => {
+    expect(decodeCursor('')).toBeNull();
+    expect(decodeCursor('not base64!')).toBeNull();
+    expect(decodeCursor(btoa('{}'))).toBeNull();
+    expect(decodeCursor(42)).toBeNull();
+  });
+});
+
+describe('olderThan', () => {
+  it('builds a keyset filter from the cursor', () => {
+    expect(olderThan({ created_at: '2026-10-19T12:34:56Z', id: ID })).toBe(
+      `created_at.lt."2026-10-19T12:34:56Z",and(created_at.eq."2026-10-19T12:34:56Z",id.lt.${ID})`
+    );
+  });
+});
@@ -0,0 +1,51 @@
+// Keyset pagination over (created_at, id), newest first. Cursors are opaque to
+// clients: they hand back the next_cursor they were given to load older rows.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageCursor {
+  created_at: string;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Timestamps as PostgREST returns them. Date.parse alone accepts far more, and
+// the value ends up inside an `or` filter, so nothing else may get through.
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+export const encodeCursor = ({ created_at, id }: PageCursor) => btoa(JSON.stringify([created_at, id]));
+
+// Null for anything that isn't a cursor we issued, so callers can answer 400
+export const decodeCursor = (value: unknown): PageCursor | null => {
+  if (typeof value !== 'string' || !value) return null;
+
+  try {
+    const [createdAt, id] = JSON.parse(atob(value));
+    if (typeof createdAt !== 'string' || !TIMESTAMP_PATTERN.test(createdAt) || Number.isNaN(Date.parse(createdAt))) {
+      return null;
+    }
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+};
+
+export const clampPageSize = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value)
+    ? Math.min(Math.max(value, 1), MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE;
+
+// PostgREST `or` filter for rows strictly older than the cursor
+export const olderThan = ({ created_at, id }: PageCursor) =>
+  `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`;
+
+// Callers fetch one row more than the page size to learn whether more exist
+export const toPage = <T extends PageCursor>(rows: T[], pageSize: number) => {
+  const items = rows.slice(0, pageSize);
+  return {
+    items,
+    next_cursor: rows.length > pageSize ? encodeCursor(items[items.length - 1]) : null,
+  };
+};
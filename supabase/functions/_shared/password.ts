@@ -0,0 +1,65 @@
+// Account passwords are stored as salted PBKDF2-SHA256 hashes in the form
+// `pbkdf2_sha256$<iterations>$<salt>$<hash>` so the cost can be raised later
+// without invalidating existing hashes.
+const HASH_SCHEME = 'pbkdf2_sha256';
+const HASH_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+};
+
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const validatePassword = (password: unknown): { valid: boolean; error?: string } => {
+  if (typeof password !== 'string') {
+    return { valid: false, error: 'Password is required' };
+  }
+  if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    return { valid: false, error: `Password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters` };
+  }
+  return { valid: true };
+};
+
+export const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, HASH_ITERATIONS);
+  return `${HASH_SCHEME}$${HASH_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== HASH_SCHEME || !salt || !hash || !Number(iterations)) return false;
+
+  const actual = await derive(password, fromBase64(salt), Number(iterations));
+  return timingSafeEqual(actual, fromBase64(hash));
+};
+
+// Burns the same amount of work as a real check so unknown usernames
+// can't be told apart from wrong passwords by response time.
+let dummyHash: string | null = null;
+export const verifyDummyPassword = async (password: string) => {
+  dummyHash ??= await hashPassword(crypto.randomUUID());
+  await verifyPassword(password, dummyHash);
+  return false;
+};
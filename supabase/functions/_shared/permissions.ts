@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Everything a role can be allowed to do. Roles are granted permissions
+// through `role_permissions`; keep this list in sync with src/lib/permissions.ts.
+export const PERMISSIONS = [
+  'admin.access',
+  'users.ban',
+  'sessions.delete',
+  'users.manage_roles',
+  'roles.manage',
+  'accounts.manage',
+  'site.manage',
+  'waiting_list.manage',
+  'announcements.manage',
+  'chat.delete_any',
+  'chat.manage_rooms',
+  'chat.moderate',
+  'chat.search',
+  'games.manage',
+  'apps.manage',
+  'ai.premium_models',
+  'ai.extended_quota',
+  'ai.unlimited',
+  'agent.use',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// The owner role holds every permission implicitly so it can never lock itself out
+export const OWNER_ROLE = 'owner';
+export const DEFAULT_ROLE = 'user';
+export const OWNER_RANK = 100;
+
+export interface RoleAccess {
+  name: string;
+  rank: number;
+  permissions: Permission[];
+}
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+
+// Unknown roles resolve to no permissions at the lowest rank
+export const getRoleAccess = async (supabase: SupabaseClient, role: string | null | undefined): Promise<RoleAccess> => {
+  if (!role) return { name: DEFAULT_ROLE, rank: 0, permissions: [] };
+
+  const { data } = await supabase
+    .from('roles')
+    .select('name, rank, role_permissions(permission)')
+    .eq('name', role)
+    .maybeSingle();
+
+  if (!data) return { name: role, rank: 0, permissions: [] };
+
+  const row = data as { name: string; rank: number; role_permissions: { permission: string }[] };
+  if (row.name === OWNER_ROLE) {
+    return { name: row.name, rank: row.rank, permissions: [...PERMISSIONS] };
+  }
+
+  return {
+    name: row.name,
+    rank: row.rank,
+    permissions: (row.role_permissions || []).map(({ permission }) => permission).filter(isPermission),
+  };
+};
+
+export const hasPermission = async (
+  supabase: SupabaseClient,
+  role: string | null | undefined,
+  permission: Permission,
+): Promise<boolean> => (await getRoleAccess(supabase, role)).permissions.includes(permission);
+
+// Sessions whose role grants a permission, e.g. to tell staff about work waiting for them
+export const getSessionsWithPermission = async (supabase: SupabaseClient, permission: Permission): Promise<string[]> => {
+  const { data: grants } = await supabase
+    .from('role_permissions')
+    .select('role')
+    .eq('permission', permission);
+
+  const roles = Array.from(new Set([OWNER_ROLE, ...(grants || []).map(grant => grant.role as string)]));
+  const { data: sessions } = await supabase
+    .from('sessions')
+    .select('id')
+    .in('role', roles)
+    .eq('is_banned', false);
+
+  return (sessions || []).map(session => session.id as string);
+};
+
+export const getRoleRank = async (supabase: SupabaseClient, role: string | null | undefined): Promise<number> => {
+  if (!role) return 0;
+
+  const { data } = await supabase
+    .from('roles')
+    .select('rank')
+    .eq('name', role)
+    .maybeSingle();
+
+  return data?.rank ?? 0;
+};
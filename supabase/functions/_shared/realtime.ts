@@ -0,0 +1,56 @@
+// Server-side Realtime broadcasts. Topics are public, so payloads are only
+// "pokes" naming what changed; clients re-fetch the details through an
+// authenticated function (e.g. whoami) rather than trusting the message.
+
+export const AUTH_EVENTS_TOPIC = 'auth-events';
+
+export type AuthEvent =
+  | { event: 'session_changed'; payload: { session_ids: string[] } }
+  | { event: 'site_status'; payload: Record<string, never> };
+
+export interface BroadcastMessage {
+  topic: string;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+// Uses the Realtime REST endpoint so a function can broadcast without holding
+// a socket open. Failures are logged and swallowed: the periodic whoami sync
+// still catches clients up if a poke is lost.
+export const broadcastMany = async (messages: BroadcastMessage[]) => {
+  if (messages.length === 0) return;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const { topic, event } = messages[0];
+
+  try {
+    const response = await fetch(`${supabaseUrl}/realtime/v1/api/broadcast`, {
+      method: 'POST',
+      headers: {
+        apikey: supabaseServiceKey,
+        Authorization: `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ messages }),
+    });
+
+    if (!response.ok) {
+      console.error('Realtime broadcast failed', { topic, event, count: messages.length, status: response.status });
+    }
+  } catch {
+    console.error('Realtime broadcast error', { topic, event, count: messages.length });
+  }
+};
+
+export const broadcast = (topic: string, event: string, payload: Record<string, unknown>) =>
+  broadcastMany([{ topic, event, payload }]);
+
+export const broadcastAuthEvent = ({ event, payload }: AuthEvent) =>
+  broadcast(AUTH_EVENTS_TOPIC, event, payload);
+
+export const pokeSessions = async (sessionIds: (string | null | undefined)[]) => {
+  const ids = Array.from(new Set(sessionIds.filter((id): id is string => !!id)));
+  if (ids.length === 0) return;
+  await broadcastAuthEvent({ event: 'session_changed', payload: { session_ids: ids } });
+};
@@ -0,0 +1,188 @@
+import { create, getNumericDate, verify } from "https://deno.land/x/djwt@v3.0.2/mod.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Session tokens are HS256 JWTs signed with SESSION_SIGNING_SECRET.
+// They identify a row in `sessions` and the linked device it was issued to;
+// the rows themselves stay authoritative, so deleting or banning a session
+// revokes every token issued for it and unlinking a device revokes its tokens.
+const SESSION_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+// Activity is recorded at most this often so busy clients don't write on every call
+const ACTIVITY_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const SESSION_POLICY_CACHE_MS = 60 * 1000;
+
+// Owner-configurable lifetimes, stored in site_settings under `session_policy`.
+// A device is signed out once either limit passes; 0 disables that limit.
+export interface SessionPolicy {
+  absolute_hours: number;
+  idle_hours: number;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = { absolute_hours: 720, idle_hours: 168 };
+export const MAX_SESSION_POLICY_HOURS = 24 * 365;
+
+export interface SessionTokenPayload {
+  sid: string;
+  // Linked device; tokens issued before multi-device support omit it
+  did?: string;
+  role: string;
+  iat: number;
+  exp: number;
+}
+
+export interface VerifiedSession {
+  id: string;
+  // The device making this request, not necessarily the one that created the session
+  device_id: string;
+  account_id: string | null;
+  role: string;
+  is_banned: boolean;
+  ip_address: string | null;
+}
+
+// Machine-readable reason a session was rejected, for clients that react differently to each
+export type SessionRejection = 'expired' | 'idle' | 'not_found' | 'banned' | 'disabled' | 'device_signed_out';
+
+export type VerifySessionResult =
+  | { session: VerifiedSession; error: null; status: 200; code: null }
+  | { session: null; error: string; status: number; code: SessionRejection };
+
+let signingKey: CryptoKey | null = null;
+
+const getSigningKey = async (): Promise<CryptoKey> => {
+  if (signingKey) return signingKey;
+
+  const secret = Deno.env.get('SESSION_SIGNING_SECRET');
+  if (!secret) {
+    throw new Error('SESSION_SIGNING_SECRET is not configured');
+  }
+
+  signingKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+  return signingKey;
+};
+
+export const issueSessionToken = async (session: { id: string; device_id: string; role: string }) => {
+  const exp = getNumericDate(SESSION_TOKEN_TTL_SECONDS);
+  const payload: SessionTokenPayload = {
+    sid: session.id,
+    did: session.device_id,
+    role: session.role,
+    iat: getNumericDate(0),
+    exp,
+  };
+
+  const token = await create({ alg: 'HS256', typ: 'JWT' }, { ...payload }, await getSigningKey());
+  return { token, expires_at: new Date(exp * 1000).toISOString() };
+};
+
+let cachedPolicy: { policy: SessionPolicy; loadedAt: number } | null = null;
+
+export const getSessionPolicy = async (supabase: SupabaseClient): Promise<SessionPolicy> => {
+  if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < SESSION_POLICY_CACHE_MS) {
+    return cachedPolicy.policy;
+  }
+
+  const { data } = await supabase
+    .from('site_settings')
+    .select('value')
+    .eq('key', 'session_policy')
+    .maybeSingle();
+
+  const value = (data?.value ?? {}) as Partial<SessionPolicy>;
+  const policy: SessionPolicy = {
+    absolute_hours: Number(value.absolute_hours ?? DEFAULT_SESSION_POLICY.absolute_hours) || 0,
+    idle_hours: Number(value.idle_hours ?? DEFAULT_SESSION_POLICY.idle_hours) || 0,
+  };
+
+  cachedPolicy = { policy, loadedAt: Date.now() };
+  return policy;
+};
+
+// Returns null for anything that is missing, malformed, tampered with or expired.
+export const readSessionToken = async (token: unknown): Promise<SessionTokenPayload | null> => {
+  if (typeof token !== 'string' || token.length === 0) return null;
+
+  try {
+    const payload = await verify(token, await getSigningKey());
+    if (typeof payload.sid !== 'string') return null;
+    return payload as unknown as SessionTokenPayload;
+  } catch {
+    return null;
+  }
+};
+
+// Shared caller verification used by every edge function.
+export const verifySession = async (
+  supabase: SupabaseClient,
+  token: unknown,
+): Promise<VerifySessionResult> => {
+  const payload = await readSessionToken(token);
+  if (!payload) {
+    return { session: null, error: 'Session expired. Please log in again.', status: 401, code: 'expired' };
+  }
+
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .select('id, device_id, account_id, role, is_banned, ip_address, account:accounts(is_disabled)')
+    .eq('id', payload.sid)
+    .maybeSingle();
+
+  if (error || !session) {
+    return { session: null, error: 'Session not found. Please log in again.', status: 401, code: 'not_found' };
+  }
+
+  if (session.is_banned) {
+    return { session: null, error: 'Your account has been banned', status: 403, code: 'banned' };
+  }
+
+  // Disabling an account revokes every session signed in to it
+  const { account, ...verified } = session as VerifiedSession & { account: { is_disabled: boolean } | null };
+  if (account?.is_disabled) {
+    return { session: null, error: 'Your account has been disabled', status: 403, code: 'disabled' };
+  }
+
+  // Tokens issued before multi-device support belong to the session's original device
+  const deviceId = payload.did ?? verified.device_id;
+  const { data: device } = await supabase
+    .from('session_devices')
+    .select('id, signed_in_at, last_active_at')
+    .eq('session_id', verified.id)
+    .eq('device_id', deviceId)
+    .maybeSingle();
+
+  if (!device) {
+    return { session: null, error: 'This device has been signed out. Please log in again.', status: 401, code: 'device_signed_out' };
+  }
+  verified.device_id = deviceId;
+
+  const now = Date.now();
+  const policy = await getSessionPolicy(supabase);
+  const signedInFor = now - new Date(device.signed_in_at).getTime();
+  const idleFor = now - new Date(device.last_active_at).getTime();
+
+  if (policy.absolute_hours > 0 && signedInFor > policy.absolute_hours * 60 * 60 * 1000) {
+    await supabase.from('session_devices').delete().eq('id', device.id);
+    return { session: null, error: 'Session expired. Please log in again.', status: 401, code: 'expired' };
+  }
+
+  if (policy.idle_hours > 0 && idleFor > policy.idle_hours * 60 * 60 * 1000) {
+    await supabase.from('session_devices').delete().eq('id', device.id);
+    return { session: null, error: 'Signed out after a period of inactivity. Please log in again.', status: 401, code: 'idle' };
+  }
+
+  if (idleFor > ACTIVITY_TOUCH_INTERVAL_MS) {
+    const lastActiveAt = new Date(now).toISOString();
+    await Promise.all([
+      supabase.from('session_devices').update({ last_active_at: lastActiveAt }).eq('id', device.id),
+      supabase.from('sessions').update({ last_active_at: lastActiveAt }).eq('id', verified.id),
+    ]);
+  }
+
+  return { session: verified, error: null, status: 200, code: null };
+};
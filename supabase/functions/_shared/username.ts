@@ -0,0 +1,29 @@
+// Reserved words that cannot be used in usernames
+const RESERVED_WORDS = ['admin', 'system', 'bot', 'moderator', 'mod', 'support', 'official', 'owner'];
+
+// Username validation: alphanumeric, spaces, underscores, hyphens only
+export const isValidUsername = (username: string): { valid: boolean; error?: string } => {
+  const trimmed = username.trim();
+
+  if (trimmed.length < 2 || trimmed.length > 20) {
+    return { valid: false, error: 'Username must be 2-20 characters' };
+  }
+
+  // Only allow alphanumeric, space, underscore, hyphen
+  if (!/^[a-zA-Z0-9 _-]+$/.test(trimmed)) {
+    return { valid: false, error: 'Username can only contain letters, numbers, spaces, _ and -' };
+  }
+
+  // No multiple consecutive spaces
+  if (/\s{2,}/.test(trimmed)) {
+    return { valid: false, error: 'No multiple consecutive spaces allowed' };
+  }
+
+  // Check reserved words
+  const lowerUsername = trimmed.toLowerCase();
+  if (RESERVED_WORDS.some(word => lowerUsername.includes(word))) {
+    return { valid: false, error: 'Username contains reserved words' };
+  }
+
+  return { valid: true };
+};
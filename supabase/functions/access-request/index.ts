@@ -0,0 +1,152 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashRequestToken, validateAccessRequest } from "../_shared/access-requests.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+// Lets an applicant read and edit their own waiting list entry. They have no
+// session yet, so the request token issued by authenticate identifies them.
+// The waiting list itself is closed to the anon key; this is the only way in.
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, request_token, device_id, display_name, message } = await req.json();
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The login screen polls this for a device without a request token. It
+    // answers with the status alone, never the applicant's details.
+    if (action === 'status') {
+      if (typeof device_id !== 'string' || !device_id) {
+        return new Response(
+          JSON.stringify({ error: 'device_id required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: waiting } = await supabase
+        .from('waiting_list')
+        .select('status')
+        .eq('device_id', device_id)
+        .maybeSingle();
+
+      return new Response(
+        JSON.stringify({ status: waiting?.status ?? null }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (typeof request_token !== 'string' || !request_token) {
+      return new Response(
+        JSON.stringify({ error: 'request_token required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: entry } = await supabase
+      .from('waiting_list')
+      .select('id, display_name, message, status, created_at, updated_at')
+      .eq('edit_token_hash', await hashRequestToken(request_token))
+      .maybeSingle();
+
+    if (!entry) {
+      return new Response(
+        JSON.stringify({ error: 'Access request not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'get': {
+        return new Response(
+          JSON.stringify({ request: entry }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'update': {
+        // Reviewed requests are final
+        if (entry.status !== 'pending') {
+          return new Response(
+            JSON.stringify({ error: 'This request has already been reviewed' }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { details, error: validationError } = validateAccessRequest(display_name, message);
+        if (!details) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: updated, error } = await supabase
+          .from('waiting_list')
+          .update(details)
+          .eq('id', entry.id)
+          .eq('status', 'pending')
+          .select('id, display_name, message, status, created_at, updated_at')
+          .maybeSingle();
+
+        if (error || !updated) {
+          console.error('Access request: update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update request' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Access request: updated', { waiting_id: entry.id });
+        return new Response(
+          JSON.stringify({ success: true, request: updated }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Invalid action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Access request function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
+import { DEFAULT_PAGE_SIZE, decodeCursor, olderThan, toPage } from "../_shared/pagination.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -30,11 +33,11 @@ serve(async (req) => {
   }
 
   try {
-    const { device_id } = await req.json();
+    const { session_token, messages_before, revisions_for } = await req.json();
 
-    if (!device_id) {
+    if (!session_token) {
       return new Response(
-        JSON.stringify({ error: 'Missing required field: device_id' }),
+        JSON.stringify({ error: 'Missing required field: session_token' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -44,52 +47,118 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify the caller is an admin
-    const { data: callerSession, error: callerError } = await supabase
-      .from('sessions')
-      .select('id, role, is_banned')
-      .eq('device_id', device_id)
-      .single();
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
 
-    if (callerError || !callerSession) {
+    if (!callerSession) {
+      console.log('Admin-data: rejected session', { status: callerStatus });
       return new Response(
-        JSON.stringify({ error: 'Unauthorized - session not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (callerSession.is_banned) {
-      console.log('Admin-data: banned user attempt');
+    if (!(await hasPermission(supabase, callerSession.role, 'admin.access'))) {
+      console.log('Admin-data: non-admin attempt');
       return new Response(
-        JSON.stringify({ error: 'Your account has been banned' }),
+        JSON.stringify({ error: 'Unauthorized - admin access required' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (callerSession.role !== 'admin' && callerSession.role !== 'owner') {
-      console.log('Admin-data: non-admin attempt');
+    // Earlier versions of one edited message
+    if (revisions_for) {
+      const { data: revisions, error } = await supabase
+        .from('chat_message_revisions')
+        .select('id, message, edited_by, created_at')
+        .eq('message_id', revisions_for)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Admin-data: revisions failed');
+        return new Response(
+          JSON.stringify({ error: 'Failed to load edit history' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
       return new Response(
-        JSON.stringify({ error: 'Unauthorized - admin access required' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ revisions: revisions || [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const messagesCursor = messages_before ? decodeCursor(messages_before) : null;
+    if (messages_before && !messagesCursor) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid cursor' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Chat history across every room, newest first, one page at a time
+    const fetchMessagesPage = () => {
+      let query = supabase.from('chat_messages').select('id, session_id, room_id, message, created_at, edited_at, deleted_at, attachments:chat_attachments(kind, file_name)');
+      if (messagesCursor) query = query.or(olderThan(messagesCursor));
+      return query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(DEFAULT_PAGE_SIZE + 1);
+    };
+
+    // Older pages only need the messages
+    if (messagesCursor) {
+      const { data: messages, error } = await fetchMessagesPage();
+
+      if (error) {
+        console.error('Admin-data: messages page failed');
+        return new Response(
+          JSON.stringify({ error: 'Failed to load messages' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const page = toPage(messages || [], DEFAULT_PAGE_SIZE);
+      return new Response(
+        JSON.stringify({ chatMessages: page.items, chatMessagesCursor: page.next_cursor }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     // Fetch all admin data using service role
-    const [sessionsRes, bannedRes, messagesRes, profilesRes] = await Promise.all([
-      supabase.from('sessions').select('*').order('last_active_at', { ascending: false }),
+    const [sessionsRes, bannedRes, messagesRes, profilesRes, lockoutsRes, rolesRes, mutesRes] = await Promise.all([
+      supabase.from('sessions').select('*, session_devices(count)').order('last_active_at', { ascending: false }),
       supabase.from('banned_devices').select('*').order('banned_at', { ascending: false }),
-      supabase.from('chat_messages').select('*').order('created_at', { ascending: false }).limit(100),
-      supabase.from('profiles').select('session_id, username')
+      fetchMessagesPage(),
+      supabase.from('profiles').select('session_id, username'),
+      supabase
+        .from('auth_attempts')
+        .select('id, source_type, source, failed_count, locked_until, last_failed_at')
+        .gt('locked_until', new Date().toISOString())
+        .order('locked_until', { ascending: false }),
+      supabase.from('roles').select('name, label, rank').order('rank', { ascending: false }),
+      supabase
+        .from('chat_mutes')
+        .select('id, session_id, reason, expires_at, rule_id, created_by, created_at')
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true })
     ]);
 
+    const messagesPage = toPage(messagesRes.data || [], DEFAULT_PAGE_SIZE);
+
     console.log('Admin-data: fetched successfully');
 
     return new Response(
       JSON.stringify({
         sessions: sessionsRes.data || [],
         bannedDevices: bannedRes.data || [],
-        chatMessages: messagesRes.data || [],
-        profiles: profilesRes.data || []
+        chatMessages: messagesPage.items,
+        chatMessagesCursor: messagesPage.next_cursor,
+        profiles: profilesRes.data || [],
+        lockouts: lockoutsRes.data || [],
+        roles: rolesRes.data || [],
+        chatMutes: mutesRes.data || []
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MAX_SESSION_POLICY_HOURS, verifySession } from "../_shared/session.ts";
+import { banIdentity, findSessionForDevice, getSessionDeviceIds } from "../_shared/devices.ts";
+import { broadcastAuthEvent, pokeSessions } from "../_shared/realtime.ts";
+import { OWNER_ROLE, getRoleAccess, getRoleRank, type Permission } from "../_shared/permissions.ts";
+import {
+  MAX_DUPLICATE_WINDOW_SECONDS,
+  MAX_EDIT_WINDOW_MINUTES,
+  MAX_RATE_LIMIT,
+  parseChatPolicy,
+  type ChatPolicy,
+} from "../_shared/chat-messages.ts";
+import { MAX_MUTE_MINUTES, MAX_MUTE_REASON_LENGTH, muteSession, pokeMuteChanged } from "../_shared/chat-mutes.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -9,6 +21,23 @@ const allowedOrigins = [
   'https://gptengineer.app'
 ];
 
+// Permission each action requires; role rank then limits who it can target
+const ACTION_PERMISSIONS: Record<string, Permission> = {
+  ban_device: 'users.ban',
+  unban_device: 'users.ban',
+  ban_ip: 'users.ban',
+  unban_ip: 'users.ban',
+  clear_lockout: 'users.ban',
+  delete_session: 'sessions.delete',
+  toggle_site: 'site.manage',
+  set_session_policy: 'site.manage',
+  set_chat_policy: 'site.manage',
+  expire_role_sessions: 'site.manage',
+  change_role: 'users.manage_roles',
+  mute_session: 'chat.moderate',
+  unmute_session: 'chat.moderate',
+};
+
 const getCorsHeaders = (origin: string | null) => {
   const allowedOrigin = origin && allowedOrigins.some(allowed => 
     origin === allowed || origin.endsWith('.lovable.dev') || origin.endsWith('.gptengineer.app') || origin.endsWith('.lovableproject.com') || origin.endsWith('.lovable.app')
@@ -30,9 +59,9 @@ serve(async (req) => {
   }
 
   try {
-    const { action, device_id, target_device_id, target_session_id, target_ip, new_role, enabled } = await req.json();
+    const { action, session_token, target_device_id, target_session_id, target_ip, target_attempt_id, new_role, target_role, enabled, absolute_hours, idle_hours, edit_window_minutes, burst_limit, per_minute_limit, duplicate_window_seconds, duration_minutes, reason, target_mute_id } = await req.json();
 
-    if (!action || !device_id) {
+    if (!action || !session_token) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -44,36 +73,30 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify the caller is an admin or owner
-    const { data: callerSession, error: callerError } = await supabase
-      .from('sessions')
-      .select('id, role, is_banned')
-      .eq('device_id', device_id)
-      .single();
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
 
-    if (callerError || !callerSession) {
+    if (!callerSession) {
+      console.log('Admin-ops: rejected session', { status: callerStatus });
       return new Response(
-        JSON.stringify({ error: 'Unauthorized - session not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (callerSession.is_banned) {
-      console.log('Admin-ops: banned user attempt');
+    const requiredPermission = ACTION_PERMISSIONS[action];
+    if (!requiredPermission) {
       return new Response(
-        JSON.stringify({ error: 'Your account has been banned' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Unknown action' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const callerRole = callerSession.role;
-    const isOwner = callerRole === 'owner';
-    const isAdmin = callerRole === 'admin' || isOwner;
-
-    if (!isAdmin) {
-      console.log('Admin-ops: non-admin attempt');
+    const callerAccess = await getRoleAccess(supabase, callerSession.role);
+    if (!callerAccess.permissions.includes(requiredPermission)) {
+      console.log('Admin-ops: missing permission', { action });
       return new Response(
-        JSON.stringify({ error: 'Unauthorized - admin access required' }),
+        JSON.stringify({ error: 'You do not have permission to do that' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -88,47 +111,33 @@ serve(async (req) => {
           );
         }
 
+        // Bans apply to the identity the device is linked to
+        const targetSession = await findSessionForDevice(supabase, target_device_id);
+
         // Prevent self-ban
-        if (target_device_id === device_id) {
+        if (target_device_id === callerSession.device_id || targetSession?.id === callerSession.id) {
           return new Response(
             JSON.stringify({ error: 'Cannot ban yourself' }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Get target's role to check ban permissions
-        const { data: targetSession } = await supabase
-          .from('sessions')
-          .select('role')
-          .eq('device_id', target_device_id)
-          .single();
-
-        const targetRole = targetSession?.role || 'user';
-
-        // Role hierarchy: owner > admin > user
-        // Owners can ban anyone (admins and users)
-        // Admins can only ban users (not other admins or owners)
-        if (targetRole === 'owner') {
+        // Role hierarchy: owners can never be banned, everyone else only by higher ranks
+        if (targetSession?.role === OWNER_ROLE) {
           return new Response(
             JSON.stringify({ error: 'Cannot ban an owner' }),
             { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        if (targetRole === 'admin' && !isOwner) {
+        if (await getRoleRank(supabase, targetSession?.role) >= callerAccess.rank) {
           return new Response(
-            JSON.stringify({ error: 'Only owners can ban admins' }),
+            JSON.stringify({ error: 'You can only ban roles ranked below yours' }),
             { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Insert into banned_devices
-        const { error: banError } = await supabase
-          .from('banned_devices')
-          .insert({
-            device_id: target_device_id,
-            banned_by: callerSession.id
-          });
+        const { error: banError, count: bannedCount } = await banIdentity(supabase, targetSession, [target_device_id], callerSession.id);
 
         if (banError) {
           console.error('Admin-ops: ban operation failed');
@@ -138,15 +147,9 @@ serve(async (req) => {
           );
         }
 
-        // Update session to mark as banned
-        await supabase
-          .from('sessions')
-          .update({ is_banned: true })
-          .eq('device_id', target_device_id);
-
-        console.log('Admin-ops: device banned successfully');
+        console.log('Admin-ops: device banned successfully', { devices: bannedCount });
         return new Response(
-          JSON.stringify({ success: true, message: 'Device banned' }),
+          JSON.stringify({ success: true, message: 'Device banned', affected_devices: bannedCount }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
@@ -162,23 +165,23 @@ serve(async (req) => {
         // Get all sessions with this IP to check roles
         const { data: ipSessions } = await supabase
           .from('sessions')
-          .select('role, device_id')
+          .select('id, role, device_id')
           .eq('ip_address', target_ip);
 
         // Check if any session is an owner
-        const hasOwner = ipSessions?.some(s => s.role === 'owner');
-        if (hasOwner) {
+        const ipRoles = Array.from(new Set((ipSessions || []).map(s => s.role)));
+        if (ipRoles.includes(OWNER_ROLE)) {
           return new Response(
             JSON.stringify({ error: 'Cannot ban an owner IP' }),
             { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Check if any session is an admin and caller is not owner
-        const hasAdmin = ipSessions?.some(s => s.role === 'admin');
-        if (hasAdmin && !isOwner) {
+        // Every identity behind the IP must rank below the caller
+        const ipRanks = await Promise.all(ipRoles.map((role) => getRoleRank(supabase, role)));
+        if (ipRanks.some((rank) => rank >= callerAccess.rank)) {
           return new Response(
-            JSON.stringify({ error: 'Only owners can ban admin IPs' }),
+            JSON.stringify({ error: 'You can only ban IPs used by roles ranked below yours' }),
             { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
@@ -206,6 +209,8 @@ serve(async (req) => {
             .from('sessions')
             .update({ is_banned: true })
             .in('device_id', deviceIds);
+
+          await pokeSessions(ipSessions.map(s => s.id));
         }
 
         console.log('Admin-ops: IP banned successfully');
@@ -230,10 +235,13 @@ serve(async (req) => {
           .eq('ip_address', target_ip);
 
         // Unban all sessions with this IP
-        await supabase
+        const { data: unbannedSessions } = await supabase
           .from('sessions')
           .update({ is_banned: false })
-          .eq('ip_address', target_ip);
+          .eq('ip_address', target_ip)
+          .select('id');
+
+        await pokeSessions((unbannedSessions || []).map(s => s.id));
 
         console.log('Admin-ops: IP unbanned successfully');
         return new Response(
@@ -242,6 +250,35 @@ serve(async (req) => {
         );
       }
 
+      case 'clear_lockout': {
+        if (!target_attempt_id) {
+          return new Response(
+            JSON.stringify({ error: 'target_attempt_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Dropping the row resets both the lockout and the failure count
+        const { error: clearError } = await supabase
+          .from('auth_attempts')
+          .delete()
+          .eq('id', target_attempt_id);
+
+        if (clearError) {
+          console.error('Admin-ops: clear lockout failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to clear lockout' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Admin-ops: lockout cleared successfully');
+        return new Response(
+          JSON.stringify({ success: true, message: 'Lockout cleared' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
       case 'unban_device': {
         if (!target_device_id) {
           return new Response(
@@ -250,17 +287,27 @@ serve(async (req) => {
           );
         }
 
+        // Lift the ban from the whole identity, mirroring ban_device
+        const targetSession = await findSessionForDevice(supabase, target_device_id);
+        const deviceIds = targetSession
+          ? Array.from(new Set([target_device_id, ...(await getSessionDeviceIds(supabase, targetSession.id))]))
+          : [target_device_id];
+
         // Delete from banned_devices
         await supabase
           .from('banned_devices')
           .delete()
-          .eq('device_id', target_device_id);
+          .in('device_id', deviceIds);
 
         // Update session to mark as not banned
-        await supabase
-          .from('sessions')
-          .update({ is_banned: false })
-          .eq('device_id', target_device_id);
+        if (targetSession) {
+          await supabase
+            .from('sessions')
+            .update({ is_banned: false })
+            .eq('id', targetSession.id);
+
+          await pokeSessions([targetSession.id]);
+        }
 
         console.log('Admin-ops: device unbanned successfully');
         return new Response(
@@ -278,18 +325,33 @@ serve(async (req) => {
         }
 
         // Prevent self-delete
-        if (target_device_id === device_id) {
+        if (target_device_id === callerSession.device_id || target_session_id === callerSession.id) {
           return new Response(
             JSON.stringify({ error: 'Cannot delete your own session' }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
+        const { data: targetDeleteSession } = await supabase
+          .from('sessions')
+          .select('role')
+          .eq('id', target_session_id)
+          .maybeSingle();
+
+        if (targetDeleteSession && await getRoleRank(supabase, targetDeleteSession.role) >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only delete sessions of roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         await supabase
           .from('sessions')
           .delete()
           .eq('id', target_session_id);
 
+        await pokeSessions([target_session_id]);
+
         console.log('Admin-ops: session deleted successfully');
         return new Response(
           JSON.stringify({ success: true, message: 'Session deleted' }),
@@ -298,14 +360,6 @@ serve(async (req) => {
       }
 
       case 'toggle_site': {
-        // Only owners can toggle site
-        if (!isOwner) {
-          return new Response(
-            JSON.stringify({ error: 'Only owners can toggle site status' }),
-            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-
         if (typeof enabled !== 'boolean') {
           return new Response(
             JSON.stringify({ error: 'enabled (boolean) required' }),
@@ -330,6 +384,8 @@ serve(async (req) => {
           );
         }
 
+        await broadcastAuthEvent({ event: 'site_status', payload: {} });
+
         console.log(`Admin-ops: site ${enabled ? 'enabled' : 'disabled'} successfully`);
         return new Response(
           JSON.stringify({ success: true, message: `Site ${enabled ? 'enabled' : 'disabled'}`, enabled }),
@@ -338,14 +394,6 @@ serve(async (req) => {
       }
 
       case 'change_role': {
-        // Only owners can change roles
-        if (!isOwner) {
-          return new Response(
-            JSON.stringify({ error: 'Only owners can change user roles' }),
-            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-
         if (!target_device_id || !new_role) {
           return new Response(
             JSON.stringify({ error: 'target_device_id and new_role required' }),
@@ -353,30 +401,39 @@ serve(async (req) => {
           );
         }
 
+        // Roles belong to the identity the device is linked to
+        const targetSessionData = await findSessionForDevice(supabase, target_device_id);
+
         // Cannot change own role
-        if (target_device_id === device_id) {
+        if (target_device_id === callerSession.device_id || targetSessionData?.id === callerSession.id) {
           return new Response(
             JSON.stringify({ error: 'Cannot change your own role' }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Validate role value
-        const validRoles = ['user', 'admin'];
-        if (!validRoles.includes(new_role)) {
+        // Only roles ranked below the caller can be handed out
+        const { data: newRoleData } = await supabase
+          .from('roles')
+          .select('name, rank')
+          .eq('name', new_role)
+          .maybeSingle();
+
+        if (!newRoleData || newRoleData.name === OWNER_ROLE) {
           return new Response(
-            JSON.stringify({ error: 'Invalid role. Must be "user" or "admin"' }),
+            JSON.stringify({ error: 'Invalid role' }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // Get target session to ensure they exist and aren't an owner
-        const { data: targetSessionData } = await supabase
-          .from('sessions')
-          .select('role')
-          .eq('device_id', target_device_id)
-          .single();
+        if (newRoleData.rank >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only assign roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
 
+        // Ensure the target exists and isn't an owner
         if (!targetSessionData) {
           return new Response(
             JSON.stringify({ error: 'Target session not found' }),
@@ -385,17 +442,47 @@ serve(async (req) => {
         }
 
         // Cannot change owner roles
-        if (targetSessionData.role === 'owner') {
+        if (targetSessionData.role === OWNER_ROLE) {
           return new Response(
             JSON.stringify({ error: 'Cannot change owner role' }),
             { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        const { error: roleError } = await supabase
-          .from('sessions')
-          .update({ role: new_role })
-          .eq('device_id', target_device_id);
+        if (await getRoleRank(supabase, targetSessionData.role) >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only change roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // The role lives on the account; its sessions carry a copy for token claims
+        if (targetSessionData.account_id) {
+          const { error: accountRoleError } = await supabase
+            .from('accounts')
+            .update({ role: new_role })
+            .eq('id', targetSessionData.account_id);
+
+          if (accountRoleError) {
+            console.error('Admin-ops: change account role failed');
+            return new Response(
+              JSON.stringify({ error: 'Failed to change role' }),
+              { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+        }
+
+        const { data: updatedSessions, error: roleError } = targetSessionData.account_id
+          ? await supabase
+            .from('sessions')
+            .update({ role: new_role })
+            .eq('account_id', targetSessionData.account_id)
+            .select('id')
+          : await supabase
+            .from('sessions')
+            .update({ role: new_role })
+            .eq('id', targetSessionData.id)
+            .select('id');
 
         if (roleError) {
           console.error('Admin-ops: change role failed');
@@ -405,6 +492,8 @@ serve(async (req) => {
           );
         }
 
+        await pokeSessions((updatedSessions || []).map(s => s.id));
+
         console.log(`Admin-ops: role changed to ${new_role} successfully`);
         return new Response(
           JSON.stringify({ success: true, message: `Role changed to ${new_role}` }),
@@ -412,6 +501,300 @@ serve(async (req) => {
         );
       }
 
+      case 'set_session_policy': {
+        const isValidHours = (value: unknown) =>
+          Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_SESSION_POLICY_HOURS;
+
+        if (!isValidHours(absolute_hours) || !isValidHours(idle_hours)) {
+          return new Response(
+            JSON.stringify({ error: `Lifetimes must be whole hours between 0 and ${MAX_SESSION_POLICY_HOURS}` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error: policyError } = await supabase
+          .from('site_settings')
+          .upsert(
+            {
+              key: 'session_policy',
+              value: { absolute_hours, idle_hours },
+              updated_at: new Date().toISOString(),
+              updated_by: callerSession.id
+            },
+            { onConflict: 'key' }
+          );
+
+        if (policyError) {
+          console.error('Admin-ops: session policy update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update session lifetimes' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Admin-ops: session policy updated', { absolute_hours, idle_hours });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Session lifetimes updated', policy: { absolute_hours, idle_hours } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'mute_session': {
+        if (!target_session_id) {
+          return new Response(
+            JSON.stringify({ error: 'target_session_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!Number.isInteger(duration_minutes) || duration_minutes < 1 || duration_minutes > MAX_MUTE_MINUTES) {
+          return new Response(
+            JSON.stringify({ error: `Mute length must be whole minutes between 1 and ${MAX_MUTE_MINUTES}` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (typeof reason !== 'string' || !reason.trim() || reason.trim().length > MAX_MUTE_REASON_LENGTH) {
+          return new Response(
+            JSON.stringify({ error: `Reason must be 1-${MAX_MUTE_REASON_LENGTH} characters` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (target_session_id === callerSession.id) {
+          return new Response(
+            JSON.stringify({ error: 'Cannot mute yourself' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: muteTarget } = await supabase
+          .from('sessions')
+          .select('id, role')
+          .eq('id', target_session_id)
+          .maybeSingle();
+
+        if (!muteTarget) {
+          return new Response(
+            JSON.stringify({ error: 'Session not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Same hierarchy as bans: owners never, everyone else only by higher ranks
+        if (muteTarget.role === OWNER_ROLE || await getRoleRank(supabase, muteTarget.role) >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only mute roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const mute = await muteSession(supabase, {
+          session_id: muteTarget.id,
+          minutes: duration_minutes,
+          reason: reason.trim(),
+          created_by: callerSession.id,
+        });
+
+        if (!mute) {
+          return new Response(
+            JSON.stringify({ error: 'Failed to mute user' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Admin-ops: session muted', { duration_minutes });
+        return new Response(
+          JSON.stringify({ success: true, message: 'User muted', mute }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'unmute_session': {
+        if (!target_mute_id) {
+          return new Response(
+            JSON.stringify({ error: 'target_mute_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: activeMute } = await supabase
+          .from('chat_mutes')
+          .select('id, session_id, created_by')
+          .eq('id', target_mute_id)
+          .is('revoked_at', null)
+          .maybeSingle();
+
+        if (!activeMute) {
+          return new Response(
+            JSON.stringify({ error: 'Mute not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Including the word filter's automatic mutes
+        if (activeMute.session_id === callerSession.id) {
+          return new Response(
+            JSON.stringify({ error: 'Cannot unmute yourself' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const [{ data: mutedSession }, { data: muteCreator }] = await Promise.all([
+          supabase.from('sessions').select('role').eq('id', activeMute.session_id).maybeSingle(),
+          activeMute.created_by
+            ? supabase.from('sessions').select('role').eq('id', activeMute.created_by).maybeSingle()
+            : Promise.resolve({ data: null }),
+        ]);
+
+        // The hierarchy mute_session enforces, and a mute from a higher rank stays theirs to lift
+        if (
+          mutedSession?.role === OWNER_ROLE ||
+          await getRoleRank(supabase, mutedSession?.role) >= callerAccess.rank ||
+          (muteCreator && await getRoleRank(supabase, muteCreator.role) > callerAccess.rank)
+        ) {
+          return new Response(
+            JSON.stringify({ error: 'You can only unmute roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: revoked, error: revokeError } = await supabase
+          .from('chat_mutes')
+          .update({ revoked_at: new Date().toISOString(), revoked_by: callerSession.id })
+          .eq('id', activeMute.id)
+          .is('revoked_at', null)
+          .select('session_id')
+          .maybeSingle();
+
+        if (revokeError) {
+          console.error('Admin-ops: unmute failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to unmute user' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (revoked) await pokeMuteChanged(revoked.session_id);
+
+        console.log('Admin-ops: mute revoked');
+        return new Response(
+          JSON.stringify({ success: true, message: 'User unmuted' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'set_chat_policy': {
+        const isWholeNumber = (value: unknown, max: number) =>
+          value === undefined || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max);
+
+        const validationError =
+          (!isWholeNumber(edit_window_minutes, MAX_EDIT_WINDOW_MINUTES) ? `Edit window must be whole minutes between 0 and ${MAX_EDIT_WINDOW_MINUTES}` : null) ||
+          (!isWholeNumber(burst_limit, MAX_RATE_LIMIT) ? `Burst limit must be a whole number between 0 and ${MAX_RATE_LIMIT}` : null) ||
+          (!isWholeNumber(per_minute_limit, MAX_RATE_LIMIT) ? `Per-minute limit must be a whole number between 0 and ${MAX_RATE_LIMIT}` : null) ||
+          (!isWholeNumber(duplicate_window_seconds, MAX_DUPLICATE_WINDOW_SECONDS) ? `Duplicate window must be whole seconds between 0 and ${MAX_DUPLICATE_WINDOW_SECONDS}` : null);
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Settings left out of the request keep their stored values
+        const { data: storedPolicy } = await supabase
+          .from('site_settings')
+          .select('value')
+          .eq('key', 'chat_policy')
+          .maybeSingle();
+
+        const current = parseChatPolicy(storedPolicy?.value);
+        const policy: ChatPolicy = {
+          edit_window_minutes: edit_window_minutes ?? current.edit_window_minutes,
+          burst_limit: burst_limit ?? current.burst_limit,
+          per_minute_limit: per_minute_limit ?? current.per_minute_limit,
+          duplicate_window_seconds: duplicate_window_seconds ?? current.duplicate_window_seconds,
+        };
+
+        const { error: policyError } = await supabase
+          .from('site_settings')
+          .upsert(
+            {
+              key: 'chat_policy',
+              value: policy,
+              updated_at: new Date().toISOString(),
+              updated_by: callerSession.id
+            },
+            { onConflict: 'key' }
+          );
+
+        if (policyError) {
+          console.error('Admin-ops: chat policy update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update chat settings' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Admin-ops: chat policy updated', policy);
+        return new Response(
+          JSON.stringify({ success: true, message: 'Chat settings updated', policy }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'expire_role_sessions': {
+        if (!target_role || target_role === OWNER_ROLE) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid role' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (await getRoleRank(supabase, target_role) >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only expire sessions of roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: roleSessions } = await supabase
+          .from('sessions')
+          .select('id')
+          .eq('role', target_role)
+          .neq('id', callerSession.id);
+
+        const sessionIds = (roleSessions || []).map(s => s.id);
+
+        // Unlinking every device signs the identities out without touching their accounts
+        const { data: removed, error: expireError } = sessionIds.length > 0
+          ? await supabase
+            .from('session_devices')
+            .delete()
+            .in('session_id', sessionIds)
+            .select('id')
+          : { data: [], error: null };
+
+        if (expireError) {
+          console.error('Admin-ops: expire sessions failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to expire sessions' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await pokeSessions(sessionIds);
+
+        console.log('Admin-ops: sessions expired', { role: target_role, devices: removed?.length || 0 });
+        return new Response(
+          JSON.stringify({
+            success: true,
+            message: `Signed out ${removed?.length || 0} device(s)`,
+            affected_devices: removed?.length || 0
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
       default:
         return new Response(
           JSON.stringify({ error: 'Unknown action' }),
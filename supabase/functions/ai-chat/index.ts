@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { getRoleAccess } from "../_shared/permissions.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -44,9 +46,9 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, device_id, model } = await req.json();
+    const { messages, session_token, model } = await req.json();
 
-    if (!messages || !device_id) {
+    if (!messages || !session_token) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -58,36 +60,26 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify session exists and is not banned
-    const { data: session, error: sessionError } = await supabase
-      .from('sessions')
-      .select('id, is_banned, role')
-      .eq('device_id', device_id)
-      .single();
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
 
-    if (sessionError || !session) {
+    if (!session) {
+      console.log('AI-chat: rejected session', { status: sessionStatus });
       return new Response(
-        JSON.stringify({ error: 'Unauthorized - session not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (session.is_banned) {
-      console.log('AI-chat: banned user attempt');
-      return new Response(
-        JSON.stringify({ error: 'Your account has been banned' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const isAdminOrOwner = session.role === 'admin' || session.role === 'owner';
-    const isOwner = session.role === 'owner';
+    const { permissions } = await getRoleAccess(supabase, session.role);
+    const hasUnlimited = permissions.includes('ai.unlimited');
+    const canUsePremiumModels = permissions.includes('ai.premium_models');
     
-    // Weekly limits: owners unlimited, admins 10, users 5
-    const weeklyLimit = isOwner ? Infinity : isAdminOrOwner ? 10 : 5;
+    // Weekly limits: unlimited, extended (10) or the default 5
+    const weeklyLimit = hasUnlimited ? Infinity : permissions.includes('ai.extended_quota') ? 10 : 5;
     
     // SERVER-SIDE USAGE LIMIT ENFORCEMENT
-    if (!isOwner) {
+    if (!hasUnlimited) {
       // Calculate week start (Sunday)
       const now = new Date();
       const dayOfWeek = now.getUTCDay();
@@ -152,8 +144,8 @@ serve(async (req) => {
     let modelToUse = DEFAULT_MODEL;
     
     if (model && ALLOWED_MODELS.includes(model)) {
-      // Only admins can use non-default models
-      if (model !== DEFAULT_MODEL && !isAdminOrOwner) {
+      // Non-default models need the premium permission
+      if (model !== DEFAULT_MODEL && !canUsePremiumModels) {
         modelToUse = DEFAULT_MODEL;
       } else {
         modelToUse = model;
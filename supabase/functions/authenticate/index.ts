@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { issueSessionToken } from "../_shared/session.ts";
+import { findSessionForDevice, linkDevice } from "../_shared/devices.ts";
+import { verifyDummyPassword, verifyPassword } from "../_shared/password.ts";
+import { generateRequestToken, hashRequestToken, notifyNewAccessRequest, validateAccessRequest } from "../_shared/access-requests.ts";
+import { claimInvite } from "../_shared/invites.ts";
+import { OWNER_ROLE, getRoleRank } from "../_shared/permissions.ts";
+import { clearAttempts, getRetryAfter, recordFailedAttempt, type AttemptSource } from "../_shared/login-attempts.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -37,9 +44,9 @@ serve(async (req) => {
   }
 
   try {
-    const { password, device_id } = await req.json();
+    const { username, password, device_id, device_label, request_name, request_message, invite_code } = await req.json();
 
-    if (!password || !device_id) {
+    if (!username || !password || !device_id) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -51,41 +58,64 @@ serve(async (req) => {
       || req.headers.get('x-real-ip') 
       || 'unknown';
 
-    // Validate password against environment variables
-    const ownerPassword = Deno.env.get('OWNER_PASSWORD');
-    const adminPassword = Deno.env.get('ADMIN_PASSWORD');
-    const userPassword = Deno.env.get('USER_PASSWORD');
+    // Create Supabase client with service role for database operations
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    if (!ownerPassword || !adminPassword || !userPassword) {
-      console.error('Server configuration error: passwords not set');
+    // Throttle by both device and IP so neither rotating device IDs nor
+    // switching networks gets a script unlimited guesses
+    const attemptSources: AttemptSource[] = [{ type: 'device', value: String(device_id) }];
+    if (clientIp !== 'unknown') {
+      attemptSources.push({ type: 'ip', value: clientIp });
+    }
+
+    const lockedFor = await getRetryAfter(supabase, attemptSources);
+    if (lockedFor > 0) {
+      console.log('Auth: locked out attempt', { retry_after: lockedFor });
       return new Response(
-        JSON.stringify({ error: 'Server configuration error' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: `Too many failed attempts. Try again in ${lockedFor} seconds.`, retry_after: lockedFor }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(lockedFor) } }
       );
     }
 
-    // Verify password - case-insensitive + trims whitespace (avoids mobile auto-lowercase issues)
-    const normalizedPassword = String(password).trim();
+    // Usernames are matched case-insensitively; passwords are not
+    const { data: account } = await supabase
+      .from('accounts')
+      .select('id, username, password_hash, role, is_disabled')
+      .eq('username_key', String(username).trim().toLowerCase())
+      .maybeSingle();
 
-    // check owner first, then admin, then user
-    const isOwner = normalizedPassword.toLowerCase() === ownerPassword.toLowerCase();
-    const isAdmin = normalizedPassword.toLowerCase() === adminPassword.toLowerCase();
-    const isUser = normalizedPassword.toLowerCase() === userPassword.toLowerCase();
+    const passwordMatches = account
+      ? await verifyPassword(String(password), account.password_hash)
+      : await verifyDummyPassword(String(password));
 
-    if (!isOwner && !isAdmin && !isUser) {
-      console.log('Auth: invalid password attempt');
+    if (!account || !passwordMatches) {
+      const retryAfter = await recordFailedAttempt(supabase, attemptSources);
+      console.log('Auth: invalid credentials attempt', { retry_after: retryAfter });
       return new Response(
-        JSON.stringify({ error: 'Invalid password' }),
+        JSON.stringify(
+          retryAfter > 0
+            ? { error: `Invalid username or password. Try again in ${retryAfter} seconds.`, retry_after: retryAfter }
+            : { error: 'Invalid username or password' }
+        ),
         { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const role = isOwner ? 'owner' : isAdmin ? 'admin' : 'user';
+    // The shared IP counter is left alone so one valid login can't reset it for a script
+    await clearAttempts(supabase, attemptSources.filter((source) => source.type === 'device'));
 
-    // Create Supabase client with service role for database operations
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    if (account.is_disabled) {
+      console.log('Auth: disabled account attempt');
+      return new Response(
+        JSON.stringify({ error: 'Your account has been disabled' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let role = account.role;
+    const isOwner = role === OWNER_ROLE;
 
     // Check if device is banned
     const { data: banData } = await supabase
@@ -119,8 +149,57 @@ serve(async (req) => {
       }
     }
 
-    // For non-owners (users and admins), check waiting list status
-    if (!isOwner) {
+    // The identity this device is already linked to, if any
+    const linkedSession = await findSessionForDevice(supabase, device_id);
+
+    // A device stays tied to the account that first signed in on it
+    if (linkedSession?.account_id && linkedSession.account_id !== account.id) {
+      console.log('Auth: device belongs to another account');
+      return new Response(
+        JSON.stringify({ error: 'This device is signed in to a different account' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A valid invite approves this device and can raise the account's role
+    let usedInvite = false;
+    if (invite_code && !isOwner) {
+      const invite = await claimInvite(supabase, invite_code, {
+        kind: 'login',
+        account_id: account.id,
+        device_id,
+        ip_address: clientIp !== 'unknown' ? clientIp : null
+      });
+
+      if (!invite) {
+        console.log('Auth: invalid invite attempt');
+        return new Response(
+          JSON.stringify({ error: 'Invite code is invalid or has expired' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Never a demotion: an invite for a lower role only approves the device
+      if (await getRoleRank(supabase, invite.role) > await getRoleRank(supabase, role)) {
+        role = invite.role;
+        await supabase.from('accounts').update({ role }).eq('id', account.id);
+      }
+
+      await supabase
+        .from('waiting_list')
+        .upsert({
+          device_id,
+          ip_address: clientIp !== 'unknown' ? clientIp : null,
+          status: 'approved',
+          reviewed_at: new Date().toISOString()
+        }, { onConflict: 'device_id' });
+
+      usedInvite = true;
+      console.log('Auth: invite redeemed', { role });
+    }
+
+    // For non-owners on a device that isn't linked yet, check waiting list status
+    if (!isOwner && !linkedSession && !usedInvite) {
       const { data: waitingData } = await supabase
         .from('waiting_list')
         .select('*')
@@ -149,15 +228,38 @@ serve(async (req) => {
         
         // Status is 'approved' - continue with login
       } else {
+        // Ask the applicant who they are before creating the request
+        if (request_name === undefined) {
+          return new Response(
+            JSON.stringify({
+              request_required: true,
+              message: 'This device needs approval. Tell the owner who you are to request access.'
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { details, error: requestError } = validateAccessRequest(request_name, request_message);
+        if (!details) {
+          return new Response(
+            JSON.stringify({ error: requestError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         // Add to waiting list
+        const requestToken = generateRequestToken();
         const { data: newWaiting, error: waitingError } = await supabase
           .from('waiting_list')
           .insert({
             device_id,
             ip_address: clientIp !== 'unknown' ? clientIp : null,
-            status: 'pending'
+            status: 'pending',
+            ...details,
+            account_id: account.id,
+            edit_token_hash: await hashRequestToken(requestToken)
           })
-          .select()
+          .select('id')
           .single();
 
         if (waitingError) {
@@ -168,23 +270,41 @@ serve(async (req) => {
           );
         }
 
+        await notifyNewAccessRequest(supabase, details);
+
         return new Response(
           JSON.stringify({ 
             waiting: true, 
             message: 'Your access request has been submitted and is pending approval',
-            waiting_id: newWaiting.id
+            waiting_id: newWaiting.id,
+            request_token: requestToken
           }),
           { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
     }
 
-    // Check for existing session
-    const { data: existingSession } = await supabase
-      .from('sessions')
-      .select('*')
-      .eq('device_id', device_id)
-      .maybeSingle();
+    // Signing in on a new device joins the account's existing identity
+    let existingSession = linkedSession;
+    if (!existingSession) {
+      const { data: accountSession } = await supabase
+        .from('sessions')
+        .select('id, device_id, account_id, role, is_banned, ip_address')
+        .eq('account_id', account.id)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      existingSession = accountSession;
+    }
+
+    // Bans apply to the whole identity, not just the devices that were banned
+    if (existingSession?.is_banned) {
+      console.log('Auth: banned identity attempt');
+      return new Response(
+        JSON.stringify({ error: 'Your account has been banned' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     let sessionData;
 
@@ -194,6 +314,7 @@ serve(async (req) => {
         .from('sessions')
         .update({ 
           role, 
+          account_id: account.id,
           last_active_at: new Date().toISOString(),
           ip_address: clientIp !== 'unknown' ? clientIp : existingSession.ip_address
         })
@@ -216,6 +337,7 @@ serve(async (req) => {
         .insert({ 
           device_id, 
           role,
+          account_id: account.id,
           ip_address: clientIp !== 'unknown' ? clientIp : null
         })
         .select()
@@ -231,21 +353,53 @@ serve(async (req) => {
       sessionData = data;
     }
 
-    // Check for existing profile
-    const { data: profile } = await supabase
+    const { error: linkError } = await linkDevice(supabase, sessionData.id, device_id, {
+      label: device_label,
+      ip_address: clientIp !== 'unknown' ? clientIp : null
+    });
+
+    if (linkError) {
+      console.error('Device link failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to link device' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await supabase
+      .from('accounts')
+      .update({ last_login_at: new Date().toISOString() })
+      .eq('id', account.id);
+
+    // Check for existing profile, seeding it from the account name on first login
+    let { data: profile } = await supabase
       .from('profiles')
       .select('username')
       .eq('session_id', sessionData.id)
       .maybeSingle();
 
+    if (!profile) {
+      const { data: createdProfile } = await supabase
+        .from('profiles')
+        .insert({ session_id: sessionData.id, username: account.username })
+        .select('username')
+        .single();
+      profile = createdProfile;
+    }
+
+    const { token, expires_at } = await issueSessionToken({ id: sessionData.id, device_id, role: sessionData.role });
+
     console.log('Auth: successful login', { role });
 
     return new Response(
       JSON.stringify({
+        token,
+        expires_at,
         session: {
           id: sessionData.id,
-          device_id: sessionData.device_id,
+          device_id,
           role: sessionData.role,
+          account_username: account.username,
           is_banned: sessionData.is_banned,
           username: profile?.username || null
         },
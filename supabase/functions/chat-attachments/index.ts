@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { getRoomAccess } from "../_shared/chat-rooms.ts";
+import { getActiveMute } from "../_shared/chat-mutes.ts";
+import {
+  CHAT_ATTACHMENTS_BUCKET,
+  MAX_IMAGE_BYTES,
+  PENDING_ATTACHMENT_TTL_MS,
+  removeAttachments,
+} from "../_shared/chat-attachments.ts";
+import { prepareUpload } from "../_shared/chat-uploads.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+
+const MAX_FILE_NAME_LENGTH = 120;
+
+const decodeBase64 = (value: string): Uint8Array | null => {
+  try {
+    const base64 = value.includes(',') ? value.slice(value.indexOf(',') + 1) : value;
+    return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+// Keeps names readable in the chat while stripping paths and odd characters
+const cleanFileName = (value: string) =>
+  value.split(/[\\/]/).pop()!.replace(/[^\p{L}\p{N} ._()-]/gu, '_').trim().slice(-MAX_FILE_NAME_LENGTH);
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, room_id, file_base64, file_name, attachment_id } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Attachments: rejected session', { status: sessionStatus });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      // Stores a file ahead of sending; send-chat-message links it to the message
+      case 'upload': {
+        const roomAccess = await getRoomAccess(supabase, room_id, session);
+        if (!roomAccess?.canRead) {
+          return new Response(
+            JSON.stringify({ error: 'Room not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!roomAccess.canPost || await getActiveMute(supabase, session.id)) {
+          return new Response(
+            JSON.stringify({ error: 'You cannot post in this room right now' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const fileName = typeof file_name === 'string' ? cleanFileName(file_name) : '';
+        // Base64 is a third larger than the bytes it carries
+        const bytes = typeof file_base64 === 'string' && file_base64.length <= Math.ceil(MAX_IMAGE_BYTES * 4 / 3) + 100
+          ? decodeBase64(file_base64)
+          : null;
+
+        if (!fileName || !bytes || bytes.length === 0) {
+          return new Response(
+            JSON.stringify({ error: 'Choose a file up to 5 MB' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { upload, error: prepareError } = await prepareUpload(bytes, fileName);
+        if (!upload) {
+          return new Response(
+            JSON.stringify({ error: prepareError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Clear out this session's abandoned uploads while we're here
+        const { data: stale } = await supabase
+          .from('chat_attachments')
+          .select('id, storage_path, thumbnail_path')
+          .eq('session_id', session.id)
+          .is('message_id', null)
+          .lt('created_at', new Date(Date.now() - PENDING_ATTACHMENT_TTL_MS).toISOString());
+        await removeAttachments(supabase, stale || []);
+
+        const key = `${session.id}/${crypto.randomUUID()}`;
+        const storagePath = `${key}.${upload.extension}`;
+        const thumbnailPath = upload.thumbnail ? `${key}_thumb.${upload.extension}` : null;
+
+        const bucket = supabase.storage.from(CHAT_ATTACHMENTS_BUCKET);
+        const { error: uploadError } = await bucket.upload(storagePath, upload.body, {
+          contentType: upload.content_type,
+          upsert: false,
+        });
+        const { error: thumbnailError } = thumbnailPath && upload.thumbnail
+          ? await bucket.upload(thumbnailPath, upload.thumbnail, { contentType: upload.content_type, upsert: false })
+          : { error: null };
+
+        if (uploadError || thumbnailError) {
+          console.error('Attachments: storage upload failed');
+          await bucket.remove([storagePath, thumbnailPath].filter((path): path is string => !!path));
+          return new Response(
+            JSON.stringify({ error: 'Failed to upload file' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: attachment, error: insertError } = await supabase
+          .from('chat_attachments')
+          .insert({
+            session_id: session.id,
+            kind: upload.kind,
+            file_name: fileName,
+            content_type: upload.content_type,
+            size_bytes: upload.body.length,
+            width: upload.width,
+            height: upload.height,
+            storage_path: storagePath,
+            thumbnail_path: thumbnailPath,
+          })
+          .select('id, kind, file_name, content_type, size_bytes, width, height')
+          .single();
+
+        if (insertError) {
+          console.error('Attachments: insert failed');
+          await bucket.remove([storagePath, thumbnailPath].filter((path): path is string => !!path));
+          return new Response(
+            JSON.stringify({ error: 'Failed to upload file' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Attachments: uploaded', { kind: upload.kind, size: upload.body.length });
+        return new Response(
+          JSON.stringify({ attachment }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Removes an upload the sender decided not to send
+      case 'discard': {
+        const { data: attachment } = typeof attachment_id === 'string'
+          ? await supabase
+            .from('chat_attachments')
+            .select('id, storage_path, thumbnail_path')
+            .eq('id', attachment_id)
+            .eq('session_id', session.id)
+            .is('message_id', null)
+            .maybeSingle()
+          : { data: null };
+
+        if (!attachment) {
+          return new Response(
+            JSON.stringify({ error: 'Attachment not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await removeAttachments(supabase, [attachment]);
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Attachments function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
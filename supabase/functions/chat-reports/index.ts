@@ -0,0 +1,415 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { OWNER_ROLE, getRoleAccess, getRoleRank } from "../_shared/permissions.ts";
+import { getRoomAccess, pokeRoom } from "../_shared/chat-rooms.ts";
+import { MAX_MUTE_MINUTES, muteSession } from "../_shared/chat-mutes.ts";
+import { banIdentity } from "../_shared/devices.ts";
+import { removeMessageAttachments } from "../_shared/chat-attachments.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+
+// Keep in sync with src/lib/chat-reports.ts
+const REPORT_REASONS = ['spam', 'harassment', 'hate', 'inappropriate', 'other'];
+const RESOLUTIONS = ['dismiss', 'delete', 'mute', 'ban'];
+const MAX_DETAILS_LENGTH = 300;
+const MAX_OPEN_REPORTS = 200;
+
+interface ReportRow {
+  id: string;
+  message_id: string | null;
+  room_id: string | null;
+  reported_session_id: string | null;
+  reporter_session_id: string | null;
+  reason: string;
+  details: string | null;
+  message_snapshot: string;
+  created_at: string;
+}
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, message_id, report_id, reason, details, resolution, duration_minutes } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('Reports: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Anyone can report; only moderators see and work the queue
+    if (action === 'report_message') {
+      if (!REPORT_REASONS.includes(reason)) {
+        return new Response(
+          JSON.stringify({ error: 'Choose a reason for the report' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (details !== undefined && details !== null && (typeof details !== 'string' || details.trim().length > MAX_DETAILS_LENGTH)) {
+        return new Response(
+          JSON.stringify({ error: `Details must be at most ${MAX_DETAILS_LENGTH} characters` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: message } = typeof message_id === 'string'
+        ? await supabase
+          .from('chat_messages')
+          .select('id, message, session_id, room_id, deleted_at')
+          .eq('id', message_id)
+          .maybeSingle()
+        : { data: null };
+
+      const roomAccess = message && !message.deleted_at
+        ? await getRoomAccess(supabase, message.room_id, callerSession)
+        : null;
+
+      if (!message || !roomAccess?.canRead) {
+        return new Response(
+          JSON.stringify({ error: 'Message not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (message.session_id === callerSession.id) {
+        return new Response(
+          JSON.stringify({ error: 'You cannot report your own message' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Reporting the same message twice keeps the first report
+      const { error: insertError } = await supabase
+        .from('chat_reports')
+        .upsert(
+          {
+            message_id: message.id,
+            room_id: message.room_id,
+            reported_session_id: message.session_id,
+            reporter_session_id: callerSession.id,
+            reason,
+            details: typeof details === 'string' && details.trim() ? details.trim() : null,
+            message_snapshot: message.message,
+          },
+          { onConflict: 'message_id,reporter_session_id', ignoreDuplicates: true }
+        );
+
+      if (insertError) {
+        console.error('Reports: insert failed');
+        return new Response(
+          JSON.stringify({ error: 'Failed to send report' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      console.log('Reports: message reported', { reason });
+      return new Response(
+        JSON.stringify({ success: true, message: 'Thanks, a moderator will take a look' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const callerAccess = await getRoleAccess(supabase, callerSession.role);
+    if (!callerAccess.permissions.includes('chat.moderate')) {
+      console.log('Reports: missing permission', { action });
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to review reports' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      // Open reports grouped by message, oldest first so nothing waits forever
+      case 'list_reports': {
+        const { data, error } = await supabase
+          .from('chat_reports')
+          .select('id, message_id, room_id, reported_session_id, reporter_session_id, reason, details, message_snapshot, created_at')
+          .eq('status', 'open')
+          .order('created_at', { ascending: true })
+          .limit(MAX_OPEN_REPORTS);
+
+        if (error) {
+          console.error('Reports: list failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load reports' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const reports = (data || []) as ReportRow[];
+        const sessionIds = Array.from(new Set(
+          reports.flatMap(r => [r.reported_session_id, r.reporter_session_id]).filter((id): id is string => !!id)
+        ));
+        const roomIds = Array.from(new Set(reports.map(r => r.room_id).filter((id): id is string => !!id)));
+        const messageIds = Array.from(new Set(reports.map(r => r.message_id).filter((id): id is string => !!id)));
+
+        const [{ data: profiles }, { data: rooms }, { data: messages }] = await Promise.all([
+          sessionIds.length > 0
+            ? supabase.from('profiles').select('session_id, username').in('session_id', sessionIds)
+            : Promise.resolve({ data: [] }),
+          roomIds.length > 0
+            ? supabase.from('chat_rooms').select('id, name').in('id', roomIds)
+            : Promise.resolve({ data: [] }),
+          messageIds.length > 0
+            ? supabase.from('chat_messages').select('id, message, deleted_at').in('id', messageIds)
+            : Promise.resolve({ data: [] }),
+        ]);
+
+        const usernames = new Map((profiles || []).map(p => [p.session_id, p.username]));
+        const roomNames = new Map((rooms || []).map(r => [r.id, r.name]));
+        const liveMessages = new Map((messages || []).map(m => [m.id, m]));
+
+        // How many open reports each reported user has across all their messages
+        const openPerUser = new Map<string, number>();
+        reports.forEach(r => {
+          if (r.reported_session_id) openPerUser.set(r.reported_session_id, (openPerUser.get(r.reported_session_id) ?? 0) + 1);
+        });
+
+        const groups = new Map<string, ReportRow[]>();
+        reports.forEach(r => {
+          const key = r.message_id ?? r.id;
+          groups.set(key, [...(groups.get(key) ?? []), r]);
+        });
+
+        const result = Array.from(groups.values()).map(group => {
+          const [first] = group;
+          const live = first.message_id ? liveMessages.get(first.message_id) : null;
+          return {
+            message_id: first.message_id,
+            report_ids: group.map(r => r.id),
+            room_name: first.room_id ? roomNames.get(first.room_id) ?? null : null,
+            reported_session_id: first.reported_session_id,
+            reported_username: first.reported_session_id ? usernames.get(first.reported_session_id) ?? null : null,
+            user_open_reports: first.reported_session_id ? openPerUser.get(first.reported_session_id) ?? 0 : 0,
+            message_snapshot: first.message_snapshot,
+            current_message: live && !live.deleted_at ? live.message : null,
+            message_deleted: !live || !!live.deleted_at,
+            first_reported_at: first.created_at,
+            reports: group.map(r => ({
+              id: r.id,
+              reason: r.reason,
+              details: r.details,
+              reporter_username: r.reporter_session_id ? usernames.get(r.reporter_session_id) ?? null : null,
+              created_at: r.created_at,
+            })),
+          };
+        });
+
+        return new Response(
+          JSON.stringify({ groups: result }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Handles every open report on one message (or a single report whose message is gone)
+      case 'resolve': {
+        if (!RESOLUTIONS.includes(resolution)) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid resolution' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        let openQuery = supabase
+          .from('chat_reports')
+          .select('id, message_id, room_id, reported_session_id')
+          .eq('status', 'open');
+        if (typeof message_id === 'string' && message_id) {
+          openQuery = openQuery.eq('message_id', message_id);
+        } else if (typeof report_id === 'string' && report_id) {
+          openQuery = openQuery.eq('id', report_id);
+        } else {
+          return new Response(
+            JSON.stringify({ error: 'message_id or report_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: openReports } = await openQuery;
+        if (!openReports || openReports.length === 0) {
+          return new Response(
+            JSON.stringify({ error: 'These reports were already handled' }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const [target] = openReports;
+
+        if (resolution === 'delete') {
+          if (!callerAccess.permissions.includes('chat.delete_any')) {
+            return new Response(
+              JSON.stringify({ error: 'You do not have permission to delete messages for everyone' }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          if (target.message_id) {
+            const { error: deleteError } = await supabase
+              .from('chat_messages')
+              .update({ deleted_at: new Date().toISOString(), deleted_by: callerSession.id })
+              .eq('id', target.message_id)
+              .is('deleted_at', null);
+
+            if (deleteError) {
+              console.error('Reports: delete failed');
+              return new Response(
+                JSON.stringify({ error: 'Failed to delete message' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+
+            await removeMessageAttachments(supabase, target.message_id);
+            if (target.room_id) {
+              await pokeRoom(target.room_id, { event: 'message_updated', payload: { message_id: target.message_id } });
+            }
+          }
+        }
+
+        if (resolution === 'mute' || resolution === 'ban') {
+          if (resolution === 'ban' && !callerAccess.permissions.includes('users.ban')) {
+            return new Response(
+              JSON.stringify({ error: 'You do not have permission to ban users' }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          const { data: author } = target.reported_session_id
+            ? await supabase.from('sessions').select('id, role, device_id').eq('id', target.reported_session_id).maybeSingle()
+            : { data: null };
+
+          if (!author) {
+            return new Response(
+              JSON.stringify({ error: 'The reported user no longer exists' }),
+              { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          // Same hierarchy as admin-operations: owners never, everyone else only by higher ranks
+          if (author.id === callerSession.id || author.role === OWNER_ROLE || await getRoleRank(supabase, author.role) >= callerAccess.rank) {
+            return new Response(
+              JSON.stringify({ error: `You can only ${resolution} roles ranked below yours` }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          if (resolution === 'mute') {
+            if (!Number.isInteger(duration_minutes) || duration_minutes < 1 || duration_minutes > MAX_MUTE_MINUTES) {
+              return new Response(
+                JSON.stringify({ error: `Mute length must be whole minutes between 1 and ${MAX_MUTE_MINUTES}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+
+            const mute = await muteSession(supabase, {
+              session_id: author.id,
+              minutes: duration_minutes,
+              reason: 'Reported in chat',
+              created_by: callerSession.id,
+            });
+            if (!mute) {
+              return new Response(
+                JSON.stringify({ error: 'Failed to mute user' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+          } else {
+            const { error: banError } = await banIdentity(supabase, author, author.device_id ? [author.device_id] : [], callerSession.id);
+            if (banError) {
+              console.error('Reports: ban failed');
+              return new Response(
+                JSON.stringify({ error: 'Failed to ban user' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+              );
+            }
+          }
+        }
+
+        const { error: resolveError } = await supabase
+          .from('chat_reports')
+          .update({
+            status: 'resolved',
+            resolution,
+            resolved_by: callerSession.id,
+            resolved_at: new Date().toISOString(),
+          })
+          .in('id', openReports.map(r => r.id));
+
+        if (resolveError) {
+          console.error('Reports: resolve failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to resolve reports' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Reports: resolved', { resolution, reports: openReports.length });
+        return new Response(
+          JSON.stringify({ success: true, resolved: openReports.length }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Reports function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,472 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { getRoleAccess } from "../_shared/permissions.ts";
+import {
+  CHAT_ROOM_COLUMNS,
+  getRoomAccess,
+  isRoomVisibility,
+  MAX_SLOW_MODE_SECONDS,
+  pokeRoomList,
+  resolveRoomAccess,
+  type ChatRoom,
+} from "../_shared/chat-rooms.ts";
+import { MESSAGE_COLUMNS } from "../_shared/chat-messages.ts";
+import { signMessageAttachments } from "../_shared/chat-attachments.ts";
+import { getActiveMute } from "../_shared/chat-mutes.ts";
+import { clampPageSize, decodeCursor, MAX_PAGE_SIZE, olderThan, toPage } from "../_shared/pagination.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+const MAX_ROOM_NAME_LENGTH = 40;
+const MAX_ROOM_DESCRIPTION_LENGTH = 200;
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      action,
+      session_token,
+      room_id,
+      message_ids,
+      before,
+      limit,
+      name,
+      description,
+      visibility,
+      is_locked,
+      archived,
+      slow_mode_seconds,
+      username,
+      target_session_id,
+    } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('Rooms: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const callerAccess = await getRoleAccess(supabase, callerSession.role);
+    const canManageRooms = callerAccess.permissions.includes('chat.manage_rooms');
+
+    const managerActions = ['create_room', 'update_room', 'list_members', 'add_member', 'remove_member'];
+    if (managerActions.includes(action) && !canManageRooms) {
+      console.log('Rooms: missing permission', { action });
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to manage chat rooms' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validateName = (value: unknown): string | null =>
+      typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_ROOM_NAME_LENGTH
+        ? null
+        : `Room name must be 1-${MAX_ROOM_NAME_LENGTH} characters`;
+
+    const validateDescription = (value: unknown): string | null =>
+      value === null || (typeof value === 'string' && value.trim().length <= MAX_ROOM_DESCRIPTION_LENGTH)
+        ? null
+        : `Description must be at most ${MAX_ROOM_DESCRIPTION_LENGTH} characters`;
+
+    // Every room-scoped action answers "not found" for rooms the caller can't read
+    const loadReadableRoom = async () => {
+      const access = await getRoomAccess(supabase, room_id, callerSession);
+      return access?.canRead ? access : null;
+    };
+
+    const roomNotFound = () => new Response(
+      JSON.stringify({ error: 'Room not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+    switch (action) {
+      // Also answers whether the caller is muted, so the chat page needs one request
+      case 'list_rooms': {
+        const [{ data: rooms, error }, { data: memberships }, mute] = await Promise.all([
+          supabase
+            .from('chat_rooms')
+            .select(CHAT_ROOM_COLUMNS)
+            .order('is_default', { ascending: false })
+            .order('created_at', { ascending: true }),
+          supabase
+            .from('chat_room_members')
+            .select('room_id')
+            .eq('session_id', callerSession.id),
+          getActiveMute(supabase, callerSession.id),
+        ]);
+
+        if (error) {
+          console.error('Rooms: list failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load rooms' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const memberOf = new Set((memberships || []).map(m => m.room_id));
+        const result = (rooms as ChatRoom[] || [])
+          .map(room => resolveRoomAccess(room, callerAccess, memberOf.has(room.id)))
+          .filter(access => access.canRead)
+          .map(({ room, canPost }) => ({ ...room, can_post: canPost }));
+
+        return new Response(
+          JSON.stringify({ rooms: result, can_manage: canManageRooms, mute }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Newest page first; pass next_cursor back as `before` for older pages
+      case 'list_messages': {
+        const roomAccess = await loadReadableRoom();
+        if (!roomAccess) return roomNotFound();
+
+        const cursor = before === undefined || before === null ? null : decodeCursor(before);
+        if (before && !cursor) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid cursor' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const pageSize = clampPageSize(limit);
+        let query = supabase
+          .from('chat_messages')
+          .select(MESSAGE_COLUMNS)
+          .eq('room_id', roomAccess.room.id);
+        if (cursor) query = query.or(olderThan(cursor));
+
+        const { data: messages, error } = await query
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(pageSize + 1);
+
+        if (error) {
+          console.error('Rooms: list messages failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load messages' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const page = toPage(messages || [], pageSize);
+        return new Response(
+          JSON.stringify({ messages: await signMessageAttachments(supabase, page.items.reverse()), next_cursor: page.next_cursor }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Re-reads specific messages after a realtime poke
+      case 'get_messages': {
+        const roomAccess = await loadReadableRoom();
+        if (!roomAccess) return roomNotFound();
+
+        if (!Array.isArray(message_ids) || message_ids.length === 0 || message_ids.length > MAX_PAGE_SIZE) {
+          return new Response(
+            JSON.stringify({ error: `message_ids must list 1-${MAX_PAGE_SIZE} messages` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: messages, error } = await supabase
+          .from('chat_messages')
+          .select(MESSAGE_COLUMNS)
+          .eq('room_id', roomAccess.room.id)
+          .in('id', message_ids.filter((id): id is string => typeof id === 'string'));
+
+        if (error) {
+          console.error('Rooms: get messages failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load messages' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ messages: await signMessageAttachments(supabase, messages || []) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'create_room': {
+        const roomVisibility = visibility ?? 'public';
+        const validationError =
+          validateName(name) ||
+          validateDescription(description ?? null) ||
+          (isRoomVisibility(roomVisibility) ? null : 'Invalid visibility');
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: room, error } = await supabase
+          .from('chat_rooms')
+          .insert({
+            name: name.trim(),
+            description: typeof description === 'string' && description.trim() ? description.trim() : null,
+            visibility: roomVisibility,
+            created_by: callerSession.id,
+          })
+          .select(CHAT_ROOM_COLUMNS)
+          .single();
+
+        if (error) {
+          console.error('Rooms: create failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create room' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await pokeRoomList();
+
+        console.log('Rooms: room created', { visibility: roomVisibility });
+        return new Response(
+          JSON.stringify({ success: true, room }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'update_room': {
+        const roomAccess = await loadReadableRoom();
+        if (!roomAccess) return roomNotFound();
+        const { room } = roomAccess;
+
+        const validationError =
+          (name !== undefined ? validateName(name) : null) ||
+          (description !== undefined ? validateDescription(description) : null) ||
+          (visibility !== undefined && !isRoomVisibility(visibility) ? 'Invalid visibility' : null) ||
+          (is_locked !== undefined && typeof is_locked !== 'boolean' ? 'is_locked must be true or false' : null) ||
+          (archived !== undefined && typeof archived !== 'boolean' ? 'archived must be true or false' : null) ||
+          (slow_mode_seconds !== undefined &&
+            (!Number.isInteger(slow_mode_seconds) || slow_mode_seconds < 0 || slow_mode_seconds > MAX_SLOW_MODE_SECONDS)
+            ? `Slow mode must be whole seconds between 0 and ${MAX_SLOW_MODE_SECONDS}`
+            : null);
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Everyone needs somewhere to talk
+        if (room.is_default && (archived === true || (visibility !== undefined && visibility !== 'public'))) {
+          return new Response(
+            JSON.stringify({ error: 'The default room must stay public and open' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const updates = {
+          ...(name !== undefined ? { name: name.trim() } : {}),
+          ...(description !== undefined ? { description: description?.trim() || null } : {}),
+          ...(visibility !== undefined ? { visibility } : {}),
+          ...(is_locked !== undefined ? { is_locked } : {}),
+          ...(archived !== undefined ? { archived_at: archived ? new Date().toISOString() : null } : {}),
+          ...(slow_mode_seconds !== undefined ? { slow_mode_seconds } : {}),
+        };
+
+        const { data: updated, error } = await supabase
+          .from('chat_rooms')
+          .update(updates)
+          .eq('id', room.id)
+          .select(CHAT_ROOM_COLUMNS)
+          .single();
+
+        if (error) {
+          console.error('Rooms: update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update room' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await pokeRoomList();
+
+        console.log('Rooms: room updated', { room_id: room.id });
+        return new Response(
+          JSON.stringify({ success: true, room: updated }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'list_members': {
+        const roomAccess = await loadReadableRoom();
+        if (!roomAccess) return roomNotFound();
+
+        const { data: members, error } = await supabase
+          .from('chat_room_members')
+          .select('session_id, created_at')
+          .eq('room_id', roomAccess.room.id)
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          console.error('Rooms: list members failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load members' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const sessionIds = (members || []).map(m => m.session_id);
+        const { data: profiles } = sessionIds.length > 0
+          ? await supabase.from('profiles').select('session_id, username').in('session_id', sessionIds)
+          : { data: [] };
+        const usernames = new Map((profiles || []).map(p => [p.session_id, p.username]));
+
+        return new Response(
+          JSON.stringify({
+            members: (members || []).map(m => ({ ...m, username: usernames.get(m.session_id) ?? null })),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'add_member': {
+        const roomAccess = await loadReadableRoom();
+        if (!roomAccess) return roomNotFound();
+
+        if (typeof username !== 'string' || !username.trim()) {
+          return new Response(
+            JSON.stringify({ error: 'username required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Display names aren't unique, so the first match wins
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('session_id')
+          .eq('username', username.trim())
+          .order('created_at', { ascending: true })
+          .limit(1)
+          .maybeSingle();
+
+        if (!profile) {
+          return new Response(
+            JSON.stringify({ error: 'No user with that name' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = await supabase
+          .from('chat_room_members')
+          .upsert(
+            { room_id: roomAccess.room.id, session_id: profile.session_id, added_by: callerSession.id },
+            { onConflict: 'room_id,session_id', ignoreDuplicates: true }
+          );
+
+        if (error) {
+          console.error('Rooms: add member failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to add member' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await pokeRoomList();
+
+        console.log('Rooms: member added', { room_id: roomAccess.room.id });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Member added' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'remove_member': {
+        const roomAccess = await loadReadableRoom();
+        if (!roomAccess) return roomNotFound();
+
+        if (typeof target_session_id !== 'string' || !target_session_id) {
+          return new Response(
+            JSON.stringify({ error: 'target_session_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = await supabase
+          .from('chat_room_members')
+          .delete()
+          .eq('room_id', roomAccess.room.id)
+          .eq('session_id', target_session_id);
+
+        if (error) {
+          console.error('Rooms: remove member failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to remove member' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await pokeRoomList();
+
+        console.log('Rooms: member removed', { room_id: roomAccess.room.id });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Member removed' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Rooms function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
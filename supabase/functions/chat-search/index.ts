@@ -0,0 +1,261 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
+import { DEFAULT_PAGE_SIZE, decodeCursor, olderThan, toPage, type PageCursor } from "../_shared/pagination.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+
+const DELETED_FILTERS = ['all', 'live', 'deleted'];
+const MAX_QUERY_LENGTH = 200;
+// Exports are built from pages of this size, up to the row cap
+const EXPORT_BATCH_SIZE = 1000;
+const MAX_EXPORT_ROWS = 5000;
+
+const SEARCH_COLUMNS = 'id, message, session_id, room_id, created_at, edited_at, deleted_at, deleted_by';
+
+interface SearchRow {
+  id: string;
+  message: string;
+  session_id: string;
+  room_id: string | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+interface SearchFilters {
+  query: string;
+  sessionIds: string[] | null;
+  from: string | null;
+  to: string | null;
+  deleted: string;
+}
+
+// Escapes LIKE wildcards so usernames match literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+const fetchRows = (supabase: SupabaseClient, filters: SearchFilters, cursor: PageCursor | null, limit: number) => {
+  let query = supabase.from('chat_messages').select(SEARCH_COLUMNS);
+
+  if (filters.query) query = query.textSearch('search_vector', filters.query, { type: 'websearch', config: 'simple' });
+  if (filters.sessionIds) query = query.in('session_id', filters.sessionIds);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+  if (filters.deleted === 'live') query = query.is('deleted_at', null);
+  if (filters.deleted === 'deleted') query = query.not('deleted_at', 'is', null);
+  if (cursor) query = query.or(olderThan(cursor));
+
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+};
+
+// Adds usernames and room names so results read on their own, in the panel or in a file
+const describeRows = async (supabase: SupabaseClient, rows: SearchRow[]) => {
+  const sessionIds = Array.from(new Set(rows.flatMap(r => [r.session_id, r.deleted_by]).filter((id): id is string => !!id)));
+  const roomIds = Array.from(new Set(rows.map(r => r.room_id).filter((id): id is string => !!id)));
+
+  const [{ data: profiles }, { data: rooms }] = await Promise.all([
+    sessionIds.length > 0
+      ? supabase.from('profiles').select('session_id, username').in('session_id', sessionIds)
+      : Promise.resolve({ data: [] }),
+    roomIds.length > 0
+      ? supabase.from('chat_rooms').select('id, name').in('id', roomIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const usernames = new Map((profiles || []).map(p => [p.session_id, p.username]));
+  const roomNames = new Map((rooms || []).map(r => [r.id, r.name]));
+
+  return rows.map(row => ({
+    ...row,
+    username: usernames.get(row.session_id) ?? null,
+    room_name: row.room_id ? roomNames.get(row.room_id) ?? null : null,
+    deleted_by_username: row.deleted_by ? usernames.get(row.deleted_by) ?? null : null,
+  }));
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, query, username, from, to, deleted, before } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Search: rejected session', { status: sessionStatus });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!(await hasPermission(supabase, session.role, 'chat.search'))) {
+      console.log('Search: missing permission');
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to search chat history' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const isDate = (value: unknown) => value === undefined || value === null || value === '' ||
+      (typeof value === 'string' && !Number.isNaN(Date.parse(value)));
+
+    if (
+      (query !== undefined && query !== null && (typeof query !== 'string' || query.length > MAX_QUERY_LENGTH)) ||
+      (username !== undefined && username !== null && typeof username !== 'string') ||
+      !isDate(from) || !isDate(to) ||
+      (deleted !== undefined && !DELETED_FILTERS.includes(deleted))
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid search filters' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Usernames aren't unique across sessions, so a name can cover several senders
+    let sessionIds: string[] | null = null;
+    if (typeof username === 'string' && username.trim()) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('session_id')
+        .ilike('username', escapeLike(username.trim()));
+      sessionIds = (profiles || []).map(p => p.session_id);
+    }
+
+    const filters: SearchFilters = {
+      query: typeof query === 'string' ? query.trim() : '',
+      sessionIds,
+      from: from ? new Date(from).toISOString() : null,
+      to: to ? new Date(to).toISOString() : null,
+      deleted: deleted ?? 'all',
+    };
+
+    // A username that matches nobody can't match any message
+    if (sessionIds && sessionIds.length === 0) {
+      return new Response(
+        JSON.stringify(action === 'export' ? { messages: [], truncated: false } : { messages: [], next_cursor: null }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      // One page of matches, newest first; pass next_cursor back as `before`
+      case 'search': {
+        const cursor = before ? decodeCursor(before) : null;
+        if (before && !cursor) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid cursor' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data, error } = await fetchRows(supabase, filters, cursor, DEFAULT_PAGE_SIZE + 1);
+        if (error) {
+          console.error('Search: query failed');
+          return new Response(
+            JSON.stringify({ error: 'Search failed. Check the search terms.' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const page = toPage((data || []) as SearchRow[], DEFAULT_PAGE_SIZE);
+        return new Response(
+          JSON.stringify({ messages: await describeRows(supabase, page.items), next_cursor: page.next_cursor }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Every match up to the cap, for the client to save as CSV or JSON
+      case 'export': {
+        const rows: SearchRow[] = [];
+        let cursor: PageCursor | null = null;
+
+        // One row past the cap tells a full export apart from a truncated one
+        while (rows.length <= MAX_EXPORT_ROWS) {
+          const limit = Math.min(EXPORT_BATCH_SIZE, MAX_EXPORT_ROWS + 1 - rows.length);
+          const { data, error } = await fetchRows(supabase, filters, cursor, limit);
+          if (error) {
+            console.error('Search: export query failed');
+            return new Response(
+              JSON.stringify({ error: 'Export failed. Check the search terms.' }),
+              { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          const batch = (data || []) as SearchRow[];
+          rows.push(...batch);
+          if (batch.length < limit) break;
+          cursor = batch[batch.length - 1];
+        }
+
+        const truncated = rows.length > MAX_EXPORT_ROWS;
+        const exported = rows.slice(0, MAX_EXPORT_ROWS);
+        console.log('Search: exported', { rows: exported.length, truncated });
+        return new Response(
+          JSON.stringify({ messages: await describeRows(supabase, exported), truncated }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Search function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifySession } from '../_shared/session.ts';
+import { getRoomAccess, pokeRoom } from '../_shared/chat-rooms.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { removeMessageAttachments } from '../_shared/chat-attachments.ts';
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -29,14 +33,14 @@ serve(async (req) => {
   }
 
   try {
-    const { message_id, device_id, action } = await req.json();
+    const { message_id, session_token, action } = await req.json();
     // action: 'undo' (delete for everyone, own message only, last 3), 
     //         'hide' (hide for self only), 
     //         'delete' (admin only, delete for everyone)
 
-    if (!message_id || !device_id || !action) {
+    if (!message_id || !session_token || !action) {
       return new Response(
-        JSON.stringify({ error: 'message_id, device_id, and action are required' }),
+        JSON.stringify({ error: 'message_id, session_token, and action are required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -45,25 +49,14 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get the session for this device
-    const { data: session, error: sessionError } = await supabase
-      .from('sessions')
-      .select('id, role, is_banned')
-      .eq('device_id', device_id)
-      .maybeSingle();
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
 
-    if (sessionError || !session) {
+    if (!session) {
+      console.log('Delete-msg: rejected session', { status: sessionStatus });
       return new Response(
-        JSON.stringify({ error: 'Session not found' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    if (session.is_banned) {
-      console.log('Delete-msg: banned user attempt');
-      return new Response(
-        JSON.stringify({ error: 'You are banned' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
@@ -81,7 +74,16 @@ serve(async (req) => {
       );
     }
 
-    const isAdminOrOwner = session.role === 'admin' || session.role === 'owner';
+    // Messages in rooms the caller can't see are treated as missing
+    const roomAccess = await getRoomAccess(supabase, message.room_id, session);
+    if (!roomAccess?.canRead) {
+      return new Response(
+        JSON.stringify({ error: 'Message not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const canDeleteAny = await hasPermission(supabase, session.role, 'chat.delete_any');
     const isMessageOwner = message.session_id === session.id;
 
     if (action === 'undo') {
@@ -127,6 +129,9 @@ serve(async (req) => {
         );
       }
 
+      await removeMessageAttachments(supabase, message_id);
+      await pokeRoom(message.room_id, { event: 'message_updated', payload: { message_id } });
+
       console.log('Delete-msg: message undone');
       return new Response(
         JSON.stringify({ success: true, action: 'undo' }),
@@ -159,6 +164,8 @@ serve(async (req) => {
         );
       }
 
+      await pokeRoom(message.room_id, { event: 'message_updated', payload: { message_id } });
+
       console.log('Delete-msg: message hidden');
       return new Response(
         JSON.stringify({ success: true, action: 'hide' }),
@@ -167,10 +174,10 @@ serve(async (req) => {
     }
 
     if (action === 'delete') {
-      // Admin/Owner only: delete for everyone
-      if (!isAdminOrOwner) {
+      // Moderators only: delete for everyone
+      if (!canDeleteAny) {
         return new Response(
-          JSON.stringify({ error: 'Only admins and owners can delete messages for everyone' }),
+          JSON.stringify({ error: 'You do not have permission to delete messages for everyone' }),
           { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
@@ -191,6 +198,9 @@ serve(async (req) => {
         );
       }
 
+      await removeMessageAttachments(supabase, message_id);
+      await pokeRoom(message.room_id, { event: 'message_updated', payload: { message_id } });
+
       console.log('Delete-msg: message deleted');
       return new Response(
         JSON.stringify({ success: true, action: 'delete' }),
@@ -0,0 +1,453 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import {
+  DM_MESSAGE_COLUMNS,
+  DM_THREAD_COLUMNS,
+  hasBlocked,
+  isParticipant,
+  orderProfilePair,
+  otherParticipant,
+  pokeDmInboxes,
+  readMarkerColumn,
+  type DmThread,
+} from "../_shared/direct-messages.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+const MAX_ROOM_NAME_LENGTH = 40;
+
+const MAX_MESSAGE_LENGTH = 500;
+const MESSAGE_PAGE_SIZE = 100;
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      action,
+      session_token,
+      thread_id,
+      message_ids,
+      message,
+      username,
+      target_session_id,
+      target_profile_id,
+    } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('DMs: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Threads belong to profiles, so the caller needs a username first
+    const { data: callerProfile } = await supabase
+      .from('profiles')
+      .select('id, username')
+      .eq('session_id', callerSession.id)
+      .maybeSingle();
+
+    if (!callerProfile) {
+      return new Response(
+        JSON.stringify({ error: 'Choose a username before using direct messages' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const me = callerProfile.id as string;
+
+    // Thread-scoped actions answer "not found" for threads the caller isn't part of
+    const loadThread = async (): Promise<DmThread | null> => {
+      if (typeof thread_id !== 'string' || !thread_id) return null;
+
+      const { data: thread } = await supabase
+        .from('dm_threads')
+        .select(DM_THREAD_COLUMNS)
+        .eq('id', thread_id)
+        .maybeSingle();
+
+      return thread && isParticipant(thread as DmThread, me) ? thread as DmThread : null;
+    };
+
+    const threadNotFound = () => new Response(
+      JSON.stringify({ error: 'Conversation not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+    switch (action) {
+      // The caller's threads with unread counts, also used for the sidebar badge
+      case 'inbox': {
+        const [{ data: threads, error }, { data: unreadRows }, { data: blocks }] = await Promise.all([
+          supabase
+            .from('dm_threads')
+            .select(DM_THREAD_COLUMNS)
+            .or(`profile_a.eq.${me},profile_b.eq.${me}`)
+            .order('last_message_at', { ascending: false, nullsFirst: false }),
+          supabase.rpc('dm_unread_counts', { _profile_id: me }),
+          supabase
+            .from('dm_blocks')
+            .select('blocked_profile_id')
+            .eq('blocker_profile_id', me),
+        ]);
+
+        if (error) {
+          console.error('DMs: inbox failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load conversations' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const otherIds = (threads as DmThread[] || []).map(t => otherParticipant(t, me));
+        const { data: profiles } = otherIds.length > 0
+          ? await supabase.from('profiles').select('id, username').in('id', otherIds)
+          : { data: [] };
+        const usernames = new Map((profiles || []).map(p => [p.id, p.username]));
+        const unread = new Map(
+          (unreadRows as { thread_id: string; unread: number }[] || []).map(r => [r.thread_id, Number(r.unread)])
+        );
+        const blocked = new Set((blocks || []).map(b => b.blocked_profile_id));
+
+        const result = (threads as DmThread[] || []).map(thread => {
+          const otherId = otherParticipant(thread, me);
+          return {
+            id: thread.id,
+            other_profile_id: otherId,
+            other_username: usernames.get(otherId) ?? null,
+            last_message_at: thread.last_message_at,
+            unread: unread.get(thread.id) ?? 0,
+            blocked: blocked.has(otherId),
+          };
+        });
+
+        return new Response(
+          JSON.stringify({
+            profile_id: me,
+            threads: result,
+            unread_total: result.reduce((total, t) => total + t.unread, 0),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Finds or creates the thread with another user, by username or chat session
+      case 'open_thread': {
+        let targetQuery = supabase.from('profiles').select('id');
+        if (typeof target_session_id === 'string' && target_session_id) {
+          targetQuery = targetQuery.eq('session_id', target_session_id);
+        } else if (typeof username === 'string' && username.trim()) {
+          // Display names aren't unique, so the first match wins
+          targetQuery = targetQuery.eq('username', username.trim()).order('created_at', { ascending: true }).limit(1);
+        } else {
+          return new Response(
+            JSON.stringify({ error: 'username or target_session_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: target } = await targetQuery.maybeSingle();
+
+        if (!target) {
+          return new Response(
+            JSON.stringify({ error: 'No user with that name' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (target.id === me) {
+          return new Response(
+            JSON.stringify({ error: 'You cannot message yourself' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const [profileA, profileB] = orderProfilePair(me, target.id);
+        const { data: existing } = await supabase
+          .from('dm_threads')
+          .select('id')
+          .eq('profile_a', profileA)
+          .eq('profile_b', profileB)
+          .maybeSingle();
+
+        if (existing) {
+          return new Response(
+            JSON.stringify({ success: true, thread_id: existing.id }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Don't let a blocked user start a new conversation
+        if (await hasBlocked(supabase, target.id, me)) {
+          return new Response(
+            JSON.stringify({ error: 'This user is not accepting messages from you' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: thread, error } = await supabase
+          .from('dm_threads')
+          .upsert({ profile_a: profileA, profile_b: profileB }, { onConflict: 'profile_a,profile_b' })
+          .select('id')
+          .single();
+
+        if (error) {
+          console.error('DMs: open thread failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to start conversation' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('DMs: thread opened');
+        return new Response(
+          JSON.stringify({ success: true, thread_id: thread.id }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'list_messages': {
+        const thread = await loadThread();
+        if (!thread) return threadNotFound();
+
+        const { data: messages, error } = await supabase
+          .from('dm_messages')
+          .select(DM_MESSAGE_COLUMNS)
+          .eq('thread_id', thread.id)
+          .order('created_at', { ascending: false })
+          .limit(MESSAGE_PAGE_SIZE);
+
+        if (error) {
+          console.error('DMs: list messages failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load messages' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ messages: (messages || []).reverse() }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Re-reads specific messages after a realtime poke
+      case 'get_messages': {
+        const thread = await loadThread();
+        if (!thread) return threadNotFound();
+
+        if (!Array.isArray(message_ids) || message_ids.length === 0 || message_ids.length > MESSAGE_PAGE_SIZE) {
+          return new Response(
+            JSON.stringify({ error: `message_ids must list 1-${MESSAGE_PAGE_SIZE} messages` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: messages, error } = await supabase
+          .from('dm_messages')
+          .select(DM_MESSAGE_COLUMNS)
+          .eq('thread_id', thread.id)
+          .in('id', message_ids.filter((id): id is string => typeof id === 'string'));
+
+        if (error) {
+          console.error('DMs: get messages failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load messages' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ messages: messages || [] }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'send_message': {
+        const thread = await loadThread();
+        if (!thread) return threadNotFound();
+
+        const trimmedMessage = typeof message === 'string' ? message.trim() : '';
+        if (trimmedMessage.length === 0 || trimmedMessage.length > MAX_MESSAGE_LENGTH) {
+          return new Response(
+            JSON.stringify({ error: `Message must be 1-${MAX_MESSAGE_LENGTH} characters` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const otherId = otherParticipant(thread, me);
+        const [blockedByOther, blockedByMe] = await Promise.all([
+          hasBlocked(supabase, otherId, me),
+          hasBlocked(supabase, me, otherId),
+        ]);
+
+        if (blockedByOther || blockedByMe) {
+          return new Response(
+            JSON.stringify({
+              error: blockedByMe ? 'Unblock this user to message them' : 'This user is not accepting messages from you',
+            }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: dm, error } = await supabase
+          .from('dm_messages')
+          .insert({ thread_id: thread.id, sender_profile_id: me, message: trimmedMessage })
+          .select(DM_MESSAGE_COLUMNS)
+          .single();
+
+        if (error) {
+          console.error('DMs: send failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to send message' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Sending a message also means the sender has read the thread
+        await supabase
+          .from('dm_threads')
+          .update({ last_message_at: dm.created_at, [readMarkerColumn(thread, me)]: dm.created_at })
+          .eq('id', thread.id);
+
+        await pokeDmInboxes([me, otherId], { thread_id: thread.id, message_id: dm.id });
+
+        console.log('DMs: message sent');
+        return new Response(
+          JSON.stringify({ success: true, message: dm }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'mark_read': {
+        const thread = await loadThread();
+        if (!thread) return threadNotFound();
+
+        const { error } = await supabase
+          .from('dm_threads')
+          .update({ [readMarkerColumn(thread, me)]: new Date().toISOString() })
+          .eq('id', thread.id);
+
+        if (error) {
+          console.error('DMs: mark read failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update conversation' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Clears the badge in the caller's other tabs
+        await pokeDmInboxes([me], { thread_id: thread.id });
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'block':
+      case 'unblock': {
+        if (typeof target_profile_id !== 'string' || !target_profile_id || target_profile_id === me) {
+          return new Response(
+            JSON.stringify({ error: 'target_profile_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = action === 'block'
+          ? await supabase
+            .from('dm_blocks')
+            .upsert(
+              { blocker_profile_id: me, blocked_profile_id: target_profile_id },
+              { onConflict: 'blocker_profile_id,blocked_profile_id', ignoreDuplicates: true }
+            )
+          : await supabase
+            .from('dm_blocks')
+            .delete()
+            .eq('blocker_profile_id', me)
+            .eq('blocked_profile_id', target_profile_id);
+
+        if (error) {
+          console.error('DMs: block update failed', { action });
+          return new Response(
+            JSON.stringify({ error: action === 'block' ? 'Failed to block user' : 'Failed to unblock user' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const [profileA, profileB] = orderProfilePair(me, target_profile_id);
+        const { data: thread } = await supabase
+          .from('dm_threads')
+          .select('id')
+          .eq('profile_a', profileA)
+          .eq('profile_b', profileB)
+          .maybeSingle();
+        if (thread) await pokeDmInboxes([me], { thread_id: thread.id });
+
+        console.log('DMs: block updated', { action });
+        return new Response(
+          JSON.stringify({ success: true, message: action === 'block' ? 'User blocked' : 'User unblocked' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('DMs function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,179 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifySession } from '../_shared/session.ts';
+import { getRoomAccess, pokeRoom } from '../_shared/chat-rooms.ts';
+import { getChatPolicy } from '../_shared/chat-messages.ts';
+import { applyChatFilter, recordFilterFlags } from '../_shared/chat-filter.ts';
+import { getActiveMute } from '../_shared/chat-mutes.ts';
+import { normalizeChatMessage, validateChatMessage } from '../_shared/chat-markdown.ts';
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin = origin && allowedOrigins.some(allowed => 
+    origin === allowed || origin.endsWith('.lovable.dev') || origin.endsWith('.gptengineer.app') || origin.endsWith('.lovableproject.com') || origin.endsWith('.lovable.app')
+  ) ? origin : allowedOrigins[0];
+  
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { message_id, message, session_token } = await req.json();
+
+    if (!message_id || typeof message !== 'string' || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'message_id, message and session_token are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Store the canonical form so every client renders the same thing
+    const trimmedMessage = normalizeChatMessage(message);
+    const messageError = validateChatMessage(trimmedMessage);
+    if (messageError) {
+      return new Response(
+        JSON.stringify({ error: messageError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Edit-msg: rejected session', { status });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: original } = await supabase
+      .from('chat_messages')
+      .select('id, message, session_id, room_id, created_at, deleted_at')
+      .eq('id', message_id)
+      .maybeSingle();
+
+    const roomAccess = original && !original.deleted_at
+      ? await getRoomAccess(supabase, original.room_id, session)
+      : null;
+
+    if (!original || !roomAccess?.canRead) {
+      return new Response(
+        JSON.stringify({ error: 'Message not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (original.session_id !== session.id) {
+      return new Response(
+        JSON.stringify({ error: 'You can only edit your own messages' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!roomAccess.canPost) {
+      return new Response(
+        JSON.stringify({ error: roomAccess.room.archived_at ? 'This room is archived' : 'This room is locked' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { edit_window_minutes } = await getChatPolicy(supabase);
+    const editableUntil = new Date(original.created_at).getTime() + edit_window_minutes * 60 * 1000;
+    if (edit_window_minutes <= 0 || Date.now() > editableUntil) {
+      return new Response(
+        JSON.stringify({ error: 'This message can no longer be edited' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const mute = await getActiveMute(supabase, session.id);
+    if (mute) {
+      return new Response(
+        JSON.stringify({ error: 'You are muted in chat', reason: mute.reason, muted_until: mute.expires_at }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Edits go through the same word filter as new messages
+    const filtered = await applyChatFilter(supabase, session.id, trimmedMessage);
+    if (filtered.blocked) {
+      console.log('Edit-msg: edit blocked by word filter', { muted: !!filtered.blocked.muted_until });
+      return new Response(
+        JSON.stringify(filtered.blocked),
+        { status: filtered.blocked.muted_until ? 403 : 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (filtered.message === original.message) {
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Keep the version being replaced so moderators can see what was said
+    const { error: revisionError } = await supabase
+      .from('chat_message_revisions')
+      .insert({ message_id: original.id, message: original.message, edited_by: session.id });
+
+    if (revisionError) {
+      console.error('Edit-msg: revision insert failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to edit message' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from('chat_messages')
+      .update({ message: filtered.message, edited_at: new Date().toISOString() })
+      .eq('id', original.id);
+
+    if (updateError) {
+      console.error('Edit-msg: update failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to edit message' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await recordFilterFlags(supabase, original.id, filtered.flaggedBy);
+    await pokeRoom(original.room_id, { event: 'message_updated', payload: { message_id: original.id } });
+
+    console.log('Edit-msg: message edited');
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Edit-msg function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { pokeSessions } from "../_shared/realtime.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+// Signs the calling device out by unlinking it, which revokes its tokens.
+// With `everywhere` every device linked to the identity is signed out.
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { session_token, everywhere } = await req.json();
+
+    if (!session_token) {
+      return new Response(
+        JSON.stringify({ error: 'session_token required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // A token that no longer verifies is already signed out
+    const { session } = await verifySession(supabase, session_token);
+    if (!session) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'Already signed out' }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: removed, error } = everywhere === true
+      ? await supabase
+        .from('session_devices')
+        .delete()
+        .eq('session_id', session.id)
+        .select('id')
+      : await supabase
+        .from('session_devices')
+        .delete()
+        .eq('session_id', session.id)
+        .eq('device_id', session.device_id)
+        .select('id');
+
+    if (error) {
+      console.error('Logout: unlink failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to sign out' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await pokeSessions([session.id]);
+
+    console.log('Logout: signed out', { everywhere: everywhere === true, devices: removed?.length || 0 });
+    return new Response(
+      JSON.stringify({ success: true, signed_out_devices: removed?.length || 0 }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Logout function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
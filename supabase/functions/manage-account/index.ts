@@ -0,0 +1,388 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { generateCode } from "../_shared/codes.ts";
+import { MAX_INVITE_USES } from "../_shared/invites.ts";
+import { hashPassword, validatePassword, verifyPassword } from "../_shared/password.ts";
+import { pokeSessions } from "../_shared/realtime.ts";
+import { OWNER_ROLE, getRoleAccess, getRoleRank } from "../_shared/permissions.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+// Invites default to a week and can be issued for at most 30 days
+const DEFAULT_INVITE_HOURS = 24 * 7;
+const MAX_INVITE_HOURS = 24 * 30;
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      action,
+      session_token,
+      current_password,
+      new_password,
+      role,
+      expires_in_hours,
+      max_uses,
+      invite_id,
+      target_account_id,
+      disabled,
+    } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Initialize Supabase client with service role
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('Account: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!callerSession.account_id) {
+      return new Response(
+        JSON.stringify({ error: 'Please log in again with your account' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const callerAccess = await getRoleAccess(supabase, callerSession.role);
+    const managerActions = ['list_accounts', 'set_account_disabled', 'create_invite', 'list_invites', 'revoke_invite'];
+
+    if (managerActions.includes(action) && !callerAccess.permissions.includes('accounts.manage')) {
+      console.log('Account: missing permission', { action });
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to manage accounts and invites' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'change_password': {
+        if (typeof current_password !== 'string' || !current_password) {
+          return new Response(
+            JSON.stringify({ error: 'Current password is required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const passwordCheck = validatePassword(new_password);
+        if (!passwordCheck.valid) {
+          return new Response(
+            JSON.stringify({ error: passwordCheck.error }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: account } = await supabase
+          .from('accounts')
+          .select('password_hash')
+          .eq('id', callerSession.account_id)
+          .single();
+
+        if (!account || !(await verifyPassword(current_password, account.password_hash))) {
+          console.log('Account: wrong current password');
+          return new Response(
+            JSON.stringify({ error: 'Current password is incorrect' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error: updateError } = await supabase
+          .from('accounts')
+          .update({ password_hash: await hashPassword(new_password) })
+          .eq('id', callerSession.account_id);
+
+        if (updateError) {
+          console.error('Account: password update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to change password' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Account: password changed');
+        return new Response(
+          JSON.stringify({ success: true, message: 'Password changed' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'list_accounts': {
+        const { data: accounts, error } = await supabase
+          .from('accounts')
+          .select('id, username, role, is_disabled, last_login_at, created_at')
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          console.error('Account: list accounts failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load accounts' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ accounts }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'set_account_disabled': {
+        if (!target_account_id || typeof disabled !== 'boolean') {
+          return new Response(
+            JSON.stringify({ error: 'target_account_id and disabled required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (target_account_id === callerSession.account_id) {
+          return new Response(
+            JSON.stringify({ error: 'Cannot disable your own account' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: target } = await supabase
+          .from('accounts')
+          .select('role')
+          .eq('id', target_account_id)
+          .maybeSingle();
+
+        if (!target) {
+          return new Response(
+            JSON.stringify({ error: 'Account not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (target.role === OWNER_ROLE) {
+          return new Response(
+            JSON.stringify({ error: 'Cannot disable an owner account' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (await getRoleRank(supabase, target.role) >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only disable accounts ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = await supabase
+          .from('accounts')
+          .update({ is_disabled: disabled })
+          .eq('id', target_account_id);
+
+        if (error) {
+          console.error('Account: disable toggle failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update account' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Disabling revokes the account's sessions; let their open tabs know
+        if (disabled) {
+          const { data: accountSessions } = await supabase
+            .from('sessions')
+            .select('id')
+            .eq('account_id', target_account_id);
+
+          await pokeSessions((accountSessions || []).map(s => s.id));
+        }
+
+        console.log(`Account: account ${disabled ? 'disabled' : 'enabled'}`);
+        return new Response(
+          JSON.stringify({ success: true, message: disabled ? 'Account disabled' : 'Account enabled' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'create_invite': {
+        const inviteRole = role ?? 'user';
+        const { data: inviteRoleData } = await supabase
+          .from('roles')
+          .select('name, rank')
+          .eq('name', inviteRole)
+          .maybeSingle();
+
+        if (!inviteRoleData || inviteRoleData.name === OWNER_ROLE) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid role' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Invites can't hand out more than the inviter has
+        if (inviteRoleData.rank >= callerAccess.rank) {
+          return new Response(
+            JSON.stringify({ error: 'You can only invite roles ranked below yours' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const hours = Number(expires_in_hours ?? DEFAULT_INVITE_HOURS);
+        if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_INVITE_HOURS) {
+          return new Response(
+            JSON.stringify({ error: `Expiry must be between 1 and ${MAX_INVITE_HOURS} hours` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const uses = Number(max_uses ?? 1);
+        if (!Number.isInteger(uses) || uses < 1 || uses > MAX_INVITE_USES) {
+          return new Response(
+            JSON.stringify({ error: `Max uses must be between 1 and ${MAX_INVITE_USES}` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: invite, error } = await supabase
+          .from('account_invites')
+          .insert({
+            code: generateCode(),
+            role: inviteRole,
+            max_uses: uses,
+            created_by: callerSession.account_id,
+            expires_at: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+          })
+          .select('id, code, role, max_uses, use_count, expires_at, revoked_at, created_at')
+          .single();
+
+        if (error) {
+          console.error('Account: invite creation failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create invite' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Account: invite created', { role: inviteRole, max_uses: uses });
+        return new Response(
+          JSON.stringify({ success: true, invite }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'list_invites': {
+        const { data: invites, error } = await supabase
+          .from('account_invites')
+          .select(`
+            id, code, role, max_uses, use_count, expires_at, revoked_at, created_at,
+            uses:account_invite_uses(id, kind, device_id, ip_address, created_at, account:accounts(username))
+          `)
+          .order('created_at', { ascending: false })
+          .order('created_at', { referencedTable: 'account_invite_uses', ascending: false })
+          .limit(100);
+
+        if (error) {
+          console.error('Account: list invites failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load invites' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ invites }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'revoke_invite': {
+        if (!invite_id) {
+          return new Response(
+            JSON.stringify({ error: 'invite_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Unused invites are deleted; used ones are kept, marked revoked, as a
+        // record of who joined with them
+        const { error: deleteError } = await supabase
+          .from('account_invites')
+          .delete()
+          .eq('id', invite_id)
+          .eq('use_count', 0);
+
+        const { error: revokeError } = await supabase
+          .from('account_invites')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', invite_id)
+          .is('revoked_at', null);
+
+        if (deleteError || revokeError) {
+          console.error('Account: invite revoke failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to revoke invite' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Account: invite revoked');
+        return new Response(
+          JSON.stringify({ success: true, message: 'Invite revoked' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Account function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
+import { notify } from "../_shared/notifications.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -9,6 +12,9 @@ const allowedOrigins = [
   'https://gptengineer.app'
 ];
 
+// Announcements notify sessions that have been around this recently
+const NOTIFY_ACTIVE_DAYS = 30;
+
 const getCorsHeaders = (origin: string | null) => {
   const allowedOrigin = origin && allowedOrigins.some(allowed => 
     origin === allowed || origin.endsWith('.lovable.dev') || origin.endsWith('.gptengineer.app') || origin.endsWith('.lovableproject.com') || origin.endsWith('.lovable.app')
@@ -29,11 +35,11 @@ serve(async (req) => {
   }
 
   try {
-    const { action, device_id, message, announcement_id, expires_hours } = await req.json();
+    const { action, session_token, message, announcement_id, expires_hours } = await req.json();
 
-    if (!action || !device_id) {
+    if (!action || !session_token) {
       return new Response(
-        JSON.stringify({ error: 'action and device_id required' }),
+        JSON.stringify({ error: 'action and session_token required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -42,31 +48,20 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify caller is admin or owner
-    const { data: callerSession, error: callerError } = await supabase
-      .from('sessions')
-      .select('id, role, is_banned')
-      .eq('device_id', device_id)
-      .single();
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
 
-    if (callerError || !callerSession) {
+    if (!callerSession) {
+      console.log('Announcements: rejected session', { status: callerStatus });
       return new Response(
-        JSON.stringify({ error: 'Session not found' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (callerSession.is_banned) {
+    if (!(await hasPermission(supabase, callerSession.role, 'announcements.manage'))) {
       return new Response(
-        JSON.stringify({ error: 'You are banned' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const isAdmin = callerSession.role === 'admin' || callerSession.role === 'owner';
-    if (!isAdmin) {
-      return new Response(
-        JSON.stringify({ error: 'Admin access required' }),
+        JSON.stringify({ error: 'You do not have permission to manage announcements' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -103,6 +98,19 @@ serve(async (req) => {
           );
         }
 
+        const { data: audience } = await supabase
+          .from('sessions')
+          .select('id')
+          .eq('is_banned', false)
+          .neq('id', callerSession.id)
+          .gte('last_active_at', new Date(Date.now() - NOTIFY_ACTIVE_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+        await notify(supabase, (audience || []).map(s => s.id), {
+          type: 'announcement',
+          title: 'New announcement',
+          body: announcement.message,
+        });
+
         console.log('Announcement created');
         return new Response(
           JSON.stringify({ success: true, announcement }),
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
 
 const allowedOrigins = [
   "https://egjyojbtzxurjpptgruu.supabase.co",
@@ -106,7 +108,7 @@ serve(async (req) => {
 
     const {
       action,
-      device_id,
+      session_token,
       app_id,
       title,
       source_code,
@@ -119,7 +121,7 @@ serve(async (req) => {
     log("info", "request_received", {
       method: req.method,
       action: typeof action === "string" ? action : null,
-      has_device_id: typeof device_id === "string" && device_id.length > 0,
+      has_session_token: typeof session_token === "string" && session_token.length > 0,
       has_app_id: typeof app_id === "string" && app_id.length > 0,
       has_title: typeof title === "string" && title.trim().length > 0,
       has_source_code: typeof source_code === "string" && source_code.trim().length > 0,
@@ -128,8 +130,8 @@ serve(async (req) => {
       origin,
     });
 
-    if (!action || !device_id) {
-      return respond(400, { error: "action and device_id required" });
+    if (!action || !session_token) {
+      return respond(400, { error: "action and session_token required" });
     }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
@@ -146,25 +148,15 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Verify caller is an owner
-    const { data: session, error: sessionError } = await supabase
-      .from("sessions")
-      .select("id, role, is_banned")
-      .eq("device_id", device_id)
-      .single();
-
-    if (sessionError || !session) {
-      log("warn", "session_lookup_failed", {
-        error: sessionError?.message ?? "no_session",
-      });
-      return respond(401, { error: "Session not found. Please log in again." });
-    }
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
 
-    if (session.is_banned) {
-      return respond(403, { error: "Your account has been banned" });
+    if (!session) {
+      log("warn", "session_verification_failed", { status: sessionStatus });
+      return respond(sessionStatus, { error: sessionError });
     }
 
-    if (session.role !== "owner") {
-      return respond(403, { error: "Only owners can manage apps" });
+    if (!(await hasPermission(supabase, session.role, "apps.manage"))) {
+      return respond(403, { error: "You do not have permission to manage apps" });
     }
 
     const uploadImageIfProvided = async (): Promise<string | null> => {
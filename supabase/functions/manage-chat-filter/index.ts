@@ -0,0 +1,325 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { getRoleAccess } from "../_shared/permissions.ts";
+import {
+  DEFAULT_FILTER_MUTE_MINUTES,
+  FILTER_RULE_COLUMNS,
+  MAX_FILTER_PATTERN_LENGTH,
+  compileFilterRule,
+  evaluateFilter,
+  isFilterAction,
+  isFilterMatchType,
+  type FilterRule,
+} from "../_shared/chat-filter.ts";
+import { MAX_MUTE_MINUTES } from "../_shared/chat-mutes.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+
+const MAX_TEST_MESSAGE_LENGTH = 500;
+const FLAG_PAGE_SIZE = 50;
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, rule_id, pattern, match_type, rule_action, mute_minutes, is_enabled, message } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('Filter: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const callerAccess = await getRoleAccess(supabase, callerSession.role);
+    if (!callerAccess.permissions.includes('chat.moderate')) {
+      console.log('Filter: missing permission', { action });
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to manage the word filter' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Checks a complete rule; update_rule merges the request over the stored rule first
+    const validateRule = (rule: Pick<FilterRule, 'pattern' | 'match_type' | 'action' | 'mute_minutes'>): string | null => {
+      if (typeof rule.pattern !== 'string' || !rule.pattern.trim() || rule.pattern.trim().length > MAX_FILTER_PATTERN_LENGTH) {
+        return `Pattern must be 1-${MAX_FILTER_PATTERN_LENGTH} characters`;
+      }
+      if (!isFilterMatchType(rule.match_type)) return 'Invalid match type';
+      if (!isFilterAction(rule.action)) return 'Invalid action';
+      if (rule.match_type === 'regex' && !compileFilterRule(rule)) return 'That regular expression is not valid';
+      if (rule.action === 'mute' && (
+        !Number.isInteger(rule.mute_minutes) || (rule.mute_minutes as number) < 1 || (rule.mute_minutes as number) > MAX_MUTE_MINUTES
+      )) {
+        return `Mute length must be whole minutes between 1 and ${MAX_MUTE_MINUTES}`;
+      }
+      return null;
+    };
+
+    const ruleNotFound = () => new Response(
+      JSON.stringify({ error: 'Rule not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+    switch (action) {
+      case 'list_rules': {
+        const { data: rules, error } = await supabase
+          .from('chat_filter_rules')
+          .select(FILTER_RULE_COLUMNS)
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          console.error('Filter: list failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load filter rules' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ rules: rules || [] }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'create_rule': {
+        const rule = {
+          pattern: typeof pattern === 'string' ? pattern.trim() : pattern,
+          match_type: match_type ?? 'exact',
+          action: rule_action ?? 'reject',
+          mute_minutes: rule_action === 'mute' ? (mute_minutes ?? DEFAULT_FILTER_MUTE_MINUTES) : null,
+        };
+
+        const validationError = validateRule(rule);
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: created, error } = await supabase
+          .from('chat_filter_rules')
+          .insert({ ...rule, created_by: callerSession.id })
+          .select(FILTER_RULE_COLUMNS)
+          .single();
+
+        if (error) {
+          console.error('Filter: create failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create rule' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Filter: rule created', { match_type: rule.match_type, action: rule.action });
+        return new Response(
+          JSON.stringify({ success: true, rule: created }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'update_rule': {
+        const { data: current } = typeof rule_id === 'string'
+          ? await supabase.from('chat_filter_rules').select(FILTER_RULE_COLUMNS).eq('id', rule_id).maybeSingle()
+          : { data: null };
+        if (!current) return ruleNotFound();
+
+        if (is_enabled !== undefined && typeof is_enabled !== 'boolean') {
+          return new Response(
+            JSON.stringify({ error: 'is_enabled must be true or false' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const nextAction = rule_action ?? current.action;
+        const rule = {
+          pattern: pattern !== undefined ? (typeof pattern === 'string' ? pattern.trim() : pattern) : current.pattern,
+          match_type: match_type ?? current.match_type,
+          action: nextAction,
+          mute_minutes: nextAction === 'mute'
+            ? (mute_minutes ?? current.mute_minutes ?? DEFAULT_FILTER_MUTE_MINUTES)
+            : null,
+        };
+
+        const validationError = validateRule(rule);
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: updated, error } = await supabase
+          .from('chat_filter_rules')
+          .update({ ...rule, ...(is_enabled !== undefined ? { is_enabled } : {}) })
+          .eq('id', current.id)
+          .select(FILTER_RULE_COLUMNS)
+          .single();
+
+        if (error) {
+          console.error('Filter: update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update rule' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Filter: rule updated', { rule_id: current.id });
+        return new Response(
+          JSON.stringify({ success: true, rule: updated }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'delete_rule': {
+        if (typeof rule_id !== 'string' || !rule_id) return ruleNotFound();
+
+        const { error } = await supabase
+          .from('chat_filter_rules')
+          .delete()
+          .eq('id', rule_id);
+
+        if (error) {
+          console.error('Filter: delete failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to delete rule' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Filter: rule deleted', { rule_id });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Rule deleted' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Shows what sending a message would do right now, without storing anything
+      case 'test_message': {
+        if (typeof message !== 'string' || !message.trim() || message.trim().length > MAX_TEST_MESSAGE_LENGTH) {
+          return new Response(
+            JSON.stringify({ error: `Message must be 1-${MAX_TEST_MESSAGE_LENGTH} characters` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Read fresh rather than through the send path's cache so edits show up immediately
+        const { data: rules } = await supabase
+          .from('chat_filter_rules')
+          .select(FILTER_RULE_COLUMNS)
+          .eq('is_enabled', true)
+          .order('created_at', { ascending: true });
+
+        const result = evaluateFilter((rules || []) as FilterRule[], message.trim());
+        const outcome = result.blockedBy
+          ? (result.blockedBy.rule.action === 'mute' ? 'muted' : 'rejected')
+          : result.flaggedBy.length > 0
+            ? 'flagged'
+            : result.hits.length > 0 ? 'masked' : 'allowed';
+
+        return new Response(
+          JSON.stringify({
+            outcome,
+            message: result.blockedBy ? null : result.message,
+            hits: result.hits.map(({ rule, matches }) => ({ rule_id: rule.id, action: rule.action, matches })),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'list_flags': {
+        const { data: flags, error } = await supabase
+          .from('chat_message_flags')
+          .select('id, matched, created_at, rule_id, message:chat_messages(id, message, session_id, room_id, deleted_at)')
+          .order('created_at', { ascending: false })
+          .limit(FLAG_PAGE_SIZE);
+
+        if (error) {
+          console.error('Filter: list flags failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load flagged messages' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const sessionIds = Array.from(new Set(
+          (flags || []).map(f => (f.message as { session_id?: string } | null)?.session_id).filter((id): id is string => !!id)
+        ));
+        const { data: profiles } = sessionIds.length > 0
+          ? await supabase.from('profiles').select('session_id, username').in('session_id', sessionIds)
+          : { data: [] };
+        const usernames = new Map((profiles || []).map(p => [p.session_id, p.username]));
+
+        return new Response(
+          JSON.stringify({
+            flags: (flags || []).map(flag => {
+              const flagged = flag.message as { session_id?: string } | null;
+              return { ...flag, username: flagged?.session_id ? usernames.get(flagged.session_id) ?? null : null };
+            }),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Filter function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
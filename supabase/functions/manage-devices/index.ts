@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { generateCode } from "../_shared/codes.ts";
+import { pokeSessions } from "../_shared/realtime.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+const PAIRING_CODE_LENGTH = 8;
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, target_link_id } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('Devices: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'list_devices': {
+        const { data: devices, error } = await supabase
+          .from('session_devices')
+          .select('id, device_id, label, last_active_at, created_at')
+          .eq('session_id', callerSession.id)
+          .order('last_active_at', { ascending: false });
+
+        if (error) {
+          console.error('Devices: list failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load devices' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const result = (devices || []).map(({ device_id, ...device }) => ({
+          ...device,
+          device_hint: device_id.slice(0, 8),
+          is_current: device_id === callerSession.device_id,
+        }));
+
+        return new Response(
+          JSON.stringify({ devices: result }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'create_pairing_code': {
+        // Only one live code per identity
+        await supabase
+          .from('device_pairing_codes')
+          .delete()
+          .eq('session_id', callerSession.id);
+
+        const { data: pairing, error } = await supabase
+          .from('device_pairing_codes')
+          .insert({
+            session_id: callerSession.id,
+            code: generateCode(PAIRING_CODE_LENGTH),
+            expires_at: new Date(Date.now() + PAIRING_CODE_TTL_MS).toISOString(),
+          })
+          .select('code, expires_at')
+          .single();
+
+        if (error) {
+          console.error('Devices: pairing code creation failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create pairing code' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Devices: pairing code created');
+        return new Response(
+          JSON.stringify({ success: true, code: pairing.code, expires_at: pairing.expires_at }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'remove_device': {
+        if (!target_link_id) {
+          return new Response(
+            JSON.stringify({ error: 'target_link_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Unlinking revokes every token issued to that device; the session filter
+        // keeps callers from touching devices of other identities
+        const { data: removed, error } = await supabase
+          .from('session_devices')
+          .delete()
+          .eq('id', target_link_id)
+          .eq('session_id', callerSession.id)
+          .select('id')
+          .maybeSingle();
+
+        if (error) {
+          console.error('Devices: remove failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to sign out device' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!removed) {
+          return new Response(
+            JSON.stringify({ error: 'Device not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Other tabs of the identity re-check whether they are still linked
+        await pokeSessions([callerSession.id]);
+
+        console.log('Devices: device signed out');
+        return new Response(
+          JSON.stringify({ success: true, message: 'Device signed out' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Devices function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
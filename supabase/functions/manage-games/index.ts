@@ -1,6 +1,8 @@
 /* redeploy-bust: 2026-01-10T19:20:00Z */
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
 
 const allowedOrigins = [
   "https://egjyojbtzxurjpptgruu.supabase.co",
@@ -32,6 +34,8 @@ const getCorsHeaders = (origin: string | null) => {
   };
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 function extractBase64(dataUrlOrBase64: string) {
   const idx = dataUrlOrBase64.indexOf(",");
   return idx >= 0 ? dataUrlOrBase64.slice(idx + 1) : dataUrlOrBase64;
@@ -56,6 +60,39 @@ function getFileNameFromPublicUrl(publicUrl: string) {
   }
 }
 
+const MAX_CATEGORY_LENGTH = 30;
+const MAX_TAGS = 8;
+const MAX_TAG_LENGTH = 24;
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} -]*$/u;
+
+// Categories keep their casing for display; a blank value clears the category
+function normalizeCategory(value: unknown): { category: string | null } | { error: string } {
+  if (value === null) return { category: null };
+  if (typeof value !== "string") return { error: "category must be text" };
+
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  if (trimmed.length > MAX_CATEGORY_LENGTH) {
+    return { error: `category must be at most ${MAX_CATEGORY_LENGTH} characters` };
+  }
+  return { category: trimmed || null };
+}
+
+// Tags are lowercase so filtering ignores case; duplicates are dropped
+function normalizeTags(value: unknown): { tags: string[] } | { error: string } {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === "string")) {
+    return { error: "tags must be a list of text" };
+  }
+
+  const tags = Array.from(new Set(
+    (value as string[]).map((tag) => tag.trim().toLowerCase().replace(/\s+/g, " ")).filter(Boolean),
+  ));
+  if (tags.length > MAX_TAGS) return { error: `A game can have at most ${MAX_TAGS} tags` };
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag))) {
+    return { error: `Tags must be at most ${MAX_TAG_LENGTH} letters, numbers, spaces or dashes` };
+  }
+  return { tags };
+}
+
 function buildIframeEmbed(src: string) {
   // Keeps games isolated; works for hosted HTML files too.
   return `<iframe src="${src}" width="100%" height="600" style="border:none;" sandbox="allow-same-origin allow-scripts allow-popups allow-forms allow-modals" title="Game"></iframe>`;
@@ -110,7 +147,7 @@ serve(async (req) => {
 
     const {
       action,
-      device_id,
+      session_token,
       game_id,
       title,
       source_code,
@@ -118,12 +155,14 @@ serve(async (req) => {
       image_filename,
       html_base64,
       html_filename,
+      category,
+      tags,
     } = payload ?? {};
 
     log("info", "request_received", {
       method: req.method,
       action: typeof action === "string" ? action : null,
-      has_device_id: typeof device_id === "string" && device_id.length > 0,
+      has_session_token: typeof session_token === "string" && session_token.length > 0,
       has_game_id: typeof game_id === "string" && game_id.length > 0,
       has_title: typeof title === "string" && title.trim().length > 0,
       has_source_code: typeof source_code === "string" && source_code.trim().length > 0,
@@ -132,8 +171,8 @@ serve(async (req) => {
       origin,
     });
 
-    if (!action || !device_id) {
-      return respond(400, { error: "action and device_id required" });
+    if (!action || !session_token) {
+      return respond(400, { error: "action and session_token required" });
     }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
@@ -151,25 +190,34 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Verify caller is an owner
-    const { data: session, error: sessionError } = await supabase
-      .from("sessions")
-      .select("id, role, is_banned")
-      .eq("device_id", device_id)
-      .single();
-
-    if (sessionError || !session) {
-      log("warn", "session_lookup_failed", {
-        error: sessionError?.message ?? "no_session",
-      });
-      return respond(401, { error: "Session not found. Please log in again." });
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      log("warn", "session_verification_failed", { status: sessionStatus });
+      return respond(sessionStatus, { error: sessionError });
     }
 
-    if (session.is_banned) {
-      return respond(403, { error: "Your account has been banned" });
+    // Anyone signed in can count a play, once a day per game; every other action edits the library
+    if (action === "record_play") {
+      if (typeof game_id !== "string" || !UUID_PATTERN.test(game_id)) {
+        return respond(400, { error: "A valid game_id is required" });
+      }
+
+      const { data: playCount, error: playError } = await supabase.rpc("record_game_play", {
+        _game_id: game_id,
+        _session_id: session.id,
+      });
+      if (playError) {
+        log("error", "record_play_failed", { message: playError.message, game_id });
+        return respond(500, { error: "Failed to record play" });
+      }
+      if (playCount === null) return respond(404, { error: "Game not found" });
+
+      return respond(200, { success: true, play_count: playCount });
     }
 
-    if (session.role !== "owner") {
-      return respond(403, { error: "Only owners can manage games" });
+    if (!(await hasPermission(supabase, session.role, "games.manage"))) {
+      return respond(403, { error: "You do not have permission to manage games" });
     }
 
     const uploadImageIfProvided = async (): Promise<string | null> => {
@@ -222,6 +270,12 @@ serve(async (req) => {
       return publicUrl.publicUrl;
     };
 
+    // Category and tags are optional on both add and update; undefined leaves them as they are
+    const categoryResult = category === undefined ? null : normalizeCategory(category);
+    if (categoryResult && "error" in categoryResult) return respond(400, { error: categoryResult.error });
+    const tagsResult = tags === undefined ? null : normalizeTags(tags);
+    if (tagsResult && "error" in tagsResult) return respond(400, { error: tagsResult.error });
+
     switch (action) {
       case "add": {
         if (!title) return respond(400, { error: "title required" });
@@ -245,6 +299,8 @@ serve(async (req) => {
             title: trimmedTitle,
             source_code: finalSourceCode,
             image_url: imageUrl,
+            category: categoryResult ? categoryResult.category : null,
+            tags: tagsResult ? tagsResult.tags : [],
             created_by: session.id,
           })
           .select()
@@ -280,6 +336,9 @@ serve(async (req) => {
           updateData.title = t;
         }
 
+        if (categoryResult) updateData.category = categoryResult.category;
+        if (tagsResult) updateData.tags = tagsResult.tags;
+
         // If HTML provided, host it and replace embed.
         const htmlUrl = await uploadHtmlIfProvided();
         if (htmlUrl) {
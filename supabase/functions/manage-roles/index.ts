@@ -0,0 +1,360 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { pokeSessions } from "../_shared/realtime.ts";
+import {
+  DEFAULT_ROLE,
+  OWNER_RANK,
+  OWNER_ROLE,
+  PERMISSIONS,
+  getRoleAccess,
+  isPermission,
+} from "../_shared/permissions.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{2,29}$/;
+const MAX_ROLE_LABEL_LENGTH = 30;
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, role_name, label, rank, permissions } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
+
+    if (!callerSession) {
+      console.log('Roles: rejected session', { status: callerStatus });
+      return new Response(
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const callerAccess = await getRoleAccess(supabase, callerSession.role);
+    if (!callerAccess.permissions.includes('roles.manage')) {
+      console.log('Roles: missing permission', { action });
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to manage roles' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Roles can only be given permissions the caller holds, and only rank below the caller
+    const validatePermissions = (value: unknown): string | null => {
+      if (!Array.isArray(value) || !value.every(isPermission)) return 'Unknown permission';
+      if (!value.every((permission) => callerAccess.permissions.includes(permission))) {
+        return 'You can only grant permissions you have';
+      }
+      return null;
+    };
+
+    const maxRank = Math.min(callerAccess.rank, OWNER_RANK) - 1;
+    const validateRank = (value: unknown): string | null =>
+      Number.isInteger(value) && (value as number) >= 1 && (value as number) <= maxRank
+        ? null
+        : `Rank must be a whole number between 1 and ${maxRank}`;
+
+    const validateLabel = (value: unknown): string | null =>
+      typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_ROLE_LABEL_LENGTH
+        ? null
+        : `Label must be 1-${MAX_ROLE_LABEL_LENGTH} characters`;
+
+    const replacePermissions = async (roleName: string, granted: string[]) => {
+      const { error: deleteError } = await supabase
+        .from('role_permissions')
+        .delete()
+        .eq('role', roleName);
+      if (deleteError || granted.length === 0) return deleteError;
+
+      const { error: insertError } = await supabase
+        .from('role_permissions')
+        .insert(Array.from(new Set(granted)).map((permission) => ({ role: roleName, permission })));
+      return insertError;
+    };
+
+    // Members re-read their permissions through whoami
+    const pokeRoleMembers = async (roleName: string) => {
+      const { data: members } = await supabase
+        .from('sessions')
+        .select('id')
+        .eq('role', roleName);
+
+      await pokeSessions((members || []).map(s => s.id));
+    };
+
+    const loadEditableRole = async (roleName: unknown) => {
+      if (typeof roleName !== 'string' || roleName === OWNER_ROLE) return null;
+
+      const { data } = await supabase
+        .from('roles')
+        .select('name, label, rank, is_system')
+        .eq('name', roleName)
+        .maybeSingle();
+
+      return data && data.rank < callerAccess.rank ? data : null;
+    };
+
+    switch (action) {
+      case 'list_roles': {
+        const { data: roles, error } = await supabase
+          .from('roles')
+          .select('name, label, rank, is_system, role_permissions(permission)')
+          .order('rank', { ascending: false });
+
+        if (error) {
+          console.error('Roles: list failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load roles' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const result = (roles || []).map(({ role_permissions, ...role }) => ({
+          ...role,
+          permissions: role.name === OWNER_ROLE
+            ? [...PERMISSIONS]
+            : (role_permissions || []).map((p: { permission: string }) => p.permission),
+          editable: role.name !== OWNER_ROLE && role.rank < callerAccess.rank,
+        }));
+
+        return new Response(
+          JSON.stringify({ roles: result, available_permissions: callerAccess.permissions, max_rank: maxRank }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'create_role': {
+        if (typeof role_name !== 'string' || !ROLE_NAME_PATTERN.test(role_name)) {
+          return new Response(
+            JSON.stringify({ error: 'Role name must be 3-30 lowercase letters, numbers or underscores' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const validationError = validateLabel(label) || validateRank(rank) || validatePermissions(permissions ?? []);
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error: insertError } = await supabase
+          .from('roles')
+          .insert({ name: role_name, label: label.trim(), rank, is_system: false });
+
+        if (insertError) {
+          if (insertError.code === '23505') {
+            return new Response(
+              JSON.stringify({ error: 'A role with that name already exists' }),
+              { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          console.error('Roles: create failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create role' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const permissionsError = await replacePermissions(role_name, permissions ?? []);
+        if (permissionsError) {
+          await supabase.from('roles').delete().eq('name', role_name);
+          console.error('Roles: create permissions failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create role' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Roles: role created', { role: role_name, rank });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Role created' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'update_role': {
+        const target = await loadEditableRole(role_name);
+        if (!target) {
+          return new Response(
+            JSON.stringify({ error: 'Role not found or not editable' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Built-in roles keep their place in the hierarchy
+        if (rank !== undefined && target.is_system && rank !== target.rank) {
+          return new Response(
+            JSON.stringify({ error: 'Built-in roles cannot be re-ranked' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const validationError =
+          (label !== undefined ? validateLabel(label) : null) ||
+          (rank !== undefined && !target.is_system ? validateRank(rank) : null) ||
+          (permissions !== undefined ? validatePermissions(permissions) : null);
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const updates = {
+          ...(label !== undefined ? { label: label.trim() } : {}),
+          ...(rank !== undefined && !target.is_system ? { rank } : {}),
+        };
+
+        if (Object.keys(updates).length > 0) {
+          const { error: updateError } = await supabase
+            .from('roles')
+            .update(updates)
+            .eq('name', target.name);
+
+          if (updateError) {
+            console.error('Roles: update failed');
+            return new Response(
+              JSON.stringify({ error: 'Failed to update role' }),
+              { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+        }
+
+        if (permissions !== undefined) {
+          const permissionsError = await replacePermissions(target.name, permissions);
+          if (permissionsError) {
+            console.error('Roles: update permissions failed');
+            return new Response(
+              JSON.stringify({ error: 'Failed to update role permissions' }),
+              { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+        }
+
+        await pokeRoleMembers(target.name);
+
+        console.log('Roles: role updated', { role: target.name });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Role updated' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'delete_role': {
+        const target = await loadEditableRole(role_name);
+        if (!target) {
+          return new Response(
+            JSON.stringify({ error: 'Role not found or not editable' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (target.is_system) {
+          return new Response(
+            JSON.stringify({ error: 'Built-in roles cannot be deleted' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Members fall back to the default role before the role goes away
+        const { data: members } = await supabase
+          .from('sessions')
+          .select('id')
+          .eq('role', target.name);
+
+        const reassignErrors = (await Promise.all([
+          supabase.from('accounts').update({ role: DEFAULT_ROLE }).eq('role', target.name),
+          supabase.from('sessions').update({ role: DEFAULT_ROLE }).eq('role', target.name),
+          supabase.from('account_invites').update({ role: DEFAULT_ROLE }).eq('role', target.name),
+        ])).filter(({ error }) => error);
+
+        if (reassignErrors.length > 0) {
+          console.error('Roles: member reassignment failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to delete role' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error: deleteError } = await supabase
+          .from('roles')
+          .delete()
+          .eq('name', target.name);
+
+        if (deleteError) {
+          console.error('Roles: delete failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to delete role' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await pokeSessions((members || []).map(s => s.id));
+
+        console.log('Roles: role deleted', { role: target.name, members: members?.length || 0 });
+        return new Response(
+          JSON.stringify({ success: true, message: 'Role deleted', reassigned: members?.length || 0 }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Roles function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
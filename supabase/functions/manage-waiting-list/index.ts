@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
+import { notifyAccessDecision } from "../_shared/access-requests.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -36,11 +39,11 @@ serve(async (req) => {
   }
 
   try {
-    const { action, device_id, waiting_id } = await req.json();
+    const { action, session_token, waiting_id } = await req.json();
 
-    if (!device_id) {
+    if (!session_token) {
       return new Response(
-        JSON.stringify({ error: 'Missing device_id' }),
+        JSON.stringify({ error: 'Missing session_token' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -49,16 +52,20 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify the requesting user is an owner
-    const { data: callerSession } = await supabase
-      .from('sessions')
-      .select('*')
-      .eq('device_id', device_id)
-      .maybeSingle();
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
 
-    if (!callerSession || callerSession.role !== 'owner') {
+    if (!callerSession) {
+      console.log('Waiting list: rejected session', { status: callerStatus });
       return new Response(
-        JSON.stringify({ error: 'Only owners can manage the waiting list' }),
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!(await hasPermission(supabase, callerSession.role, 'waiting_list.manage'))) {
+      return new Response(
+        JSON.stringify({ error: 'You do not have permission to manage the waiting list' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -68,7 +75,7 @@ serve(async (req) => {
       // Get all waiting list entries
       const { data: waitingList, error } = await supabase
         .from('waiting_list')
-        .select('*')
+        .select('id, device_id, ip_address, display_name, message, status, reviewed_by, reviewed_at, created_at, updated_at')
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -103,7 +110,7 @@ serve(async (req) => {
           reviewed_at: new Date().toISOString()
         })
         .eq('id', waiting_id)
-        .select()
+        .select('id, status, reviewed_at, account_id')
         .single();
 
       if (error) {
@@ -114,10 +121,14 @@ serve(async (req) => {
         );
       }
 
+      // account_id is only for routing the decision and never leaves the server
+      const { account_id: accountId, ...entry } = data;
+      await notifyAccessDecision(supabase, accountId, newStatus);
+
       console.log(`Waiting list: ${action}d entry`, { waiting_id });
 
       return new Response(
-        JSON.stringify({ success: true, entry: data }),
+        JSON.stringify({ success: true, entry }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -0,0 +1,219 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { broadcast } from "../_shared/realtime.ts";
+import { NOTIFICATION_COLUMNS, isNotificationType, notificationsTopic } from "../_shared/notifications.ts";
+import { clampPageSize, decodeCursor, olderThan, toPage } from "../_shared/pagination.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_MARK_IDS = 100;
+
+const countUnread = async (supabase: SupabaseClient, sessionId: string) => {
+  const { count } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+    .is('read_at', null);
+  return count ?? 0;
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token, before, limit, notification_ids, type, enabled } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Notifications: rejected session', { status: sessionStatus });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      // Newest first; pass next_cursor back as `before` for older ones
+      case 'list': {
+        const cursor = before ? decodeCursor(before) : null;
+        if (before && !cursor) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid cursor' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const pageSize = clampPageSize(limit);
+        let query = supabase
+          .from('notifications')
+          .select(NOTIFICATION_COLUMNS)
+          .eq('session_id', session.id);
+        if (cursor) query = query.or(olderThan(cursor));
+
+        const { data, error } = await query
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(pageSize + 1);
+
+        if (error) {
+          console.error('Notifications: list failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to load notifications' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const page = toPage(data || [], pageSize);
+        return new Response(
+          JSON.stringify({
+            notifications: page.items,
+            next_cursor: page.next_cursor,
+            unread_count: await countUnread(supabase, session.id),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Marks the given notifications read, or every unread one when no ids are sent
+      case 'mark_read': {
+        if (
+          notification_ids !== undefined &&
+          (!Array.isArray(notification_ids) || notification_ids.length > MAX_MARK_IDS ||
+            !notification_ids.every(id => typeof id === 'string' && UUID_PATTERN.test(id)))
+        ) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid notification_ids' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        let query = supabase
+          .from('notifications')
+          .update({ read_at: new Date().toISOString() })
+          .eq('session_id', session.id)
+          .is('read_at', null);
+        if (notification_ids) query = query.in('id', notification_ids);
+
+        const { error } = await query;
+        if (error) {
+          console.error('Notifications: mark read failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update notifications' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Other tabs and devices on this session update their badge
+        await broadcast(notificationsTopic(session.id), 'notifications_read', {});
+
+        return new Response(
+          JSON.stringify({ success: true, unread_count: await countUnread(supabase, session.id) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'get_preferences': {
+        const { data } = await supabase
+          .from('notification_opt_outs')
+          .select('type')
+          .eq('session_id', session.id);
+
+        return new Response(
+          JSON.stringify({ opt_outs: (data || []).map(row => row.type) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'set_preference': {
+        if (!isNotificationType(type) || typeof enabled !== 'boolean') {
+          return new Response(
+            JSON.stringify({ error: 'Invalid preference' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = enabled
+          ? await supabase
+            .from('notification_opt_outs')
+            .delete()
+            .eq('session_id', session.id)
+            .eq('type', type)
+          : await supabase
+            .from('notification_opt_outs')
+            .upsert({ session_id: session.id, type }, { onConflict: 'session_id,type', ignoreDuplicates: true });
+
+        if (error) {
+          console.error('Notifications: preference update failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to save preference' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Notifications: preference updated', { type, enabled });
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Notifications function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
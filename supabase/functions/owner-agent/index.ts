@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { hasPermission } from "../_shared/permissions.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -40,11 +42,11 @@ serve(async (req) => {
   }
 
   try {
-    const { device_id, command, model = 'google/gemini-2.5-flash' } = await req.json();
+    const { session_token, command, model = 'google/gemini-2.5-flash' } = await req.json();
 
-    if (!device_id || !command) {
+    if (!session_token || !command) {
       return new Response(
-        JSON.stringify({ error: 'device_id and command required' }),
+        JSON.stringify({ error: 'session_token and command required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -62,23 +64,20 @@ serve(async (req) => {
     const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify caller is an owner
-    const { data: callerSession, error: callerError } = await supabase
-      .from('sessions')
-      .select('id, role, is_banned')
-      .eq('device_id', device_id)
-      .single();
+    // Verify the caller's signed session token
+    const { session: callerSession, error: callerError, status: callerStatus } = await verifySession(supabase, session_token);
 
-    if (callerError || !callerSession || callerSession.role !== 'owner') {
+    if (!callerSession) {
+      console.log('Owner-agent: rejected session', { status: callerStatus });
       return new Response(
-        JSON.stringify({ error: 'Unauthorized - owner access required' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: callerError }),
+        { status: callerStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (callerSession.is_banned) {
+    if (!(await hasPermission(supabase, callerSession.role, 'agent.use'))) {
       return new Response(
-        JSON.stringify({ error: 'Your account has been banned' }),
+        JSON.stringify({ error: 'Unauthorized - agent access required' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -197,7 +196,7 @@ RULES:
         const { data: opResult, error: opError } = await supabase.functions.invoke('admin-operations', {
           body: {
             action: actionData.action,
-            device_id,
+            session_token,
             target_device_id: actionData.target_device_id,
             new_role: actionData.new_role,
             enabled: actionData.enabled,
@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { issueSessionToken } from "../_shared/session.ts";
+import { normalizeCode } from "../_shared/codes.ts";
+import { findSessionForDevice, linkDevice } from "../_shared/devices.ts";
+import { getRetryAfter, recordFailedAttempt, type AttemptSource } from "../_shared/login-attempts.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { pairing_code, device_id, device_label } = await req.json();
+
+    if (!pairing_code || !device_id) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+      || req.headers.get('x-real-ip')
+      || 'unknown';
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Pairing codes are guessable credentials too, so they share the login throttle
+    const attemptSources: AttemptSource[] = [{ type: 'device', value: String(device_id) }];
+    if (clientIp !== 'unknown') {
+      attemptSources.push({ type: 'ip', value: clientIp });
+    }
+
+    const lockedFor = await getRetryAfter(supabase, attemptSources);
+    if (lockedFor > 0) {
+      console.log('Pair: locked out attempt', { retry_after: lockedFor });
+      return new Response(
+        JSON.stringify({ error: `Too many failed attempts. Try again in ${lockedFor} seconds.`, retry_after: lockedFor }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(lockedFor) } }
+      );
+    }
+
+    // Check if device or IP is banned
+    const { data: banData } = await supabase
+      .from('banned_devices')
+      .select('id')
+      .eq('device_id', device_id)
+      .maybeSingle();
+
+    if (banData) {
+      console.log('Pair: banned device attempt');
+      return new Response(
+        JSON.stringify({ error: 'Your device has been banned' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (clientIp !== 'unknown') {
+      const { data: ipBanData } = await supabase
+        .from('banned_devices')
+        .select('id')
+        .eq('ip_address', clientIp)
+        .maybeSingle();
+
+      if (ipBanData) {
+        console.log('Pair: banned IP attempt');
+        return new Response(
+          JSON.stringify({ error: 'Your IP address has been banned' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const { data: pairing } = await supabase
+      .from('device_pairing_codes')
+      .select('id, session_id, expires_at')
+      .eq('code', normalizeCode(pairing_code))
+      .maybeSingle();
+
+    if (!pairing || new Date(pairing.expires_at).getTime() <= Date.now()) {
+      const retryAfter = await recordFailedAttempt(supabase, attemptSources);
+      console.log('Pair: invalid code attempt', { retry_after: retryAfter });
+      return new Response(
+        JSON.stringify({ error: 'Pairing code is invalid or has expired', ...(retryAfter > 0 ? { retry_after: retryAfter } : {}) }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const linkedSession = await findSessionForDevice(supabase, device_id);
+    if (linkedSession && linkedSession.id !== pairing.session_id) {
+      return new Response(
+        JSON.stringify({ error: 'This device is already linked to another identity' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: sessionData } = await supabase
+      .from('sessions')
+      .select('id, role, is_banned, account_id')
+      .eq('id', pairing.session_id)
+      .maybeSingle();
+
+    if (!sessionData || sessionData.is_banned) {
+      return new Response(
+        JSON.stringify({ error: 'Pairing code is invalid or has expired' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Codes are single use; the delete doubles as the claim
+    const { data: claimed } = await supabase
+      .from('device_pairing_codes')
+      .delete()
+      .eq('id', pairing.id)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      return new Response(
+        JSON.stringify({ error: 'Pairing code is invalid or has expired' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: linkError } = await linkDevice(supabase, sessionData.id, device_id, {
+      label: device_label,
+      ip_address: clientIp !== 'unknown' ? clientIp : null
+    });
+
+    if (linkError) {
+      console.error('Pair: device link failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to link device' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The identity is already approved, so the device is too. The row outlives the
+    // session_devices link, which logout and expiry remove, so a later password
+    // login from this device isn't sent back to the waiting list
+    await supabase
+      .from('waiting_list')
+      .upsert({
+        device_id,
+        ip_address: clientIp !== 'unknown' ? clientIp : null,
+        status: 'approved',
+        reviewed_by: sessionData.id,
+        reviewed_at: new Date().toISOString()
+      }, { onConflict: 'device_id' });
+
+    const [{ data: profile }, { data: account }] = await Promise.all([
+      supabase.from('profiles').select('username').eq('session_id', sessionData.id).maybeSingle(),
+      sessionData.account_id
+        ? supabase.from('accounts').select('username').eq('id', sessionData.account_id).maybeSingle()
+        : Promise.resolve({ data: null }),
+    ]);
+
+    const { token, expires_at } = await issueSessionToken({ id: sessionData.id, device_id, role: sessionData.role });
+
+    console.log('Pair: device linked', { role: sessionData.role });
+
+    return new Response(
+      JSON.stringify({
+        token,
+        expires_at,
+        session: {
+          id: sessionData.id,
+          device_id,
+          role: sessionData.role,
+          account_username: account?.username || null,
+          is_banned: false,
+          username: profile?.username || null
+        },
+        needsUsername: !profile?.username
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Pair function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,203 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { broadcast } from "../_shared/realtime.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+
+// Keep in sync with src/lib/presence.ts. Tabs heartbeat every 30 seconds, so a
+// session stays online through one missed beat before it drops off.
+const PRESENCE_TOPIC = 'presence';
+const ONLINE_WINDOW_MS = 75 * 1000;
+// Offline members stay in the list for a day so people can see when others were last around
+const RECENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_MEMBERS = 100;
+
+interface PresenceSession {
+  id: string;
+  role: string;
+  last_seen_at: string;
+  online_until: string | null;
+}
+
+// Online members first, then everyone seen recently, most recent first
+const listMembers = async (supabase: SupabaseClient) => {
+  const now = Date.now();
+  const { data } = await supabase
+    .from('sessions')
+    .select('id, role, last_seen_at, online_until')
+    .eq('is_banned', false)
+    .gt('last_seen_at', new Date(now - RECENT_WINDOW_MS).toISOString())
+    .order('last_seen_at', { ascending: false })
+    .limit(MAX_MEMBERS);
+
+  const sessions = (data || []) as PresenceSession[];
+  const { data: profiles } = sessions.length > 0
+    ? await supabase.from('profiles').select('session_id, username').in('session_id', sessions.map(s => s.id))
+    : { data: [] };
+  const usernames = new Map((profiles || []).map(p => [p.session_id, p.username]));
+
+  return sessions
+    .map(s => ({
+      session_id: s.id,
+      username: usernames.get(s.id) ?? null,
+      role: s.role,
+      last_seen_at: s.last_seen_at,
+      is_online: !!s.online_until && new Date(s.online_until).getTime() > now,
+    }))
+    .sort((a, b) => Number(b.is_online) - Number(a.is_online));
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, session_token } = await req.json();
+
+    if (!action || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Presence: rejected session', { status: sessionStatus });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      // Marks the caller online and answers with the member list so tabs need one call per beat
+      case 'heartbeat': {
+        const now = Date.now();
+        const { data: current } = await supabase
+          .from('sessions')
+          .select('online_until')
+          .eq('id', session.id)
+          .maybeSingle();
+        const wasOnline = !!current?.online_until && new Date(current.online_until).getTime() > now;
+
+        const { error } = await supabase
+          .from('sessions')
+          .update({
+            last_seen_at: new Date(now).toISOString(),
+            online_until: new Date(now + ONLINE_WINDOW_MS).toISOString(),
+          })
+          .eq('id', session.id);
+
+        await supabase
+          .from('session_devices')
+          .update({ online_until: new Date(now + ONLINE_WINDOW_MS).toISOString() })
+          .eq('session_id', session.id)
+          .eq('device_id', session.device_id);
+
+        if (error) {
+          console.error('Presence: heartbeat failed');
+          return new Response(
+            JSON.stringify({ error: 'Failed to update presence' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Only coming online is announced; steady heartbeats stay quiet
+        if (!wasOnline) await broadcast(PRESENCE_TOPIC, 'presence_changed', {});
+
+        return new Response(
+          JSON.stringify({ members: await listMembers(supabase) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Sent when a device's last tab closes so others don't wait for the window to run out
+      case 'leave': {
+        const now = new Date().toISOString();
+        await supabase
+          .from('session_devices')
+          .update({ online_until: null })
+          .eq('session_id', session.id)
+          .eq('device_id', session.device_id);
+
+        // Another device still beating keeps the identity online until its own window ends
+        const { data: otherDevice } = await supabase
+          .from('session_devices')
+          .select('online_until')
+          .eq('session_id', session.id)
+          .gt('online_until', now)
+          .order('online_until', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        await supabase
+          .from('sessions')
+          .update({ last_seen_at: now, online_until: otherDevice?.online_until ?? null })
+          .eq('id', session.id);
+
+        if (!otherDevice) await broadcast(PRESENCE_TOPIC, 'presence_changed', {});
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'list': {
+        return new Response(
+          JSON.stringify({ members: await listMembers(supabase) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Unknown action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Presence function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
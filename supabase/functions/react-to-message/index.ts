@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifySession } from '../_shared/session.ts';
+import { getRoomAccess, pokeRoom } from '../_shared/chat-rooms.ts';
+import { isReactionEmoji } from '../_shared/chat-messages.ts';
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin = origin && allowedOrigins.some(allowed => 
+    origin === allowed || origin.endsWith('.lovable.dev') || origin.endsWith('.gptengineer.app') || origin.endsWith('.lovableproject.com') || origin.endsWith('.lovable.app')
+  ) ? origin : allowedOrigins[0];
+  
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { message_id, emoji, session_token } = await req.json();
+
+    if (!message_id || !emoji || !session_token) {
+      return new Response(
+        JSON.stringify({ error: 'message_id, emoji and session_token are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isReactionEmoji(emoji)) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported reaction' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Banned and signed out sessions are rejected here like in send-chat-message
+    const { session, error: sessionError, status } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Reactions: rejected session', { status });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: message } = await supabase
+      .from('chat_messages')
+      .select('id, room_id, deleted_at')
+      .eq('id', message_id)
+      .maybeSingle();
+
+    const roomAccess = message && !message.deleted_at
+      ? await getRoomAccess(supabase, message.room_id, session)
+      : null;
+
+    if (!message || !roomAccess?.canRead) {
+      return new Response(
+        JSON.stringify({ error: 'Message not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!roomAccess.canPost) {
+      return new Response(
+        JSON.stringify({ error: roomAccess.room.archived_at ? 'This room is archived' : 'This room is locked' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Reacting twice with the same emoji takes the reaction back
+    const { data: removed, error: deleteError } = await supabase
+      .from('chat_reactions')
+      .delete()
+      .eq('message_id', message.id)
+      .eq('session_id', session.id)
+      .eq('emoji', emoji)
+      .select('emoji');
+
+    if (deleteError) {
+      console.error('Reactions: remove failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to update reaction' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const reacted = !removed || removed.length === 0;
+    if (reacted) {
+      const { error: insertError } = await supabase
+        .from('chat_reactions')
+        .upsert(
+          { message_id: message.id, session_id: session.id, emoji },
+          { onConflict: 'message_id,session_id,emoji', ignoreDuplicates: true }
+        );
+
+      if (insertError) {
+        console.error('Reactions: add failed');
+        return new Response(
+          JSON.stringify({ error: 'Failed to update reaction' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    await pokeRoom(message.room_id, { event: 'message_updated', payload: { message_id: message.id } });
+
+    console.log('Reactions: reaction updated', { reacted });
+    return new Response(
+      JSON.stringify({ success: true, reacted }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Reactions function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,179 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeCode } from "../_shared/codes.ts";
+import { claimInvite } from "../_shared/invites.ts";
+import { hashPassword, validatePassword } from "../_shared/password.ts";
+import { isValidUsername } from "../_shared/username.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { invite_code, username, password, device_id } = await req.json();
+
+    if (!invite_code || !username || !password || !device_id) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const usernameCheck = isValidUsername(String(username));
+    if (!usernameCheck.valid) {
+      return new Response(
+        JSON.stringify({ error: usernameCheck.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const passwordCheck = validatePassword(password);
+    if (!passwordCheck.valid) {
+      return new Response(
+        JSON.stringify({ error: passwordCheck.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const trimmedUsername = String(username).trim();
+    const code = normalizeCode(invite_code);
+    let role = 'user';
+    let usesInvite = false;
+
+    // Until the first owner account exists, OWNER_PASSWORD doubles as a
+    // one-time owner invite so the site can be bootstrapped.
+    const bootstrapCode = normalizeCode(Deno.env.get('OWNER_PASSWORD'));
+    const { count: ownerCount } = await supabase
+      .from('accounts')
+      .select('id', { count: 'exact', head: true })
+      .eq('role', 'owner');
+
+    if (bootstrapCode && code === bootstrapCode && !ownerCount) {
+      role = 'owner';
+    } else {
+      // Checked up front for a clean error; the use itself is claimed once the account exists
+      const { data: invite } = await supabase
+        .from('account_invites')
+        .select('id, role, expires_at, max_uses, use_count, revoked_at')
+        .eq('code', code)
+        .maybeSingle();
+
+      if (
+        !invite ||
+        invite.revoked_at ||
+        invite.use_count >= invite.max_uses ||
+        new Date(invite.expires_at).getTime() <= Date.now()
+      ) {
+        console.log('Register: invalid invite attempt');
+        return new Response(
+          JSON.stringify({ error: 'Invite code is invalid or has expired' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      role = invite.role;
+      usesInvite = true;
+    }
+
+    const { data: account, error: insertError } = await supabase
+      .from('accounts')
+      .insert({
+        username: trimmedUsername,
+        password_hash: await hashPassword(password),
+        role,
+      })
+      .select('id, username, role')
+      .single();
+
+    if (insertError) {
+      // 23505 = unique_violation on username_key
+      if (insertError.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'That username is already taken' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      console.error('Account creation failed');
+      return new Response(
+        JSON.stringify({ error: 'Failed to create account' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (usesInvite) {
+      // The claim is atomic, so two registrations racing for the last use can't both win
+      const claimed = await claimInvite(supabase, code, { kind: 'register', account_id: account.id });
+
+      if (!claimed) {
+        await supabase.from('accounts').delete().eq('id', account.id);
+        return new Response(
+          JSON.stringify({ error: 'Invite code is invalid or has expired' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // The invite approves the registering device too, as redeeming one at sign in
+    // does, so the login that follows isn't sent to the waiting list
+    const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+      || req.headers.get('x-real-ip')
+      || 'unknown';
+
+    await supabase
+      .from('waiting_list')
+      .upsert({
+        device_id: String(device_id),
+        ip_address: clientIp !== 'unknown' ? clientIp : null,
+        status: 'approved',
+        reviewed_at: new Date().toISOString()
+      }, { onConflict: 'device_id' });
+
+    console.log('Register: account created', { role });
+
+    return new Response(
+      JSON.stringify({ success: true, username: account.username, role: account.role }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Register function error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
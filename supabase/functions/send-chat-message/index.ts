@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifySession } from '../_shared/session.ts';
+import { getRoomAccess, pokeRoom } from '../_shared/chat-rooms.ts';
+import { getChatPolicy, notifyMentions, resolveMentions } from '../_shared/chat-messages.ts';
+import { checkSendLimits } from '../_shared/chat-limits.ts';
+import { applyChatFilter, recordFilterFlags } from '../_shared/chat-filter.ts';
+import { getActiveMute } from '../_shared/chat-mutes.ts';
+import { normalizeChatMessage, validateChatMessage } from '../_shared/chat-markdown.ts';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '../_shared/chat-attachments.ts';
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -30,20 +38,30 @@ serve(async (req) => {
   }
 
   try {
-    const { message, device_id } = await req.json();
+    const { message, session_token, room_id, reply_to_id, attachment_ids } = await req.json();
 
-    if (!message || !device_id) {
+    const attachmentIds: unknown[] = Array.isArray(attachment_ids) ? attachment_ids : [];
+    if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE || !attachmentIds.every(id => typeof id === 'string')) {
       return new Response(
-        JSON.stringify({ error: 'Message and device_id are required' }),
+        JSON.stringify({ error: `Attach at most ${MAX_ATTACHMENTS_PER_MESSAGE} files` }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Validate message length
-    const trimmedMessage = message.trim();
-    if (trimmedMessage.length === 0 || trimmedMessage.length > 500) {
+    // Text is optional when the message carries attachments
+    if (typeof message !== 'string' || (!message && attachmentIds.length === 0) || !session_token || !room_id) {
       return new Response(
-        JSON.stringify({ error: 'Message must be 1-500 characters' }),
+        JSON.stringify({ error: 'Message, room_id and session_token are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Store the canonical form so every client renders the same thing
+    const trimmedMessage = normalizeChatMessage(message);
+    const messageError = trimmedMessage || attachmentIds.length === 0 ? validateChatMessage(trimmedMessage) : null;
+    if (messageError) {
+      return new Response(
+        JSON.stringify({ error: messageError }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -53,34 +71,112 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Find the session for this device_id to get the correct session_id
-    const { data: session, error: sessionError } = await supabase
-      .from('sessions')
-      .select('id, is_banned')
-      .eq('device_id', device_id)
-      .maybeSingle();
+    // Verify the signed session token to get the correct session_id
+    const { session, error: sessionError, status } = await verifySession(supabase, session_token);
+
+    if (!session) {
+      console.log('Chat: rejected session', { status });
+      return new Response(
+        JSON.stringify({ error: sessionError }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const roomAccess = await getRoomAccess(supabase, room_id, session);
+    if (!roomAccess?.canRead) {
+      return new Response(
+        JSON.stringify({ error: 'Room not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    if (sessionError || !session) {
+    if (!roomAccess.canPost) {
       return new Response(
-        JSON.stringify({ error: 'Session not found. Please log in again.' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: roomAccess.room.archived_at ? 'This room is archived' : 'This room is locked' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (session.is_banned) {
-      console.log('Chat: banned user attempt');
+    const mute = await getActiveMute(supabase, session.id);
+    if (mute) {
+      console.log('Chat: muted session rejected');
       return new Response(
-        JSON.stringify({ error: 'You are banned from sending messages' }),
+        JSON.stringify({ error: 'You are muted in chat', reason: mute.reason, muted_until: mute.expires_at }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    const rejection = await checkSendLimits(supabase, session.id, roomAccess, trimmedMessage, await getChatPolicy(supabase));
+    if (rejection) {
+      console.log('Chat: message rejected by flood limits', { reason: rejection.reason, retry_after: rejection.retry_after });
+      const { status: rejectionStatus, ...body } = rejection;
+      return new Response(
+        JSON.stringify(body),
+        {
+          status: rejectionStatus,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            ...(rejection.retry_after ? { 'Retry-After': String(rejection.retry_after) } : {})
+          }
+        }
+      );
+    }
+
+    const filtered = await applyChatFilter(supabase, session.id, trimmedMessage);
+    if (filtered.blocked) {
+      console.log('Chat: message blocked by word filter', { muted: !!filtered.blocked.muted_until });
+      return new Response(
+        JSON.stringify(filtered.blocked),
+        { status: filtered.blocked.muted_until ? 403 : 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Replies must point at a live message in the same room
+    if (reply_to_id !== undefined && reply_to_id !== null) {
+      const { data: parent } = typeof reply_to_id === 'string'
+        ? await supabase
+          .from('chat_messages')
+          .select('id')
+          .eq('id', reply_to_id)
+          .eq('room_id', roomAccess.room.id)
+          .is('deleted_at', null)
+          .maybeSingle()
+        : { data: null };
+
+      if (!parent) {
+        return new Response(
+          JSON.stringify({ error: 'The message you replied to is no longer available' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Attachments must be the caller's own uploads that aren't part of a message yet
+    const { data: attachments } = attachmentIds.length > 0
+      ? await supabase
+        .from('chat_attachments')
+        .select('id')
+        .in('id', attachmentIds as string[])
+        .eq('session_id', session.id)
+        .is('message_id', null)
+      : { data: [] };
+
+    if ((attachments || []).length !== new Set(attachmentIds).size) {
+      return new Response(
+        JSON.stringify({ error: 'An attachment is no longer available. Please attach it again.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Insert message with the verified session_id (server-side assignment)
     const { data: chatMessage, error: insertError } = await supabase
       .from('chat_messages')
       .insert({
         session_id: session.id,
-        message: trimmedMessage
+        room_id: roomAccess.room.id,
+        reply_to_id: reply_to_id ?? null,
+        message: filtered.message
       })
       .select()
       .single();
@@ -93,6 +189,20 @@ serve(async (req) => {
       );
     }
 
+    if (attachmentIds.length > 0) {
+      await supabase
+        .from('chat_attachments')
+        .update({ message_id: chatMessage.id })
+        .in('id', attachmentIds as string[])
+        .eq('session_id', session.id);
+    }
+
+    await recordFilterFlags(supabase, chatMessage.id, filtered.flaggedBy);
+    await pokeRoom(roomAccess.room.id, { event: 'message_created', payload: { message_id: chatMessage.id } });
+
+    const mentioned = await resolveMentions(supabase, filtered.message, roomAccess.room.id, session.id);
+    await notifyMentions(supabase, mentioned, { room: roomAccess.room, sender_session_id: session.id, message: filtered.message });
+
     console.log('Chat: message sent successfully');
 
     return new Response(
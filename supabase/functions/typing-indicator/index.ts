@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { getRoomAccess } from "../_shared/chat-rooms.ts";
+import { getActiveMute } from "../_shared/chat-mutes.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -29,11 +32,11 @@ serve(async (req) => {
   }
 
   try {
-    const { device_id, is_typing } = await req.json();
+    const { session_token, is_typing, room_id } = await req.json();
 
-    if (!device_id || typeof is_typing !== 'boolean') {
+    if (!session_token || typeof is_typing !== 'boolean') {
       return new Response(
-        JSON.stringify({ error: 'device_id and is_typing (boolean) required' }),
+        JSON.stringify({ error: 'session_token and is_typing (boolean) required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -42,23 +45,30 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get session for this device
-    const { data: session, error: sessionError } = await supabase
-      .from('sessions')
-      .select('id, is_banned')
-      .eq('device_id', device_id)
-      .maybeSingle();
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
 
-    if (sessionError || !session) {
+    if (!session) {
+      console.log('Typing: rejected session', { status: sessionStatus });
       return new Response(
-        JSON.stringify({ error: 'Session not found' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (session.is_banned) {
+    // Typing only shows in rooms the caller could post in
+    const roomAccess = is_typing ? await getRoomAccess(supabase, room_id, session) : null;
+    if (is_typing && !roomAccess?.canPost) {
       return new Response(
-        JSON.stringify({ error: 'You are banned' }),
+        JSON.stringify({ error: 'You cannot post in this room' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Muted sessions can still clear their indicator, just not set it
+    if (is_typing && await getActiveMute(supabase, session.id)) {
+      return new Response(
+        JSON.stringify({ error: 'You are muted in chat' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -69,6 +79,7 @@ serve(async (req) => {
       .upsert({
         session_id: session.id,
         is_typing,
+        ...(roomAccess ? { room_id: roomAccess.room.id } : {}),
         updated_at: new Date().toISOString()
       }, {
         onConflict: 'session_id'
@@ -85,12 +96,12 @@ serve(async (req) => {
       if (existing) {
         await supabase
           .from('typing_indicators')
-          .update({ is_typing, updated_at: new Date().toISOString() })
+          .update({ is_typing, ...(roomAccess ? { room_id: roomAccess.room.id } : {}), updated_at: new Date().toISOString() })
           .eq('session_id', session.id);
       } else {
         await supabase
           .from('typing_indicators')
-          .insert({ session_id: session.id, is_typing });
+          .insert({ session_id: session.id, is_typing, room_id: roomAccess?.room.id ?? null });
       }
     }
 
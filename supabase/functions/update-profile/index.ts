@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { isValidUsername } from "../_shared/username.ts";
 
 const allowedOrigins = [
   'https://egjyojbtzxurjpptgruu.supabase.co',
@@ -27,36 +29,6 @@ const getCorsHeaders = (origin: string | null) => {
   };
 };
 
-// Reserved words that cannot be used in usernames
-const RESERVED_WORDS = ['admin', 'system', 'bot', 'moderator', 'mod', 'support', 'official', 'owner'];
-
-// Username validation: alphanumeric, spaces, underscores, hyphens only
-const isValidUsername = (username: string): { valid: boolean; error?: string } => {
-  const trimmed = username.trim();
-  
-  if (trimmed.length < 2 || trimmed.length > 20) {
-    return { valid: false, error: 'Username must be 2-20 characters' };
-  }
-  
-  // Only allow alphanumeric, space, underscore, hyphen
-  if (!/^[a-zA-Z0-9 _-]+$/.test(trimmed)) {
-    return { valid: false, error: 'Username can only contain letters, numbers, spaces, _ and -' };
-  }
-  
-  // No multiple consecutive spaces
-  if (/\s{2,}/.test(trimmed)) {
-    return { valid: false, error: 'No multiple consecutive spaces allowed' };
-  }
-  
-  // Check reserved words
-  const lowerUsername = trimmed.toLowerCase();
-  if (RESERVED_WORDS.some(word => lowerUsername.includes(word))) {
-    return { valid: false, error: 'Username contains reserved words' };
-  }
-  
-  return { valid: true };
-};
-
 serve(async (req) => {
   const origin = req.headers.get('origin');
   const corsHeaders = getCorsHeaders(origin);
@@ -67,11 +39,11 @@ serve(async (req) => {
   }
 
   try {
-    const { username, device_id } = await req.json();
+    const { username, session_token } = await req.json();
 
-    if (!username || !device_id) {
+    if (!username || !session_token) {
       return new Response(
-        JSON.stringify({ error: 'Username and device_id are required' }),
+        JSON.stringify({ error: 'Username and session_token are required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -92,24 +64,14 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Validate device_id owns the session (server-side ownership check)
-    const { data: session, error: sessionError } = await supabase
-      .from('sessions')
-      .select('id, is_banned')
-      .eq('device_id', device_id)
-      .maybeSingle();
-
-    if (sessionError || !session) {
-      return new Response(
-        JSON.stringify({ error: 'Session not found. Please log in again.' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // Verify the caller's signed session token
+    const { session, error: sessionError, status: sessionStatus } = await verifySession(supabase, session_token);
 
-    if (session.is_banned) {
+    if (!session) {
+      console.log('Profile: rejected session', { status: sessionStatus });
       return new Response(
-        JSON.stringify({ error: 'Your account has been banned' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: sessionError }),
+        { status: sessionStatus, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
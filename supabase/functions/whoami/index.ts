@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifySession } from "../_shared/session.ts";
+import { OWNER_ROLE, getRoleAccess } from "../_shared/permissions.ts";
+
+const allowedOrigins = [
+  'https://egjyojbtzxurjpptgruu.supabase.co',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://gptengineer.app'
+];
+
+const getCorsHeaders = (origin: string | null) => {
+  const allowedOrigin =
+    origin &&
+    (allowedOrigins.includes(origin) ||
+      origin.endsWith('.lovable.dev') ||
+      origin.endsWith('.gptengineer.app') ||
+      origin.endsWith('.lovableproject.com') ||
+      origin.endsWith('.lovable.app'))
+      ? origin
+      : allowedOrigins[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
+
+// Authoritative view of the caller's session. The client rebuilds its auth
+// state from this instead of trusting whatever sits in localStorage.
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { session_token } = await req.json();
+
+    if (!session_token) {
+      return new Response(
+        JSON.stringify({ error: 'session_token required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { session, error, status, code } = await verifySession(supabase, session_token);
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error, code }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const [{ data: profile }, { data: account }, { data: siteData }, roleAccess] = await Promise.all([
+      supabase.from('profiles').select('username').eq('session_id', session.id).maybeSingle(),
+      session.account_id
+        ? supabase.from('accounts').select('username').eq('id', session.account_id).maybeSingle()
+        : Promise.resolve({ data: null }),
+      supabase.from('site_settings').select('value').eq('key', 'site_enabled').maybeSingle(),
+      getRoleAccess(supabase, session.role),
+    ]);
+
+    const siteValue = siteData?.value as { enabled?: boolean } | null;
+    const siteEnabled = siteValue?.enabled ?? true;
+
+    return new Response(
+      JSON.stringify({
+        session: {
+          id: session.id,
+          device_id: session.device_id,
+          role: session.role,
+          is_banned: false,
+          username: profile?.username || null,
+          account_username: account?.username || null
+        },
+        permissions: roleAccess.permissions,
+        needsUsername: !profile?.username,
+        // Owners are never locked out of their own site
+        site_disabled: !siteEnabled && session.role !== OWNER_ROLE
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Whoami error');
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,80 @@
+-- Per-user accounts replacing the shared role passwords
+CREATE TABLE public.accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  username TEXT NOT NULL,
+  username_key TEXT GENERATED ALWAYS AS (lower(username)) STORED UNIQUE,
+  password_hash TEXT NOT NULL,
+  role app_role NOT NULL DEFAULT 'user',
+  is_disabled BOOLEAN NOT NULL DEFAULT false,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Owner-issued single-use invites for creating accounts
+CREATE TABLE public.account_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  role app_role NOT NULL DEFAULT 'user',
+  created_by UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_by UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Sessions belong to the account that logged in on the device
+ALTER TABLE public.sessions
+ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sessions_account_id ON public.sessions(account_id);
+
+-- Enable RLS (password hashes and invite codes are only reachable through edge functions)
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon account reads"
+ON public.accounts
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon account inserts"
+ON public.accounts
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon account updates"
+ON public.accounts
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon account deletes"
+ON public.accounts
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon invite reads"
+ON public.account_invites
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon invite inserts"
+ON public.account_invites
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon invite updates"
+ON public.account_invites
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon invite deletes"
+ON public.account_invites
+FOR DELETE
+USING (false);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_accounts_updated_at
+BEFORE UPDATE ON public.accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,36 @@
+-- Failed login attempts per source (client IP or device) for backoff and lockouts
+CREATE TABLE public.auth_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_type TEXT NOT NULL CHECK (source_type IN ('ip', 'device')),
+  source TEXT NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source)
+);
+
+CREATE INDEX idx_auth_attempts_locked_until ON public.auth_attempts(locked_until);
+
+-- Enable RLS (only the authenticate and admin edge functions touch this table)
+ALTER TABLE public.auth_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon auth attempt reads"
+ON public.auth_attempts
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon auth attempt inserts"
+ON public.auth_attempts
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon auth attempt updates"
+ON public.auth_attempts
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon auth attempt deletes"
+ON public.auth_attempts
+FOR DELETE
+USING (false);
@@ -0,0 +1,72 @@
+-- A session is now an identity that several devices can be linked to.
+-- sessions.device_id stays as the device that created the identity.
+CREATE TABLE public.session_devices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL UNIQUE,
+  label TEXT,
+  ip_address TEXT,
+  last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_session_devices_session_id ON public.session_devices(session_id);
+
+-- Every existing session starts with its original device linked
+INSERT INTO public.session_devices (session_id, device_id, ip_address, last_active_at, created_at)
+SELECT id, device_id, ip_address, last_active_at, created_at
+FROM public.sessions
+ON CONFLICT (device_id) DO NOTHING;
+
+-- Short-lived one-time codes for linking a new device from an existing one
+CREATE TABLE public.device_pairing_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (both tables are managed by edge functions only)
+ALTER TABLE public.session_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.device_pairing_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon session device reads"
+ON public.session_devices
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon session device inserts"
+ON public.session_devices
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon session device updates"
+ON public.session_devices
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon session device deletes"
+ON public.session_devices
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon pairing code reads"
+ON public.device_pairing_codes
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon pairing code inserts"
+ON public.device_pairing_codes
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon pairing code updates"
+ON public.device_pairing_codes
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon pairing code deletes"
+ON public.device_pairing_codes
+FOR DELETE
+USING (false);
@@ -0,0 +1,53 @@
+-- When each device last signed in, for the absolute session lifetime.
+-- Refreshing a token keeps this; only a new sign-in resets it.
+ALTER TABLE public.session_devices
+  ADD COLUMN signed_in_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Session lifetimes enforced by the edge functions; 0 disables a limit
+INSERT INTO public.site_settings (key, value) VALUES
+  ('session_policy', '{"absolute_hours": 720, "idle_hours": 168}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Periodic cleanup of sign-ins, identities and typing state nobody will use again
+CREATE OR REPLACE FUNCTION public.cleanup_stale_sessions()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB;
+  absolute_hours INTEGER;
+  idle_hours INTEGER;
+BEGIN
+  SELECT value INTO policy FROM public.site_settings WHERE key = 'session_policy';
+  absolute_hours := COALESCE((policy->>'absolute_hours')::INTEGER, 0);
+  idle_hours := COALESCE((policy->>'idle_hours')::INTEGER, 0);
+
+  -- Device sign-ins past either lifetime; the edge functions already reject their tokens
+  DELETE FROM public.session_devices
+  WHERE (absolute_hours > 0 AND signed_in_at < now() - make_interval(hours => absolute_hours))
+     OR (idle_hours > 0 AND last_active_at < now() - make_interval(hours => idle_hours));
+
+  -- Old user identities with no account to sign back in with, no linked device
+  -- and no chat history. Profiles and AI usage go with them via ON DELETE CASCADE.
+  DELETE FROM public.sessions s
+  WHERE s.account_id IS NULL
+    AND s.role = 'user'
+    AND NOT s.is_banned
+    AND s.last_active_at < now() - INTERVAL '30 days'
+    AND NOT EXISTS (SELECT 1 FROM public.session_devices d WHERE d.session_id = s.id)
+    AND NOT EXISTS (SELECT 1 FROM public.chat_messages m WHERE m.session_id = s.id);
+
+  -- Typing indicators only matter for a few seconds
+  DELETE FROM public.typing_indicators t
+  WHERE t.updated_at < now() - INTERVAL '10 minutes'
+     OR NOT EXISTS (SELECT 1 FROM public.sessions s WHERE s.id = t.session_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cleanup_stale_sessions() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('cleanup-stale-sessions', '*/30 * * * *', 'SELECT public.cleanup_stale_sessions()');
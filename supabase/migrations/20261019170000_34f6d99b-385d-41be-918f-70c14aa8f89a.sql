@@ -0,0 +1,145 @@
+-- Roles are rows instead of enum values so owners can define custom ones.
+-- Rank orders them: a role can only act on roles ranked below it.
+CREATE TABLE public.roles (
+  name TEXT NOT NULL PRIMARY KEY,
+  label TEXT NOT NULL,
+  rank INTEGER NOT NULL CHECK (rank >= 0 AND rank <= 100),
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_roles_updated_at
+BEFORE UPDATE ON public.roles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.roles (name, label, rank, is_system) VALUES
+  ('user', 'User', 0, true),
+  ('admin', 'Admin', 50, true),
+  ('owner', 'Owner', 100, true);
+
+-- Permissions granted to each role. The owner role implicitly holds every
+-- permission, so it has no rows here.
+CREATE TABLE public.role_permissions (
+  role TEXT NOT NULL REFERENCES public.roles(name) ON DELETE CASCADE ON UPDATE CASCADE,
+  permission TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+-- What admins could already do before permissions existed
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'admin.access'),
+  ('admin', 'users.ban'),
+  ('admin', 'sessions.delete'),
+  ('admin', 'announcements.manage'),
+  ('admin', 'chat.delete_any'),
+  ('admin', 'ai.premium_models'),
+  ('admin', 'ai.extended_quota');
+
+-- Enable RLS (only edge functions read or change roles)
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon role reads"
+ON public.roles
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon role inserts"
+ON public.roles
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon role updates"
+ON public.roles
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon role deletes"
+ON public.roles
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon role permission reads"
+ON public.role_permissions
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon role permission inserts"
+ON public.role_permissions
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon role permission updates"
+ON public.role_permissions
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon role permission deletes"
+ON public.role_permissions
+FOR DELETE
+USING (false);
+
+-- The apps policies read sessions.role, so they have to be dropped while its type changes
+DROP POLICY "Owners can insert apps" ON public.apps;
+DROP POLICY "Owners can update apps" ON public.apps;
+DROP POLICY "Owners can delete apps" ON public.apps;
+
+-- Move every role column from the app_role enum to a reference to roles
+ALTER TABLE public.sessions ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.sessions ALTER COLUMN role TYPE TEXT USING role::TEXT;
+ALTER TABLE public.sessions ALTER COLUMN role SET DEFAULT 'user';
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_role_fkey FOREIGN KEY (role) REFERENCES public.roles(name) ON UPDATE CASCADE;
+
+ALTER TABLE public.accounts ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.accounts ALTER COLUMN role TYPE TEXT USING role::TEXT;
+ALTER TABLE public.accounts ALTER COLUMN role SET DEFAULT 'user';
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_role_fkey FOREIGN KEY (role) REFERENCES public.roles(name) ON UPDATE CASCADE;
+
+ALTER TABLE public.account_invites ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.account_invites ALTER COLUMN role TYPE TEXT USING role::TEXT;
+ALTER TABLE public.account_invites ALTER COLUMN role SET DEFAULT 'user';
+ALTER TABLE public.account_invites
+  ADD CONSTRAINT account_invites_role_fkey FOREIGN KEY (role) REFERENCES public.roles(name) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_role ON public.sessions(role);
+
+CREATE POLICY "Owners can insert apps"
+ON public.apps
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE id = created_by
+    AND role = 'owner'
+    AND is_banned = false
+  )
+);
+
+CREATE POLICY "Owners can update apps"
+ON public.apps
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE id = apps.created_by
+    AND role = 'owner'
+    AND is_banned = false
+  )
+);
+
+CREATE POLICY "Owners can delete apps"
+ON public.apps
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE id = apps.created_by
+    AND role = 'owner'
+    AND is_banned = false
+  )
+);
@@ -0,0 +1,14 @@
+-- Applicants say who they are when they ask for access. The edit token hash
+-- lets them change a pending request without an account session.
+ALTER TABLE public.waiting_list
+  ADD COLUMN display_name TEXT,
+  ADD COLUMN message TEXT,
+  ADD COLUMN edit_token_hash TEXT;
+
+ALTER TABLE public.waiting_list
+  ADD CONSTRAINT waiting_list_display_name_length CHECK (display_name IS NULL OR char_length(display_name) BETWEEN 1 AND 40),
+  ADD CONSTRAINT waiting_list_message_length CHECK (message IS NULL OR char_length(message) <= 500);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waiting_list_edit_token_hash
+  ON public.waiting_list(edit_token_hash)
+  WHERE edit_token_hash IS NOT NULL;
@@ -0,0 +1,93 @@
+-- Invites can be used more than once: at registration to create an account,
+-- or at sign in to skip the waiting list. Every use is kept as history.
+ALTER TABLE public.account_invites
+  ADD COLUMN max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses >= 1),
+  ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+  ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.account_invite_uses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invite_id UUID NOT NULL REFERENCES public.account_invites(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('register', 'login')),
+  device_id TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_account_invite_uses_invite_id ON public.account_invite_uses(invite_id, created_at DESC);
+
+-- Single-use invites that were already redeemed become their first use
+INSERT INTO public.account_invite_uses (invite_id, account_id, kind, created_at)
+SELECT id, used_by, 'register', used_at
+FROM public.account_invites
+WHERE used_at IS NOT NULL;
+
+UPDATE public.account_invites SET use_count = 1 WHERE used_at IS NOT NULL;
+
+ALTER TABLE public.account_invites
+  DROP COLUMN used_by,
+  DROP COLUMN used_at;
+
+-- Enable RLS (only edge functions read invite history)
+ALTER TABLE public.account_invite_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon invite use reads"
+ON public.account_invite_uses
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon invite use inserts"
+ON public.account_invite_uses
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon invite use updates"
+ON public.account_invite_uses
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon invite use deletes"
+ON public.account_invite_uses
+FOR DELETE
+USING (false);
+
+-- Takes one use of an invite and records it in a single statement so
+-- concurrent sign ins can't push an invite past max_uses. Returns no row
+-- when the code is unknown, revoked, expired or used up.
+CREATE OR REPLACE FUNCTION public.claim_account_invite(
+  _code TEXT,
+  _kind TEXT,
+  _account_id UUID,
+  _device_id TEXT DEFAULT NULL,
+  _ip_address TEXT DEFAULT NULL
+)
+RETURNS TABLE (invite_id UUID, invite_role TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed_id UUID;
+  claimed_role TEXT;
+BEGIN
+  UPDATE public.account_invites i
+  SET use_count = i.use_count + 1
+  WHERE i.code = _code
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now()
+    AND i.use_count < i.max_uses
+  RETURNING i.id, i.role INTO claimed_id, claimed_role;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.account_invite_uses (invite_id, account_id, kind, device_id, ip_address)
+  VALUES (claimed_id, _account_id, _kind, _device_id, _ip_address);
+
+  RETURN QUERY SELECT claimed_id, claimed_role;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_account_invite(TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
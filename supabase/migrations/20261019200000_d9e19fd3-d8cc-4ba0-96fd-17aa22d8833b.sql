@@ -0,0 +1,116 @@
+-- Chat is split into rooms. Public rooms stay readable by anyone; staff and
+-- invite-only rooms are only served through the chat-rooms edge function.
+CREATE TABLE public.chat_rooms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 200),
+  visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'staff', 'invite')),
+  -- The room everyone lands in; it can't be archived or made private
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  -- Locked rooms are read-only except for room managers
+  is_locked BOOLEAN NOT NULL DEFAULT false,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_chat_rooms_default ON public.chat_rooms(is_default) WHERE is_default;
+
+CREATE TRIGGER update_chat_rooms_updated_at
+BEFORE UPDATE ON public.chat_rooms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.chat_rooms (name, description, visibility, is_default)
+VALUES ('General', 'The main room for everyone', 'public', true);
+
+-- Who can see an invite-only room
+CREATE TABLE public.chat_room_members (
+  room_id UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, session_id)
+);
+
+CREATE INDEX idx_chat_room_members_session_id ON public.chat_room_members(session_id);
+
+-- Existing history belongs to the default room
+ALTER TABLE public.chat_messages
+ADD COLUMN room_id UUID REFERENCES public.chat_rooms(id) ON DELETE CASCADE;
+
+UPDATE public.chat_messages
+SET room_id = (SELECT id FROM public.chat_rooms WHERE is_default);
+
+ALTER TABLE public.chat_messages ALTER COLUMN room_id SET NOT NULL;
+
+CREATE INDEX idx_chat_messages_room_created ON public.chat_messages(room_id, created_at DESC);
+
+-- Typing is shown per room
+ALTER TABLE public.typing_indicators
+ADD COLUMN room_id UUID REFERENCES public.chat_rooms(id) ON DELETE CASCADE;
+
+-- Enable RLS
+ALTER TABLE public.chat_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_room_members ENABLE ROW LEVEL SECURITY;
+
+-- Public rooms are readable so the message policy below can see them
+CREATE POLICY "Anyone can read public rooms"
+ON public.chat_rooms
+FOR SELECT
+USING (visibility = 'public');
+
+CREATE POLICY "Block anon room inserts"
+ON public.chat_rooms
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon room updates"
+ON public.chat_rooms
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon room deletes"
+ON public.chat_rooms
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon room member reads"
+ON public.chat_room_members
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon room member inserts"
+ON public.chat_room_members
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon room member updates"
+ON public.chat_room_members
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon room member deletes"
+ON public.chat_room_members
+FOR DELETE
+USING (false);
+
+-- Messages in staff and invite-only rooms are no longer publicly readable
+DROP POLICY IF EXISTS "Anyone can read messages" ON public.chat_messages;
+
+CREATE POLICY "Anyone can read public room messages"
+ON public.chat_messages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.chat_rooms
+    WHERE id = chat_messages.room_id
+    AND visibility = 'public'
+  )
+);
+
+-- Admins could already moderate the one room; they now manage all of them
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('admin', 'chat.manage_rooms')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,125 @@
+-- One-to-one direct messages between profiles. Each pair has a single thread,
+-- stored with the lower profile id first. Threads, messages and blocks are only
+-- served through the direct-messages edge function.
+CREATE TABLE public.dm_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_a UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  profile_b UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Each side's read marker; messages after it count as unread
+  profile_a_read_at TIMESTAMP WITH TIME ZONE,
+  profile_b_read_at TIMESTAMP WITH TIME ZONE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (profile_a < profile_b),
+  UNIQUE (profile_a, profile_b)
+);
+
+CREATE INDEX idx_dm_threads_profile_b ON public.dm_threads(profile_b);
+
+CREATE TABLE public.dm_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.dm_threads(id) ON DELETE CASCADE,
+  sender_profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT NOT NULL CHECK (char_length(message) BETWEEN 1 AND 500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_dm_messages_thread_created ON public.dm_messages(thread_id, created_at DESC);
+
+-- A block stops the blocked profile from messaging the blocker
+CREATE TABLE public.dm_blocks (
+  blocker_profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_profile_id, blocked_profile_id),
+  CHECK (blocker_profile_id <> blocked_profile_id)
+);
+
+CREATE INDEX idx_dm_blocks_blocked ON public.dm_blocks(blocked_profile_id);
+
+-- Unread messages per thread for one profile, for the thread list and sidebar badge
+CREATE OR REPLACE FUNCTION public.dm_unread_counts(_profile_id UUID)
+RETURNS TABLE (thread_id UUID, unread BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, count(m.id)
+  FROM public.dm_threads t
+  JOIN public.dm_messages m ON m.thread_id = t.id
+  WHERE _profile_id IN (t.profile_a, t.profile_b)
+    AND m.sender_profile_id <> _profile_id
+    AND m.created_at > COALESCE(
+      CASE WHEN t.profile_a = _profile_id THEN t.profile_a_read_at ELSE t.profile_b_read_at END,
+      '-infinity'::timestamptz
+    )
+  GROUP BY t.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.dm_unread_counts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE public.dm_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dm_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dm_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon dm thread reads"
+ON public.dm_threads
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon dm thread inserts"
+ON public.dm_threads
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon dm thread updates"
+ON public.dm_threads
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon dm thread deletes"
+ON public.dm_threads
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon dm message reads"
+ON public.dm_messages
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon dm message inserts"
+ON public.dm_messages
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon dm message updates"
+ON public.dm_messages
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon dm message deletes"
+ON public.dm_messages
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon dm block reads"
+ON public.dm_blocks
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon dm block inserts"
+ON public.dm_blocks
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon dm block updates"
+ON public.dm_blocks
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon dm block deletes"
+ON public.dm_blocks
+FOR DELETE
+USING (false);
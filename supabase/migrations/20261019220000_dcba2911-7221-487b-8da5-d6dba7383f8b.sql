@@ -0,0 +1,42 @@
+-- Replies quote an earlier message in the same room
+ALTER TABLE public.chat_messages
+ADD COLUMN reply_to_id UUID;
+
+ALTER TABLE public.chat_messages
+ADD CONSTRAINT chat_messages_reply_to_id_fkey
+FOREIGN KEY (reply_to_id) REFERENCES public.chat_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_chat_messages_reply_to_id ON public.chat_messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+-- One row per person per emoji on a message. Written only by the
+-- react-to-message edge function and served with messages by chat-rooms.
+CREATE TABLE public.chat_reactions (
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, session_id, emoji)
+);
+
+-- Enable RLS
+ALTER TABLE public.chat_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon reaction reads"
+ON public.chat_reactions
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon reaction inserts"
+ON public.chat_reactions
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon reaction updates"
+ON public.chat_reactions
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon reaction deletes"
+ON public.chat_reactions
+FOR DELETE
+USING (false);
@@ -0,0 +1,43 @@
+-- Authors can fix their messages for a while after sending them
+ALTER TABLE public.chat_messages
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Every version a message had before an edit, kept for moderators.
+-- Written by the edit-message edge function and read through admin-data.
+CREATE TABLE public.chat_message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  message TEXT NOT NULL,
+  edited_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_message_revisions_message ON public.chat_message_revisions(message_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.chat_message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon revision reads"
+ON public.chat_message_revisions
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon revision inserts"
+ON public.chat_message_revisions
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon revision updates"
+ON public.chat_message_revisions
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon revision deletes"
+ON public.chat_message_revisions
+FOR DELETE
+USING (false);
+
+-- Chat rules enforced by the edge functions; an edit window of 0 turns editing off
+INSERT INTO public.site_settings (key, value) VALUES
+  ('chat_policy', '{"edit_window_minutes": 15}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
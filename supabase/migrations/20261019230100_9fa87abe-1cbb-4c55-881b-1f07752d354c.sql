@@ -0,0 +1,13 @@
+-- Slow mode: minimum seconds between one person's messages in a room.
+-- Room managers are exempt; 0 turns it off.
+ALTER TABLE public.chat_rooms
+ADD COLUMN slow_mode_seconds INTEGER NOT NULL DEFAULT 0
+CHECK (slow_mode_seconds BETWEEN 0 AND 3600);
+
+-- send-chat-message looks up each sender's recent messages before accepting another
+CREATE INDEX idx_chat_messages_session_created ON public.chat_messages(session_id, created_at DESC);
+
+-- Flood limits join the chat rules; existing settings win over these defaults
+UPDATE public.site_settings
+SET value = '{"burst_limit": 5, "per_minute_limit": 20, "duplicate_window_seconds": 30}'::jsonb || value
+WHERE key = 'chat_policy';
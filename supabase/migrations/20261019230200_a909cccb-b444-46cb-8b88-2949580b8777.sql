@@ -0,0 +1,116 @@
+-- Word filter for chat. Rules are evaluated by send-chat-message and
+-- edit-message before anything is stored, and managed through manage-chat-filter.
+CREATE TABLE public.chat_filter_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pattern TEXT NOT NULL CHECK (char_length(pattern) BETWEEN 1 AND 200),
+  -- exact: whole word. wildcard: whole word where * is any letters and ? one letter. regex: as written.
+  match_type TEXT NOT NULL DEFAULT 'exact' CHECK (match_type IN ('exact', 'wildcard', 'regex')),
+  -- reject: refuse the message. mask: replace the match with asterisks.
+  -- flag: post it and record a flag for review. mute: refuse it and mute the sender.
+  action TEXT NOT NULL DEFAULT 'reject' CHECK (action IN ('reject', 'mask', 'flag', 'mute')),
+  mute_minutes INTEGER CHECK (mute_minutes IS NULL OR mute_minutes BETWEEN 1 AND 10080),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_chat_filter_rules_updated_at
+BEFORE UPDATE ON public.chat_filter_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Messages posted despite matching a flag rule
+CREATE TABLE public.chat_message_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.chat_filter_rules(id) ON DELETE SET NULL,
+  matched TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_message_flags_created ON public.chat_message_flags(created_at DESC);
+CREATE INDEX idx_chat_message_flags_message ON public.chat_message_flags(message_id);
+
+-- Chat-only sanctions. A mute with no creator was applied by a filter rule.
+CREATE TABLE public.chat_mutes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 200),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  rule_id UUID REFERENCES public.chat_filter_rules(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_mutes_session_expires ON public.chat_mutes(session_id, expires_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.chat_filter_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_message_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon filter rule reads"
+ON public.chat_filter_rules
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon filter rule inserts"
+ON public.chat_filter_rules
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon filter rule updates"
+ON public.chat_filter_rules
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon filter rule deletes"
+ON public.chat_filter_rules
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon message flag reads"
+ON public.chat_message_flags
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon message flag inserts"
+ON public.chat_message_flags
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon message flag updates"
+ON public.chat_message_flags
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon message flag deletes"
+ON public.chat_message_flags
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Block anon mute reads"
+ON public.chat_mutes
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon mute inserts"
+ON public.chat_mutes
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon mute updates"
+ON public.chat_mutes
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon mute deletes"
+ON public.chat_mutes
+FOR DELETE
+USING (false);
+
+-- Admins already delete messages; they now run the filter too
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('admin', 'chat.moderate')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,6 @@
+-- Moderators can lift a mute early; revoked mutes stay for the record
+ALTER TABLE public.chat_mutes
+ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN revoked_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_chat_mutes_active ON public.chat_mutes(expires_at DESC) WHERE revoked_at IS NULL;
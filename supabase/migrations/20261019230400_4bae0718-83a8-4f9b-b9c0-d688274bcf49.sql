@@ -0,0 +1,46 @@
+-- Reports users file against chat messages. The message text is copied so
+-- moderators see what was reported even if it is later edited or deleted.
+-- Written and read only through the chat-reports edge function.
+CREATE TABLE public.chat_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL,
+  room_id UUID REFERENCES public.chat_rooms(id) ON DELETE SET NULL,
+  reported_session_id UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  reporter_session_id UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'inappropriate', 'other')),
+  details TEXT CHECK (details IS NULL OR char_length(details) <= 300),
+  message_snapshot TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  -- What the moderator did: dismiss, delete, mute or ban
+  resolution TEXT CHECK (resolution IS NULL OR resolution IN ('dismiss', 'delete', 'mute', 'ban')),
+  resolved_by UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One report per person per message
+CREATE UNIQUE INDEX idx_chat_reports_message_reporter ON public.chat_reports(message_id, reporter_session_id);
+CREATE INDEX idx_chat_reports_open ON public.chat_reports(created_at) WHERE status = 'open';
+
+-- Enable RLS
+ALTER TABLE public.chat_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon report reads"
+ON public.chat_reports
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon report inserts"
+ON public.chat_reports
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon report updates"
+ON public.chat_reports
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon report deletes"
+ON public.chat_reports
+FOR DELETE
+USING (false);
@@ -0,0 +1,7 @@
+-- Presence is driven by heartbeats from open tabs. last_seen_at is the latest
+-- heartbeat; online_until is when the session drops offline without another one.
+ALTER TABLE public.sessions
+ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN online_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_sessions_last_seen ON public.sessions(last_seen_at DESC) WHERE last_seen_at IS NOT NULL;
@@ -0,0 +1,53 @@
+-- Private bucket for chat uploads. Objects are only reachable through signed
+-- URLs that chat-rooms hands to people who can read the room.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'application/pdf', 'application/zip', 'text/plain']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads start unattached (message_id NULL) and are linked when the message is sent
+CREATE TABLE public.chat_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'file')),
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 120),
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  width INTEGER,
+  height INTEGER,
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_attachments_message ON public.chat_attachments(message_id);
+CREATE INDEX idx_chat_attachments_pending ON public.chat_attachments(session_id, created_at) WHERE message_id IS NULL;
+
+ALTER TABLE public.chat_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Only edge functions (service role) touch attachments
+CREATE POLICY "Block anon attachment reads"
+ON public.chat_attachments
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon attachment inserts"
+ON public.chat_attachments
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon attachment updates"
+ON public.chat_attachments
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon attachment deletes"
+ON public.chat_attachments
+FOR DELETE
+USING (false);
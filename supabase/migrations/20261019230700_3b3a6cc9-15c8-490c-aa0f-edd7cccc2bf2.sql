@@ -0,0 +1,12 @@
+-- Full-text search over chat history for the admin search panel. The 'simple'
+-- config skips stemming and stop words, which suits chat slang and usernames.
+ALTER TABLE public.chat_messages
+ADD COLUMN search_vector tsvector
+GENERATED ALWAYS AS (to_tsvector('simple', coalesce(message, ''))) STORED;
+
+CREATE INDEX idx_chat_messages_search ON public.chat_messages USING GIN (search_vector);
+CREATE INDEX idx_chat_messages_created ON public.chat_messages(created_at DESC, id DESC);
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('admin', 'chat.search')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,72 @@
+-- Per-session notifications written by edge functions (mentions, announcements,
+-- waiting list activity) and read through the notifications function
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention', 'announcement', 'waiting_list')),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  body TEXT CHECK (char_length(body) <= 300),
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_session ON public.notifications(session_id, created_at DESC, id DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(session_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Only edge functions (service role) touch notifications
+CREATE POLICY "Block anon notification reads"
+ON public.notifications
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon notification inserts"
+ON public.notifications
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon notification updates"
+ON public.notifications
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon notification deletes"
+ON public.notifications
+FOR DELETE
+USING (false);
+
+-- A row here turns one notification type off for a session; everything is on by default
+CREATE TABLE public.notification_opt_outs (
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention', 'announcement', 'waiting_list')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, type)
+);
+
+ALTER TABLE public.notification_opt_outs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Block anon notification opt-out reads"
+ON public.notification_opt_outs
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon notification opt-out inserts"
+ON public.notification_opt_outs
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon notification opt-out updates"
+ON public.notification_opt_outs
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon notification opt-out deletes"
+ON public.notification_opt_outs
+FOR DELETE
+USING (false);
+
+-- The account that asked for access, so the decision reaches its other devices
+ALTER TABLE public.waiting_list
+ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
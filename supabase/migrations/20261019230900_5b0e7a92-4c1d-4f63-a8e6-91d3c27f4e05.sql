@@ -0,0 +1,24 @@
+-- One optional category and a few free-form tags per game, plus a play
+-- counter for sorting the library by popularity
+ALTER TABLE public.games
+ADD COLUMN category TEXT CHECK (char_length(category) BETWEEN 1 AND 30),
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(tags) <= 8),
+ADD COLUMN play_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_games_category ON public.games(category);
+CREATE INDEX idx_games_tags ON public.games USING GIN (tags);
+
+-- Counts a play in a single statement so concurrent plays aren't lost
+CREATE OR REPLACE FUNCTION public.record_game_play(_game_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.games
+  SET play_count = play_count + 1
+  WHERE id = _game_id
+  RETURNING play_count;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_game_play(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- The waiting list now holds applicants' names, messages and token hashes, so
+-- it is no longer readable with the anon key. Devices check their own status
+-- through the access-request function instead.
+DROP POLICY IF EXISTS "Anyone can read waiting list" ON public.waiting_list;
+
+CREATE POLICY "Block anon waiting list reads"
+ON public.waiting_list
+FOR SELECT
+USING (false);
@@ -0,0 +1,5 @@
+-- account_id ties devices and IPs on the waiting list to accounts. Besides the
+-- blocking read policy, take away the anon and authenticated roles' SELECT
+-- grant so the table stays closed even if a read policy is added later; only
+-- the service role used by edge functions reads it.
+REVOKE SELECT ON public.waiting_list FROM anon, authenticated;
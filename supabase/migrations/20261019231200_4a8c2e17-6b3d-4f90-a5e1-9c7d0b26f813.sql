@@ -0,0 +1,63 @@
+-- One row per session, game and day, so replaying a game (or looping the
+-- endpoint) counts at most one play a day towards play_count
+CREATE TABLE public.game_plays (
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  played_on DATE NOT NULL DEFAULT current_date,
+  PRIMARY KEY (game_id, session_id, played_on)
+);
+
+ALTER TABLE public.game_plays ENABLE ROW LEVEL SECURITY;
+
+-- Only edge functions (service role) touch game plays
+CREATE POLICY "Block anon game play reads"
+ON public.game_plays
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Block anon game play inserts"
+ON public.game_plays
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Block anon game play updates"
+ON public.game_plays
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Block anon game play deletes"
+ON public.game_plays
+FOR DELETE
+USING (false);
+
+DROP FUNCTION public.record_game_play(UUID);
+
+-- Returns the game's play count, bumped only for the session's first play of
+-- the day, or NULL when the game doesn't exist
+CREATE FUNCTION public.record_game_play(_game_id UUID, _session_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _play_count INTEGER;
+BEGIN
+  INSERT INTO public.game_plays (game_id, session_id)
+  SELECT id, _session_id FROM public.games WHERE id = _game_id
+  ON CONFLICT DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE public.games
+    SET play_count = play_count + 1
+    WHERE id = _game_id
+    RETURNING play_count INTO _play_count;
+  ELSE
+    SELECT play_count INTO _play_count FROM public.games WHERE id = _game_id;
+  END IF;
+
+  RETURN _play_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_game_play(UUID, UUID) FROM PUBLIC, anon, authenticated;
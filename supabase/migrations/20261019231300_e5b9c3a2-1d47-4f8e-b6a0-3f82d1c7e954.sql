@@ -0,0 +1,5 @@
+-- Heartbeats are also tracked per linked device, so one device leaving doesn't
+-- take the identity offline while another is still open. sessions.online_until
+-- stays the latest of these.
+ALTER TABLE public.session_devices
+ADD COLUMN online_until TIMESTAMP WITH TIME ZONE;